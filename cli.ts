@@ -0,0 +1,162 @@
+#!/usr/bin/env -S npx tsx
+import dotenv from 'dotenv';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import { DEFAULT_TEMPLATE, INSTRUCTION_PLACEHOLDER } from './src/core/prompt.ts';
+import { RateLimiter } from './src/core/queue.ts';
+import { isAbortError } from './src/core/retry.ts';
+import { createBackend } from './server/backends/index.ts';
+import { createMockBackend } from './server/backends/mock.ts';
+import { readDocument } from './server/documents.ts';
+import { erasePages, type PageOutcome } from './server/pipeline.ts';
+import { resolveInputs } from './cli/inputs.ts';
+import { planOutputs, writeOutput } from './cli/output.ts';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const USAGE = `Usage: smarter-eraser <files, directories or globs...> -p "<instruction>" [options]
+
+Options:
+  -p, --prompt <text>     What to erase (required)
+  -o, --output <path>     Output file for a single input, or directory for several
+                          (default: <name>_cleaned.pdf or .png next to each input)
+      --pages <range>     PDF pages to process, e.g. "1-4,7" (default: all)
+      --concurrency <n>   Pages of a file in flight at once (default: 3)
+      --rpm <n>           Model requests per minute, 0 for no limit (default: 10)
+      --template <file>   Prompt template; ${INSTRUCTION_PLACEHOLDER} marks where the instruction goes
+      --dry-run           Use the offline mock backend: no key or network needed,
+                          pages come back unchanged
+  -h, --help              Show this help
+`;
+
+interface FileReport {
+  file: string;
+  /** Pages processed: those picked by --pages, not every page in the file. */
+  pages: number;
+  outcomes: PageOutcome[];
+  /** Set when the file could not be read or written at all. */
+  error?: string;
+  written: string[];
+  ms: number;
+}
+
+function parseCount(name: string, value: string, min: number): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min) throw new Error(`--${name} must be a whole number of at least ${min}`);
+  return n;
+}
+
+const relative = (file: string) => path.relative(process.cwd(), file) || file;
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+function printReport(reports: FileReport[], backend: string, totalMs: number) {
+  const rows = reports.map(report => {
+    const failed = report.outcomes.filter(o => o.status === 'failed').length;
+    return [
+      relative(report.file),
+      String(report.pages),
+      String(report.outcomes.length - failed),
+      report.error ? '-' : String(failed),
+      seconds(report.ms),
+      report.error ? `error: ${report.error}` : report.written.map(relative).join(', '),
+    ];
+  });
+  const header = ['File', 'Pages', 'Done', 'Failed', 'Time', 'Output'];
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]) => cells.map((cell, i) => (i === cells.length - 1 ? cell : cell.padEnd(widths[i]))).join('  ');
+
+  console.log();
+  console.log(line(header));
+  for (const row of rows) console.log(line(row));
+
+  const failures = reports.flatMap(report =>
+    report.outcomes.filter(o => o.status === 'failed').map(o => `  ${relative(report.file)} page ${o.index + 1}: ${o.error}`));
+  if (failures.length) {
+    console.log('\nFailed pages (kept unchanged in the output):');
+    for (const failure of failures) console.log(failure);
+  }
+
+  const pages = reports.reduce((sum, r) => sum + r.outcomes.length, 0);
+  const failed = reports.reduce((sum, r) => sum + r.outcomes.filter(o => o.status === 'failed').length, 0);
+  const broken = reports.filter(r => r.error).length;
+  console.log(
+    `\n${reports.length} file(s), ${pages} page(s): ${pages - failed} done, ${failed} failed` +
+    `${broken ? `, ${broken} file(s) not processed` : ''} in ${seconds(totalMs)} (backend: ${backend})`,
+  );
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      prompt: { type: 'string', short: 'p' },
+      output: { type: 'string', short: 'o' },
+      pages: { type: 'string' },
+      concurrency: { type: 'string', default: '3' },
+      rpm: { type: 'string', default: '10' },
+      template: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  const instruction = values.prompt?.trim();
+  if (positionals.length === 0 || !instruction) {
+    console.error(USAGE);
+    return 2;
+  }
+  const concurrency = parseCount('concurrency', values.concurrency, 1);
+  const dryRun = values['dry-run'];
+  // The mock backend has no quota to protect.
+  const limiter = new RateLimiter(dryRun ? 0 : parseCount('rpm', values.rpm, 0));
+  const template = values.template ? await readFile(values.template, 'utf8') : DEFAULT_TEMPLATE;
+
+  const files = await resolveInputs(positionals);
+  const targets = await planOutputs(files, values.output);
+  const backend = dryRun ? createMockBackend() : createBackend();
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  const started = Date.now();
+  const reports: FileReport[] = [];
+  for (const [i, file] of files.entries()) {
+    const report: FileReport = { file, pages: 0, outcomes: [], written: [], ms: 0 };
+    reports.push(report);
+    const fileStarted = Date.now();
+    const label = `[${i + 1}/${files.length}] ${relative(file)}`;
+    try {
+      const doc = await readDocument(await readFile(file), file, values.pages);
+      report.pages = doc.pages.length;
+      console.error(`${label}: ${doc.pages.length} page(s)`);
+      report.outcomes = await erasePages(doc.pages, backend, limiter, { instruction, template, concurrency, signal: controller.signal }, (outcome) => {
+        const attempts = outcome.attempts > 1 ? ` after ${outcome.attempts} attempts` : '';
+        console.error(`${label} page ${outcome.index + 1}: ${outcome.status === 'done' ? 'done' : `failed (${outcome.error})`}${attempts}`);
+      });
+      report.written = await writeOutput(targets[i], report.outcomes.map((outcome, n) => ({ image: outcome.image, size: doc.pages[n].size })));
+    } catch (err: any) {
+      if (isAbortError(err)) {
+        console.error('Interrupted.');
+        return 130;
+      }
+      report.error = err.message || String(err);
+      console.error(`${label}: ${report.error}`);
+    }
+    report.ms = Date.now() - fileStarted;
+  }
+
+  printReport(reports, backend.name, Date.now() - started);
+  return reports.some(r => r.error || r.outcomes.some(o => o.status === 'failed')) ? 1 : 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err.message || err);
+    process.exit(2);
+  },
+);
@@ -0,0 +1,85 @@
+import { readdir, stat } from 'fs/promises';
+import path from 'path';
+import { compareFileNames } from '../src/core/batch.ts';
+import { isSupportedName } from '../server/documents.ts';
+
+/** Results of an earlier run (see cli/output.ts), skipped when searching directories and globs. */
+const isOutput = (file: string) => path.parse(file).name.endsWith('_cleaned');
+
+const isCandidate = (file: string) => isSupportedName(file) && !isOutput(file);
+
+const hasGlob = (pattern: string) => /[*?[]/.test(pattern);
+
+/** `*` and `?` match within one path segment, `**` across segments, `[...]` a character class. */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '*' && pattern[i + 1] === '*') {
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (c === '*') {
+      source += '[^/]*';
+    } else if (c === '?') {
+      source += '[^/]';
+    } else if (c === '[') {
+      const end = pattern.indexOf(']', i);
+      if (end < 0) source += '\\[';
+      else {
+        source += pattern.slice(i, end + 1);
+        i = end;
+      }
+    } else {
+      source += c.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+async function walk(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.')) continue;
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...await walk(full));
+    else if (entry.isFile()) files.push(full);
+  }
+  return files;
+}
+
+async function expandGlob(pattern: string): Promise<string[]> {
+  const normalized = pattern.split(path.sep).join('/');
+  const segments = normalized.split('/');
+  const firstGlob = segments.findIndex(hasGlob);
+  const base = segments.slice(0, firstGlob).join('/') || (normalized.startsWith('/') ? '/' : '.');
+  const matcher = globToRegExp(path.posix.normalize(normalized));
+  const candidates = await walk(base).catch(() => []);
+  return candidates.filter(file => matcher.test(path.posix.normalize(file.split(path.sep).join('/'))));
+}
+
+/**
+ * Resolves command-line inputs to the PDFs and images to process: files as given,
+ * directories searched recursively, and glob patterns the shell did not expand.
+ * Earlier `_cleaned` outputs are only picked up when named explicitly.
+ * Throws when an input matches nothing.
+ */
+export async function resolveInputs(inputs: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => null);
+    let matched: string[];
+    if (info?.isDirectory()) {
+      matched = (await walk(input)).filter(isCandidate).sort(compareFileNames);
+    } else if (info?.isFile()) {
+      if (!isSupportedName(input)) throw new Error(`${input}: not a PDF or image`);
+      matched = [input];
+    } else if (hasGlob(input)) {
+      matched = (await expandGlob(input)).filter(isCandidate).sort(compareFileNames);
+    } else {
+      throw new Error(`${input}: no such file or directory`);
+    }
+    if (matched.length === 0) throw new Error(`${input}: no PDFs or images found`);
+    files.push(...matched);
+  }
+  return [...new Set(files.map(file => path.resolve(file)))];
+}
@@ -0,0 +1,83 @@
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { mkdir, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import type { InlineImage, PageSize } from '../src/core/types.ts';
+import { buildPdf } from '../server/documents.ts';
+
+export interface OutputPage {
+  image: InlineImage;
+  size: PageSize | null;
+}
+
+const ENCODINGS: Record<string, { mimeType: string; format: 'png' | 'jpeg' | 'webp' }> = {
+  '.png': { mimeType: 'image/png', format: 'png' },
+  '.jpg': { mimeType: 'image/jpeg', format: 'jpeg' },
+  '.jpeg': { mimeType: 'image/jpeg', format: 'jpeg' },
+  '.webp': { mimeType: 'image/webp', format: 'webp' },
+};
+
+const isDirectory = async (target: string) => (await stat(target).catch(() => null))?.isDirectory() ?? false;
+
+/**
+ * Where each input's result goes. Without `output`, next to the input as
+ * `<name>_cleaned.pdf` (PDFs) or `<name>_cleaned.png` (images). With several inputs,
+ * or when `output` is a directory, results go into it under those names; otherwise
+ * `output` is the file to write, and its extension picks PDF or image output.
+ */
+export async function planOutputs(files: string[], output: string | undefined): Promise<string[]> {
+  const intoDirectory = output !== undefined && (files.length > 1 || /[\\/]$/.test(output) || await isDirectory(output));
+  const targets = files.map((file) => {
+    if (output !== undefined && !intoDirectory) return path.resolve(output);
+    const name = `${path.parse(file).name}_cleaned${path.extname(file).toLowerCase() === '.pdf' ? '.pdf' : '.png'}`;
+    return path.resolve(output ?? path.dirname(file), name);
+  });
+  const extension = path.extname(targets[0]).toLowerCase();
+  if (extension !== '.pdf' && !(extension in ENCODINGS)) {
+    throw new Error(`${output}: output must end in .pdf, .png, .jpg or .webp`);
+  }
+  const seen = new Set<string>();
+  for (const target of targets) {
+    if (seen.has(target)) throw new Error(`Two inputs would both be written to ${target}; process them separately.`);
+    seen.add(target);
+  }
+  return targets;
+}
+
+async function encode(image: InlineImage, extension: string): Promise<Uint8Array> {
+  const { mimeType, format } = ENCODINGS[extension];
+  const bytes = Buffer.from(image.data, 'base64');
+  if (image.mimeType === mimeType) return bytes;
+  const img = await loadImage(bytes);
+  const canvas = createCanvas(img.width, img.height);
+  const ctx = canvas.getContext('2d');
+  if (format === 'jpeg') {
+    // JPEG has no alpha; flatten onto white paper instead of black.
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, img.width, img.height);
+  }
+  ctx.drawImage(img, 0, 0);
+  return format === 'png' ? canvas.encode('png') : canvas.encode(format);
+}
+
+/**
+ * Writes the pages to `target`: one PDF, or one image per page, numbered
+ * `<name>-01.png`, `<name>-02.png`... when there are several. Returns the files written.
+ */
+export async function writeOutput(target: string, pages: OutputPage[]): Promise<string[]> {
+  await mkdir(path.dirname(target), { recursive: true });
+  const extension = path.extname(target).toLowerCase();
+  if (extension === '.pdf') {
+    await writeFile(target, await buildPdf(pages));
+    return [target];
+  }
+
+  const stem = target.slice(0, -extension.length);
+  const digits = String(pages.length).length;
+  const written: string[] = [];
+  for (const [i, page] of pages.entries()) {
+    const file = pages.length === 1 ? target : `${stem}-${String(i + 1).padStart(digits, '0')}${extension}`;
+    await writeFile(file, await encode(page.image, extension));
+    written.push(file);
+  }
+  return written;
+}
@@ -0,0 +1,58 @@
+import dotenv from 'dotenv';
+import express from 'express';
+import path from 'path';
+import { createBackend } from './server/backends/index.ts';
+import { detectRouter } from './server/detect.ts';
+import { eraseRouter } from './server/erase.ts';
+import { historyRouter } from './server/history.ts';
+import { createJobRunner, jobsRouter } from './server/jobs.ts';
+import { openStore } from './server/store.ts';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const PORT = Number(process.env.PORT) || 3000;
+
+async function startServer() {
+  const app = express();
+  const backend = createBackend();
+  const store = openStore(process.env.DATABASE_PATH || 'data/smarter-eraser.db');
+
+  // Page images travel as base64 JSON, so allow bodies well above express's 100kb default.
+  app.use(express.json({ limit: '50mb' }));
+  app.use('/api', eraseRouter(backend, store));
+  app.use('/api', detectRouter(backend));
+  app.use('/api', historyRouter(store, backend));
+
+  const runner = createJobRunner(store, backend, {
+    concurrency: Number(process.env.JOB_CONCURRENCY) || 3,
+    requestsPerMinute: Number(process.env.JOB_RPM) || 10,
+    webhookSecret: process.env.JOB_WEBHOOK_SECRET || undefined,
+    callbackHosts: process.env.JOB_CALLBACK_HOSTS?.split(',').map(host => host.trim()).filter(Boolean),
+  });
+  app.use('/api', jobsRouter(store, backend, runner, process.env.APP_URL || `http://localhost:${PORT}`));
+  runner.resume();
+
+  if (process.env.NODE_ENV !== 'production') {
+    const { createServer: createViteServer } = await import('vite');
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.join(process.cwd(), 'dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`Server running on http://localhost:${PORT} (backend: ${backend.name})`);
+  });
+}
+
+startServer().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,134 @@
+import { ApiError, GoogleGenAI, Type, type GenerateContentResponse } from '@google/genai';
+import { MARK_CATEGORIES, parseMarks, type DetectedMark } from '../../src/core/detect.ts';
+import type { ResponseMetadata } from '../../src/core/errors.ts';
+import { renderPrompt } from '../../src/core/prompt.ts';
+import { BackendError, type DetectInput, type EraseBackend, type EraseInput, type EraseOutput } from './types.ts';
+
+const MODEL = 'gemini-2.5-flash-image';
+// Detection only needs text back, which the cheaper text model handles well.
+const DETECT_MODEL = 'gemini-2.5-flash';
+
+const SYSTEM_INSTRUCTION = "You are a professional document and image restoration expert. Your specialty is removing handwriting, marks, and annotations from scanned documents and photos while perfectly preserving the original printed text and background structure. You always output the modified image directly.";
+
+const MASK_NOTE = 'MASK: The second image is a mask of the same size as the first. Apply the instruction ONLY inside the white areas of the mask; leave everything in the black areas exactly as it is.';
+
+const buildPrompt = (template: string, instruction: string, hasMask: boolean) =>
+  hasMask ? `${renderPrompt(template, instruction)}\n${MASK_NOTE}` : renderPrompt(template, instruction);
+
+const DETECT_PROMPT = `Find every mark added to this printed worksheet by hand or afterwards: handwriting (answers, notes), stamps, scores or grades, and doodles (ticks, crosses, underlines, scribbles). Do not include printed text, lines or figures.
+Return one entry per mark with its category, your confidence from 0 to 1, and box_2d as [ymin, xmin, ymax, xmax] normalized to 0-1000. Group a line of handwriting into one box.`;
+
+const DETECT_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      category: { type: Type.STRING, enum: MARK_CATEGORIES },
+      confidence: { type: Type.NUMBER },
+      box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+    },
+    required: ['category', 'confidence', 'box_2d'],
+  },
+};
+
+// Quota errors embed a RetryInfo detail such as `"retryDelay": "23s"` in the message.
+function parseRetryDelay(message: string): number | undefined {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+}
+
+function toBackendError(err: unknown): unknown {
+  return err instanceof ApiError ? new BackendError(err.message, err.status, parseRetryDelay(err.message)) : err;
+}
+
+function responseMetadata(response: GenerateContentResponse): ResponseMetadata {
+  const candidate = response.candidates?.[0];
+  const ratings = candidate?.safetyRatings ?? response.promptFeedback?.safetyRatings;
+  return {
+    finishReason: candidate?.finishReason,
+    finishMessage: candidate?.finishMessage,
+    blockReason: response.promptFeedback?.blockReason,
+    safetyRatings: ratings?.map(rating => ({
+      category: String(rating.category),
+      probability: rating.probability,
+      blocked: rating.blocked,
+    })),
+    promptTokens: response.usageMetadata?.promptTokenCount,
+    outputTokens: response.usageMetadata?.candidatesTokenCount,
+    modelVersion: response.modelVersion,
+    responseId: response.responseId,
+  };
+}
+
+export function createGeminiBackend(apiKey: string | undefined): EraseBackend {
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY is not set. Set it in .env.local, or run with ERASE_BACKEND=mock to work offline.');
+  }
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: `gemini:${MODEL}`,
+    async erase({ image, instruction, template, mask, signal }: EraseInput): Promise<EraseOutput> {
+      let response;
+      try {
+        response = await ai.models.generateContent({
+          model: MODEL,
+          contents: {
+            parts: [
+              { inlineData: { data: image.data, mimeType: image.mimeType } },
+              ...(mask ? [{ inlineData: { data: mask.data, mimeType: mask.mimeType } }] : []),
+              { text: buildPrompt(template, instruction, !!mask) },
+            ],
+          },
+          config: {
+            systemInstruction: SYSTEM_INSTRUCTION,
+            abortSignal: signal,
+          },
+        });
+      } catch (err) {
+        throw toBackendError(err);
+      }
+
+      const metadata = responseMetadata(response);
+      let text = '';
+      for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+        if (part.inlineData?.data) {
+          return {
+            image: { data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' },
+            text,
+            metadata,
+          };
+        }
+        if (part.text) text += part.text;
+      }
+      return { image: null, text, metadata };
+    },
+
+    async detect({ image, signal }: DetectInput): Promise<DetectedMark[]> {
+      let response;
+      try {
+        response = await ai.models.generateContent({
+          model: DETECT_MODEL,
+          contents: {
+            parts: [
+              { inlineData: { data: image.data, mimeType: image.mimeType } },
+              { text: DETECT_PROMPT },
+            ],
+          },
+          config: {
+            responseMimeType: 'application/json',
+            responseSchema: DETECT_SCHEMA,
+            abortSignal: signal,
+          },
+        });
+      } catch (err) {
+        throw toBackendError(err);
+      }
+      try {
+        return parseMarks(JSON.parse(response.text ?? '[]'));
+      } catch {
+        throw new BackendError('The model returned malformed detection results.', 502);
+      }
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import { createGeminiBackend } from './gemini.ts';
+import { createMockBackend } from './mock.ts';
+import type { EraseBackend } from './types.ts';
+
+export type { DetectInput, EraseBackend, EraseInput, EraseOutput } from './types.ts';
+export { BackendError } from './types.ts';
+
+/** Picks the erase backend from `ERASE_BACKEND` (`gemini` by default, or `mock`). */
+export function createBackend(env: NodeJS.ProcessEnv = process.env): EraseBackend {
+  const kind = env.ERASE_BACKEND || 'gemini';
+  switch (kind) {
+    case 'gemini':
+      return createGeminiBackend(env.GEMINI_API_KEY);
+    case 'mock':
+      return createMockBackend(Number(env.MOCK_DELAY_MS) || 0);
+    default:
+      throw new Error(`Unknown ERASE_BACKEND "${kind}" (expected "gemini" or "mock")`);
+  }
+}
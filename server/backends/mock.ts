@@ -0,0 +1,31 @@
+import type { DetectedMark } from '../../src/core/detect.ts';
+import type { DetectInput, EraseBackend, EraseInput, EraseOutput } from './types.ts';
+
+/**
+ * Offline stand-in for the model. It returns the submitted page unchanged and finds
+ * no marks, so every run is deterministic and needs neither a key nor network access.
+ */
+export function createMockBackend(delayMs = 0): EraseBackend {
+  const wait = (signal?: AbortSignal) => {
+    if (delayMs <= 0) return Promise.resolve();
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, delayMs);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      }, { once: true });
+    });
+  };
+
+  return {
+    name: 'mock',
+    async erase({ image, signal }: EraseInput): Promise<EraseOutput> {
+      await wait(signal);
+      return { image: { ...image }, text: '' };
+    },
+    async detect({ signal }: DetectInput): Promise<DetectedMark[]> {
+      await wait(signal);
+      return [];
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import type { DetectedMark } from '../../src/core/detect.ts';
+import type { ResponseMetadata } from '../../src/core/errors.ts';
+import type { InlineImage } from '../../src/core/types.ts';
+
+export interface EraseInput {
+  image: InlineImage;
+  instruction: string;
+  /** Prompt the instruction is placed into (see src/core/prompt.ts). */
+  template: string;
+  mask?: InlineImage;
+  signal?: AbortSignal;
+}
+
+export interface EraseOutput {
+  /** `null` when the backend answered without producing an image. */
+  image: InlineImage | null;
+  text: string;
+  /** Finish reason, safety ratings and usage as reported by the model, when the backend has them. */
+  metadata?: ResponseMetadata;
+}
+
+export interface DetectInput {
+  image: InlineImage;
+  signal?: AbortSignal;
+}
+
+export interface EraseBackend {
+  readonly name: string;
+  erase(input: EraseInput): Promise<EraseOutput>;
+  /** Finds handwriting, stamps, scores and doodles on the page. */
+  detect(input: DetectInput): Promise<DetectedMark[]>;
+}
+
+/** Thrown by backends for failures that carry an upstream HTTP status. */
+export class BackendError extends Error {
+  constructor(message: string, public readonly status: number, public readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'BackendError';
+  }
+}
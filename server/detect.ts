@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import type { DetectRequestBody, DetectResponseBody } from '../src/core/detect.ts';
+import type { EraseErrorBody } from '../src/core/types.ts';
+import { BackendError, type EraseBackend } from './backends/index.ts';
+
+export function detectRouter(backend: EraseBackend): Router {
+  const router = Router();
+
+  router.post('/detect', async (req, res) => {
+    const image = (req.body as Partial<DetectRequestBody> | undefined)?.image;
+    if (!image || typeof image.data !== 'string' || typeof image.mimeType !== 'string') {
+      res.status(400).json({ error: 'Request must include image.data and image.mimeType.' } satisfies EraseErrorBody);
+      return;
+    }
+
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      const marks = await backend.detect({ image, signal: controller.signal });
+      res.json({ marks, backend: backend.name } satisfies DetectResponseBody);
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      console.error('Detect request failed:', err);
+      const status = err instanceof BackendError ? err.status : 500;
+      if (err instanceof BackendError && err.retryAfterMs) {
+        res.set('Retry-After', String(Math.ceil(err.retryAfterMs / 1000)));
+      }
+      res.status(status >= 400 ? status : 502).json({ error: err.message || 'Detect request failed.' } satisfies EraseErrorBody);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,114 @@
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { createRequire } from 'module';
+import path from 'path';
+import { getDocument, type PDFPageProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { assemblePdf } from '../src/core/assemble.ts';
+import { parsePageRange } from '../src/core/pages.ts';
+import { renderPages } from '../src/core/pdf.ts';
+import type { InlineImage, PageSize } from '../src/core/types.ts';
+
+// Node counterpart of src/lib/documents.ts, shared by the CLI and the job API: PDFs
+// are rendered with pdf.js's legacy build onto @napi-rs/canvas, and images are
+// passed through as they are.
+
+export interface DocumentPage {
+  /** Zero-based page number in the source file. */
+  index: number;
+  image: InlineImage;
+  size: PageSize | null;
+}
+
+export interface RenderedDocument {
+  isPdf: boolean;
+  /** Pages in the file, selected or not. */
+  pageCount: number;
+  pages: DocumentPage[];
+}
+
+export const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp',
+};
+
+export const isSupportedName = (name: string) => path.extname(name).toLowerCase() in MIME_TYPES;
+
+const pdfjsDir = path.dirname(createRequire(import.meta.url).resolve('pdfjs-dist/package.json'));
+
+const toInline = (bytes: Uint8Array, mimeType: string): InlineImage =>
+  ({ data: Buffer.from(bytes).toString('base64'), mimeType });
+
+/** Re-encodes anything but PNG and JPEG as PNG, the only formats a PDF can embed. */
+export async function toEmbeddable(image: InlineImage): Promise<InlineImage> {
+  if (image.mimeType === 'image/png' || image.mimeType === 'image/jpeg') return image;
+  const img = await loadImage(Buffer.from(image.data, 'base64'));
+  const canvas = createCanvas(img.width, img.height);
+  canvas.getContext('2d').drawImage(img, 0, 0);
+  return toInline(await canvas.encode('png'), 'image/png');
+}
+
+async function drawPage(page: PDFPageProxy, scale: number): Promise<InlineImage> {
+  const viewport = page.getViewport({ scale });
+  const canvas = createCanvas(Math.round(viewport.width), Math.round(viewport.height));
+  // pdf.js types its canvas as the DOM one; @napi-rs/canvas implements the same API.
+  await page.render({
+    canvasContext: canvas.getContext('2d') as unknown as CanvasRenderingContext2D,
+    canvas: canvas as unknown as HTMLCanvasElement,
+    viewport,
+  }).promise;
+  return toInline(await canvas.encode('png'), 'image/png');
+}
+
+/**
+ * Reads a PDF or image, telling them apart by `fileName`'s extension. `pageRange`
+ * ("1-3,5") limits which PDF pages are rendered; it is ignored for images, which
+ * are always a single page.
+ */
+export async function readDocument(bytes: Uint8Array, fileName: string, pageRange?: string): Promise<RenderedDocument> {
+  const mimeType = MIME_TYPES[path.extname(fileName).toLowerCase()];
+  if (!mimeType) throw new Error(`${fileName}: not a PDF or image`);
+  if (mimeType !== 'application/pdf') {
+    return { isPdf: false, pageCount: 1, pages: [{ index: 0, image: toInline(bytes, mimeType), size: null }] };
+  }
+
+  const pdf = await getDocument({
+    // A copy: pdf.js takes ownership of the buffer it is given and rejects Node Buffers.
+    data: new Uint8Array(bytes),
+    cMapUrl: `${pdfjsDir}/cmaps/`,
+    cMapPacked: true,
+    standardFontDataUrl: `${pdfjsDir}/standard_fonts/`,
+  }).promise;
+  try {
+    const indices = pageRange ? parsePageRange(pageRange, pdf.numPages) : [...Array(pdf.numPages).keys()];
+    if (!indices) throw new Error(`Page selection "${pageRange}" does not fit a ${pdf.numPages}-page PDF`);
+    const pages = await renderPages(pdf, drawPage, indices);
+    return { isPdf: true, pageCount: pdf.numPages, pages: pages.map((page, i) => ({ index: indices[i], ...page })) };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * How many pages a PDF or image has, without rendering any of them. Images are
+ * decoded, so a corrupt one is refused here rather than when its result is built.
+ */
+export async function countPages(bytes: Uint8Array, fileName: string): Promise<number> {
+  if (MIME_TYPES[path.extname(fileName).toLowerCase()] !== 'application/pdf') {
+    await loadImage(Buffer.from(bytes));
+    return 1;
+  }
+  const pdf = await getDocument({ data: new Uint8Array(bytes) }).promise;
+  const { numPages } = pdf;
+  await pdf.destroy();
+  return numPages;
+}
+
+/** One PDF page per image, at each page's original size. */
+export async function buildPdf(pages: { image: InlineImage; size: PageSize | null }[]): Promise<Uint8Array> {
+  const embeddable = await Promise.all(pages.map(async ({ image, size }) => ({ image: await toEmbeddable(image), size })));
+  return assemblePdf(embeddable.map(({ image, size }) => ({ data: Buffer.from(image.data, 'base64'), mimeType: image.mimeType, size })));
+}
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { DEFAULT_TEMPLATE } from '../src/core/prompt.ts';
+import type { EraseBackend, EraseOutput } from './backends/index.ts';
+import { createMockBackend } from './backends/mock.ts';
+import { cachedErase } from './erase.ts';
+import { openStore, type Store } from './store.ts';
+
+const input = {
+  image: { data: Buffer.from('page').toString('base64'), mimeType: 'image/png' },
+  instruction: 'erase the answers',
+  template: DEFAULT_TEMPLATE,
+};
+
+let store: Store;
+
+afterEach(() => store?.close());
+
+/** The mock backend, counting its calls and answering with `reply` when given. */
+function countingBackend(reply?: EraseOutput) {
+  const mock = createMockBackend();
+  const backend = {
+    ...mock,
+    calls: 0,
+    async erase(...args: Parameters<EraseBackend['erase']>) {
+      backend.calls++;
+      return reply ?? mock.erase(...args);
+    },
+  };
+  return backend;
+}
+
+describe('cachedErase', () => {
+  it('answers a repeated page and prompt from the cache', async () => {
+    store = openStore(':memory:');
+    const backend = countingBackend();
+    expect(await cachedErase(backend, store, input)).toMatchObject({ image: input.image, cached: false });
+    expect(await cachedErase(backend, store, input)).toMatchObject({ image: input.image, cached: true });
+    expect(backend.calls).toBe(1);
+  });
+
+  it('sends a different instruction or mask to the model again', async () => {
+    store = openStore(':memory:');
+    const backend = countingBackend();
+    await cachedErase(backend, store, input);
+    await cachedErase(backend, store, { ...input, instruction: 'erase red ink' });
+    await cachedErase(backend, store, { ...input, mask: input.image });
+    expect(backend.calls).toBe(3);
+  });
+
+  it('does not cache replies without an image', async () => {
+    store = openStore(':memory:');
+    const backend = countingBackend({ image: null, text: 'No.' });
+    await cachedErase(backend, store, input);
+    expect(await cachedErase(backend, store, input)).toMatchObject({ image: null, cached: false });
+    expect(backend.calls).toBe(2);
+  });
+
+  it('asks the model again when fresh and replaces the cached reply', async () => {
+    store = openStore(':memory:');
+    const first = { data: Buffer.from('first').toString('base64'), mimeType: 'image/png' };
+    const second = { data: Buffer.from('second').toString('base64'), mimeType: 'image/png' };
+    await cachedErase(countingBackend({ image: first, text: '' }), store, input);
+    const backend = countingBackend({ image: second, text: '' });
+    expect(await cachedErase(backend, store, input, true)).toMatchObject({ image: second, cached: false });
+    expect(await cachedErase(backend, store, input)).toMatchObject({ image: second, cached: true });
+    expect(backend.calls).toBe(1);
+  });
+});
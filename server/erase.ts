@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { classifyReply, classifyStatus, describeReply } from '../src/core/errors.ts';
+import { DEFAULT_TEMPLATE } from '../src/core/prompt.ts';
+import type { EraseErrorBody, EraseRequestBody, EraseResponseBody } from '../src/core/types.ts';
+import { BackendError, type EraseBackend, type EraseInput, type EraseOutput } from './backends/index.ts';
+import { sha256, type Store } from './store.ts';
+
+/**
+ * Erases with `backend` unless the same page, prompt and mask on the same backend is
+ * already in the cache, so identical requests are not re-billed. Only replies with an
+ * image are cached. `fresh` skips the lookup, for retries that want a different result.
+ */
+export async function cachedErase(backend: EraseBackend, store: Store, input: EraseInput, fresh = false): Promise<EraseOutput & { cached: boolean }> {
+  const { image, instruction, template, mask } = input;
+  const cacheKey = sha256(backend.name, instruction, template, image.mimeType, image.data, mask?.data ?? '');
+  const cached = fresh ? undefined : store.getCachedResult(cacheKey);
+  if (cached) return { ...cached, cached: true };
+  const result = await backend.erase(input);
+  if (result.image) store.putCachedResult(cacheKey, result.image, result.text);
+  return { ...result, cached: false };
+}
+
+export function eraseRouter(backend: EraseBackend, store: Store): Router {
+  const router = Router();
+
+  router.post('/erase', async (req, res) => {
+    const body = req.body as Partial<EraseRequestBody> | undefined;
+    const image = body?.image;
+    const instruction = typeof body?.instruction === 'string' ? body.instruction.trim() : '';
+    const template = typeof body?.template === 'string' && body.template.trim() ? body.template : DEFAULT_TEMPLATE;
+    const mask = body?.mask && typeof body.mask.data === 'string' && typeof body.mask.mimeType === 'string' ? body.mask : undefined;
+
+    if (!image || typeof image.data !== 'string' || typeof image.mimeType !== 'string' || !instruction) {
+      res.status(400).json({ error: 'Request must include image.data, image.mimeType and a non-empty instruction.' } satisfies EraseErrorBody);
+      return;
+    }
+
+    // Stop the upstream call if the browser goes away mid-request.
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      const result = await cachedErase(backend, store, { image, instruction, template, mask, signal: controller.signal }, body?.fresh === true);
+      if (!result.image) {
+        const kind = classifyReply(result.metadata ?? {}, result.text);
+        res.status(422).json({ error: describeReply(kind), text: result.text, kind, metadata: result.metadata } satisfies EraseErrorBody);
+        return;
+      }
+      res.json({
+        image: result.image,
+        text: result.text,
+        backend: backend.name,
+        cached: result.cached,
+        metadata: result.metadata,
+      } satisfies EraseResponseBody);
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      console.error('Erase request failed:', err);
+      const status = err instanceof BackendError ? err.status : 500;
+      if (err instanceof BackendError && err.retryAfterMs) {
+        res.set('Retry-After', String(Math.ceil(err.retryAfterMs / 1000)));
+      }
+      const code = status >= 400 ? status : 502;
+      res.status(code).json({ error: err.message || 'Erase request failed.', kind: classifyStatus(code) } satisfies EraseErrorBody);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,76 @@
+import { Router } from 'express';
+import type { CreateJobBody, UpdatePageBody } from '../src/core/history.ts';
+import { usesAi, type EraseErrorBody, type EngineMode, type PageStatus } from '../src/core/types.ts';
+import type { EraseBackend } from './backends/index.ts';
+import type { Store } from './store.ts';
+
+const ENGINES: EngineMode[] = ['ai', 'local', 'local-ai', 'ai-local'];
+const STATUSES: PageStatus[] = ['pending', 'running', 'done', 'failed', 'skipped'];
+
+const isImage = (value: unknown) => !value
+  || (typeof value === 'object' && 'data' in value && typeof value.data === 'string' && 'mimeType' in value && typeof value.mimeType === 'string');
+
+export function historyRouter(store: Store, backend: EraseBackend): Router {
+  const router = Router();
+
+  router.get('/history', (_req, res) => {
+    res.json(store.listJobs());
+  });
+
+  router.post('/history', (req, res) => {
+    const body = req.body as Partial<CreateJobBody>;
+    if (
+      typeof body.fileName !== 'string' || typeof body.fileHash !== 'string' ||
+      typeof body.instruction !== 'string' || !ENGINES.includes(body.engine as EngineMode) ||
+      !Number.isInteger(body.pageCount) || body.pageCount! < 1
+    ) {
+      res.status(400).json({ error: 'Invalid job.' } satisfies EraseErrorBody);
+      return;
+    }
+    const job = store.createJob(body as CreateJobBody, usesAi(body.engine!) ? backend.name : null);
+    res.status(201).json(job);
+  });
+
+  router.get('/history/:id', (req, res) => {
+    const job = store.getJob(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found.' } satisfies EraseErrorBody);
+      return;
+    }
+    res.json(job);
+  });
+
+  router.put('/history/:id/pages/:index', (req, res) => {
+    const body = req.body as Partial<UpdatePageBody>;
+    if (!STATUSES.includes(body.status as PageStatus) || !isImage(body.source) || !isImage(body.result)) {
+      res.status(400).json({ error: 'Invalid page update.' } satisfies EraseErrorBody);
+      return;
+    }
+    if (!store.updatePage(req.params.id, Number(req.params.index), body as UpdatePageBody)) {
+      res.status(404).json({ error: 'Page not found.' } satisfies EraseErrorBody);
+      return;
+    }
+    res.status(204).end();
+  });
+
+  router.delete('/history/:id', (req, res) => {
+    if (!store.deleteJob(req.params.id)) {
+      res.status(404).json({ error: 'Job not found.' } satisfies EraseErrorBody);
+      return;
+    }
+    res.status(204).end();
+  });
+
+  router.get('/images/:hash', (req, res) => {
+    const image = store.getImage(req.params.hash);
+    if (!image) {
+      res.status(404).end();
+      return;
+    }
+    // Images are content-addressed, so a hash always maps to the same bytes.
+    res.set('Cache-Control', 'public, max-age=31536000, immutable');
+    res.type(image.mimeType).send(image.data);
+  });
+
+  return router;
+}
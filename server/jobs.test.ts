@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createMockBackend } from './backends/mock.ts';
+import { createJobRunner } from './jobs.ts';
+import { openStore, type Store } from './store.ts';
+
+let store: Store;
+
+afterEach(() => store?.close());
+
+function runner(callbackHosts?: string[]) {
+  store = openStore(':memory:');
+  return createJobRunner(store, createMockBackend(), { concurrency: 1, requestsPerMinute: 10, callbackHosts });
+}
+
+describe('checkCallbackUrl', () => {
+  it('accepts public http(s) addresses', async () => {
+    const jobs = runner();
+    expect(await jobs.checkCallbackUrl('https://8.8.8.8/hooks/eraser')).toBeNull();
+    expect(await jobs.checkCallbackUrl('http://[2001:4860:4860::8888]/hook')).toBeNull();
+  });
+
+  it('refuses other schemes', async () => {
+    const jobs = runner();
+    expect(await jobs.checkCallbackUrl('file:///etc/passwd')).toMatch(/http\(s\)/);
+    expect(await jobs.checkCallbackUrl('not a url')).toMatch(/http\(s\)/);
+  });
+
+  it.each([
+    'http://127.0.0.1:3000/api/jobs',
+    'http://localhost/',
+    'http://[::1]/',
+    'http://10.1.2.3/',
+    'http://172.20.0.1/',
+    'http://192.168.1.10/',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://100.64.0.1/',
+    'http://0.0.0.0/',
+    'http://[fd00::1]/',
+    'http://[fe80::1]/',
+    'http://[::ffff:127.0.0.1]/',
+  ])('refuses %s', async (url) => {
+    expect(await runner().checkCallbackUrl(url)).toMatch(/private or local/);
+  });
+
+  it('lets allowlisted hosts through', async () => {
+    const jobs = runner(['LMS.internal', '10.0.0.5']);
+    expect(await jobs.checkCallbackUrl('https://lms.internal/hook')).toBeNull();
+    expect(await jobs.checkCallbackUrl('http://10.0.0.5/hook')).toBeNull();
+    expect(await jobs.checkCallbackUrl('http://10.0.0.6/hook')).toMatch(/private or local/);
+  });
+});
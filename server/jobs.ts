@@ -0,0 +1,376 @@
+import { createHash, createHmac } from 'crypto';
+import type { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { Router } from 'express';
+import { zipSync } from 'fflate';
+import http from 'http';
+import https from 'https';
+import multer from 'multer';
+import { BlockList, isIPv4, type LookupFunction } from 'net';
+import path from 'path';
+import { isFinished, jobStatus, type ApiJob, type CreateApiJobFields, type JobCallbackBody } from '../src/core/jobs.ts';
+import { parsePageRange } from '../src/core/pages.ts';
+import { DEFAULT_TEMPLATE } from '../src/core/prompt.ts';
+import { RateLimiter } from '../src/core/queue.ts';
+import { withRetry } from '../src/core/retry.ts';
+import type { EraseErrorBody, InlineImage } from '../src/core/types.ts';
+import type { EraseBackend } from './backends/index.ts';
+import { buildPdf, countPages, isSupportedName, MIME_TYPES, readDocument } from './documents.ts';
+import { cachedErase } from './erase.ts';
+import { erasePages } from './pipeline.ts';
+import type { Store, StoredApiJob } from './store.ts';
+
+export interface JobRunnerOptions {
+  /** Pages of a job in flight at once. */
+  concurrency: number;
+  requestsPerMinute: number;
+  /** Signs callback bodies with HMAC-SHA256 when set (see `notify`). */
+  webhookSecret?: string;
+  /** Callback hosts allowed even though they resolve to a private or local address. */
+  callbackHosts?: string[];
+}
+
+/** Uploads larger than the web app accepts are refused. */
+const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+const CALLBACK_TIMEOUT_MS = 10_000;
+
+const extensionOf = (mimeType: string) =>
+  Object.keys(MIME_TYPES).find(ext => MIME_TYPES[ext] === mimeType) ?? '.png';
+
+// Callbacks must not reach the server itself or the network it sits in.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) return PRIVATE_ADDRESSES.check(mapped, 'ipv4');
+  return isIPv4(address) ? PRIVATE_ADDRESSES.check(address, 'ipv4') : PRIVATE_ADDRESSES.check(address, 'ipv6');
+}
+
+/**
+ * Parses and resolves a callback URL. `addresses` are the ones it was checked
+ * against, or null for allowlisted hosts, which are trusted wherever they resolve.
+ */
+async function resolveCallbackUrl(
+  text: string,
+  allowedHosts: string[],
+): Promise<{ problem: string } | { url: URL; addresses: LookupAddress[] | null }> {
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    return { problem: 'callbackUrl must be an http(s) URL.' };
+  }
+  if (!['http:', 'https:'].includes(url.protocol)) return { problem: 'callbackUrl must be an http(s) URL.' };
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (allowedHosts.includes(host)) return { url, addresses: null };
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    return { problem: `callbackUrl host "${host}" could not be resolved.` };
+  }
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    return { problem: `callbackUrl host "${host}" resolves to a private or local address.` };
+  }
+  return { url, addresses };
+}
+
+/** Why `text` may not be used as a callback URL, or null when it may. */
+async function callbackUrlProblem(text: string, allowedHosts: string[]): Promise<string | null> {
+  const resolved = await resolveCallbackUrl(text, allowedHosts);
+  return 'problem' in resolved ? resolved.problem : null;
+}
+
+/** A `lookup` for http(s).request that answers with addresses resolved earlier. */
+const pinnedLookup = (addresses: LookupAddress[]): LookupFunction => (_hostname, options, callback) => {
+  if (options.all) callback(null, addresses);
+  else callback(null, addresses[0].address, addresses[0].family);
+};
+
+/**
+ * POSTs `body` to `url` and resolves with the response status. With `addresses` the
+ * connection goes only to them, so a host that re-resolves between the check and the
+ * request (DNS rebinding) cannot point it elsewhere. Redirects are never followed.
+ */
+function postCallback(url: URL, addresses: LookupAddress[] | null, headers: Record<string, string>, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = (url.protocol === 'https:' ? https : http).request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: addresses ? pinnedLookup(addresses) : undefined,
+      signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+    }, res => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+function inlineImage(store: Store, hash: string | null): InlineImage | null {
+  const image = hash ? store.getImage(hash) : undefined;
+  return image ? { data: image.data.toString('base64'), mimeType: image.mimeType } : null;
+}
+
+class CallbackError extends Error {
+  constructor(public readonly status: number) {
+    super(`Callback URL answered ${status}`);
+    this.name = 'CallbackError';
+  }
+}
+
+const toApiJob = (stored: StoredApiJob): ApiJob => ({
+  ...stored.job,
+  status: jobStatus(stored.job.pages),
+  pageRange: stored.pageRange,
+  callbackUrl: stored.callbackUrl,
+  notifiedAt: stored.notifiedAt,
+  callbackError: stored.callbackError,
+  resultUrl: `${stored.baseUrl}/api/jobs/${stored.job.id}/result`,
+});
+
+export type JobRunner = ReturnType<typeof createJobRunner>;
+
+/**
+ * Works through jobs submitted to /api/jobs in the background, one job at a time.
+ * Progress lives in the store, so after a restart `resume` picks up the pages that
+ * were still pending or running and any callback that was never delivered.
+ */
+export function createJobRunner(store: Store, backend: EraseBackend, options: JobRunnerOptions) {
+  const limiter = new RateLimiter(options.requestsPerMinute);
+  const callbackHosts = (options.callbackHosts ?? []).map(host => host.toLowerCase());
+  // Job pages share the browser's erase cache, so resubmitted pages are not sent to the model again.
+  const cachedBackend: EraseBackend = { ...backend, erase: input => cachedErase(backend, store, input) };
+  const queue: string[] = [];
+  let draining = false;
+
+  async function erase(stored: StoredApiJob) {
+    const { job } = stored;
+    const todo = job.pages.filter(page => page.status === 'pending' || page.status === 'running');
+    if (todo.length === 0) return;
+    try {
+      const upload = store.getImage(stored.uploadHash)!;
+      const doc = await readDocument(upload.data, job.fileName, stored.pageRange ?? undefined);
+      store.setPageSizes(job.id, doc.pages.map(page => page.size));
+      // Outcomes are keyed by the job's page index, not the page number in the upload.
+      const pages = todo.map(page => ({ ...doc.pages[page.index], index: page.index }));
+      for (const page of pages) store.updatePage(job.id, page.index, { status: 'running', source: page.image });
+      await erasePages(
+        pages,
+        cachedBackend,
+        limiter,
+        { instruction: job.instruction, template: stored.template, concurrency: options.concurrency },
+        (outcome) => store.updatePage(job.id, outcome.index, outcome.status === 'done'
+          ? { status: 'done', result: outcome.image }
+          : { status: 'failed', error: outcome.error }),
+      );
+    } catch (err: any) {
+      console.error(`Job ${job.id} failed:`, err);
+      for (const page of todo) store.updatePage(job.id, page.index, { status: 'failed', error: err.message || 'Processing failed.' });
+    }
+  }
+
+  /**
+   * POSTs a `JobCallbackBody` to the job's callback URL, retrying network errors, 429
+   * and 5xx answers. With a webhook secret the body's HMAC-SHA256 is sent as
+   * `X-Signature-256: sha256=<hex>` so the receiver can check where it came from.
+   */
+  async function notify(stored: StoredApiJob) {
+    if (!stored.callbackUrl || stored.notifiedAt || stored.callbackError) return;
+    const job = toApiJob(stored);
+    const body = JSON.stringify({
+      id: job.id,
+      status: job.status,
+      fileName: job.fileName,
+      pageCount: job.pageCount,
+      doneCount: job.doneCount,
+      failedCount: job.failedCount,
+      resultUrl: job.resultUrl,
+    } satisfies JobCallbackBody);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.webhookSecret) {
+      headers['X-Signature-256'] = `sha256=${createHmac('sha256', options.webhookSecret).update(body).digest('hex')}`;
+    }
+    try {
+      // Checked again on delivery: the host may resolve elsewhere by now.
+      const resolved = await resolveCallbackUrl(stored.callbackUrl, callbackHosts);
+      if ('problem' in resolved) throw new Error(resolved.problem);
+      await withRetry(
+        async () => {
+          const status = await postCallback(resolved.url, resolved.addresses, headers, body);
+          if (status < 200 || status >= 300) throw new CallbackError(status);
+        },
+        {
+          retries: 4,
+          baseDelayMs: 2000,
+          isRetryable: err => !(err instanceof CallbackError) || err.status === 429 || err.status >= 500,
+        },
+      );
+      store.setCallbackResult(job.id, null);
+    } catch (err: any) {
+      console.error(`Callback for job ${job.id} failed:`, err);
+      store.setCallbackResult(job.id, err.message || 'Callback failed.');
+    }
+  }
+
+  async function drain() {
+    if (draining) return;
+    draining = true;
+    while (queue.length) {
+      const id = queue[0];
+      const stored = store.getApiJob(id);
+      if (stored) {
+        await erase(stored);
+        // Re-read: the pages and counts changed while erasing.
+        const finished = store.getApiJob(id);
+        if (finished) await notify(finished);
+      }
+      queue.shift();
+    }
+    draining = false;
+  }
+
+  const enqueue = (id: string) => {
+    if (!queue.includes(id)) queue.push(id);
+    void drain();
+  };
+
+  return {
+    enqueue,
+    /** Why `url` may not be used as a job's callback URL, or null when it may. */
+    checkCallbackUrl: (url: string) => callbackUrlProblem(url, callbackHosts),
+    /** Queues the jobs a previous run of the server left unfinished. */
+    resume() {
+      for (const id of store.listUnfinishedApiJobs()) enqueue(id);
+    },
+  };
+}
+
+/** `publicUrl` is where clients reach this server; result URLs are built from it, never from the request's Host header. */
+export function jobsRouter(store: Store, backend: EraseBackend, runner: JobRunner, publicUrl: string): Router {
+  const router = Router();
+  // Browsers and most HTTP clients send UTF-8 file names without declaring a charset.
+  const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 }, defParamCharset: 'utf8' });
+
+  router.post(
+    '/jobs',
+    (req, res, next) => upload.single('file')(req, res, (err: any) => {
+      if (!err) return next();
+      res.status(err.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({ error: err.message || 'Invalid upload.' } satisfies EraseErrorBody);
+    }),
+    async (req, res) => {
+      const file = req.file;
+      const fields = (req.body ?? {}) as Partial<CreateApiJobFields>;
+      const instruction = typeof fields.instruction === 'string' ? fields.instruction.trim() : '';
+      const pageRange = typeof fields.pages === 'string' && fields.pages.trim() ? fields.pages.trim() : null;
+      const template = typeof fields.template === 'string' && fields.template.trim() ? fields.template : DEFAULT_TEMPLATE;
+      const callbackUrl = typeof fields.callbackUrl === 'string' && fields.callbackUrl.trim() ? fields.callbackUrl.trim() : null;
+
+      if (!file || !instruction) {
+        res.status(400).json({ error: 'Request must be multipart/form-data with a file and a non-empty instruction.' } satisfies EraseErrorBody);
+        return;
+      }
+      const fileName = path.basename(file.originalname);
+      if (!isSupportedName(fileName)) {
+        res.status(415).json({ error: `Unsupported file type; expected one of ${Object.keys(MIME_TYPES).join(', ')}.` } satisfies EraseErrorBody);
+        return;
+      }
+      const callbackProblem = callbackUrl && await runner.checkCallbackUrl(callbackUrl);
+      if (callbackProblem) {
+        res.status(400).json({ error: callbackProblem } satisfies EraseErrorBody);
+        return;
+      }
+
+      let pageCount: number;
+      try {
+        pageCount = await countPages(file.buffer, fileName);
+      } catch {
+        res.status(400).json({ error: 'The file could not be read as a PDF or image.' } satisfies EraseErrorBody);
+        return;
+      }
+      const selected = pageRange ? parsePageRange(pageRange, pageCount) : [...Array(pageCount).keys()];
+      if (!selected?.length) {
+        res.status(400).json({ error: `pages "${pageRange}" does not fit a ${pageCount}-page file.` } satisfies EraseErrorBody);
+        return;
+      }
+
+      const stored = store.createApiJob({
+        fileName,
+        fileHash: createHash('sha256').update(file.buffer).digest('hex'),
+        upload: { data: file.buffer.toString('base64'), mimeType: MIME_TYPES[path.extname(fileName).toLowerCase()] },
+        instruction,
+        template,
+        pageRange,
+        pageCount: selected.length,
+        callbackUrl,
+        baseUrl: publicUrl.replace(/\/+$/, ''),
+      }, backend.name);
+      runner.enqueue(stored.job.id);
+      res.status(202).location(`/api/jobs/${stored.job.id}`).json(toApiJob(stored));
+    },
+  );
+
+  router.get('/jobs/:id', (req, res) => {
+    const stored = store.getApiJob(req.params.id);
+    if (!stored) {
+      res.status(404).json({ error: 'Job not found.' } satisfies EraseErrorBody);
+      return;
+    }
+    res.json(toApiJob(stored));
+  });
+
+  /** The cleaned pages as one PDF (default) or, with `?format=zip`, a ZIP of page images. Failed pages are kept unchanged. */
+  router.get('/jobs/:id/result', async (req, res) => {
+    const stored = store.getApiJob(req.params.id);
+    if (!stored) {
+      res.status(404).json({ error: 'Job not found.' } satisfies EraseErrorBody);
+      return;
+    }
+    const format = req.query.format ?? 'pdf';
+    if (format !== 'pdf' && format !== 'zip') {
+      res.status(400).json({ error: 'format must be "pdf" or "zip".' } satisfies EraseErrorBody);
+      return;
+    }
+    if (!isFinished(jobStatus(stored.job.pages))) {
+      res.status(409).json({ error: 'The job has not finished yet.' } satisfies EraseErrorBody);
+      return;
+    }
+
+    // Pages the upload could not be read for have neither a result nor a source to fall back on.
+    const pages = stored.job.pages.flatMap(page => {
+      const image = inlineImage(store, page.resultHash ?? page.sourceHash);
+      return image ? [{ image, size: stored.pageSizes?.[page.index] ?? null }] : [];
+    });
+    if (pages.length === 0) {
+      res.status(422).json({ error: stored.job.pages[0]?.error || 'None of the pages could be read.' } satisfies EraseErrorBody);
+      return;
+    }
+    const stem = `${path.parse(stored.job.fileName).name}_cleaned`;
+    try {
+      if (format === 'pdf') {
+        res.attachment(`${stem}.pdf`).type('application/pdf').send(Buffer.from(await buildPdf(pages)));
+        return;
+      }
+      const digits = String(pages.length).length;
+      const entries: Record<string, Uint8Array> = {};
+      for (const [i, { image }] of pages.entries()) {
+        const ext = extensionOf(image.mimeType);
+        entries[pages.length === 1 ? `${stem}${ext}` : `${stem}-${String(i + 1).padStart(digits, '0')}${ext}`] = Buffer.from(image.data, 'base64');
+      }
+      res.attachment(`${stem}.zip`).type('application/zip').send(Buffer.from(zipSync(entries, { level: 0 })));
+    } catch (err: any) {
+      // Express 4 does not catch rejections from async handlers, so an undecodable page would take the server down.
+      console.error(`Job ${stored.job.id} result failed:`, err);
+      res.status(500).json({ error: err.message || 'The result could not be built.' } satisfies EraseErrorBody);
+    }
+  });
+  return router;
+}
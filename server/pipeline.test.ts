@@ -0,0 +1,72 @@
+import { createCanvas } from '@napi-rs/canvas';
+import { describe, expect, it } from 'vitest';
+import { RateLimiter } from '../src/core/queue.ts';
+import { DEFAULT_TEMPLATE } from '../src/core/prompt.ts';
+import { BackendError, type EraseBackend } from './backends/index.ts';
+import { createMockBackend } from './backends/mock.ts';
+import { buildPdf, countPages, readDocument } from './documents.ts';
+import { erasePages } from './pipeline.ts';
+
+const options = { instruction: 'erase the answers', template: DEFAULT_TEMPLATE, concurrency: 2 };
+
+async function png(width: number, height: number): Promise<Uint8Array> {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, width, height);
+  return canvas.encode('png');
+}
+
+describe('erasePages with the mock backend', () => {
+  it('runs a page through the model and assembles the output PDF', async () => {
+    const doc = await readDocument(await png(40, 60), 'worksheet.png');
+    expect(doc).toMatchObject({ isPdf: false, pageCount: 1 });
+
+    const outcomes = await erasePages(doc.pages, createMockBackend(), new RateLimiter(0), options);
+    expect(outcomes).toEqual([{ index: 0, status: 'done', attempts: 1, image: doc.pages[0].image }]);
+
+    const pdf = await buildPdf(outcomes.map(outcome => ({ image: outcome.image, size: null })));
+    expect(await countPages(pdf, 'result.pdf')).toBe(1);
+    const again = await readDocument(pdf, 'result.pdf');
+    expect(again).toMatchObject({ isPdf: true, pageCount: 1 });
+  });
+
+  it('keeps the original page and reports why when the model returns no image', async () => {
+    const backend: EraseBackend = {
+      ...createMockBackend(),
+      erase: async () => ({ image: null, text: 'I cannot help with that.', metadata: { finishReason: 'STOP' } }),
+    };
+    const doc = await readDocument(await png(10, 10), 'page.png');
+    const outcomes: unknown[] = [];
+    await erasePages(doc.pages, backend, new RateLimiter(0), options, outcome => outcomes.push(outcome));
+    expect(outcomes).toEqual([{
+      index: 0,
+      status: 'failed',
+      attempts: 1,
+      error: 'The model replied with text instead of an image. I cannot help with that.',
+      image: doc.pages[0].image,
+    }]);
+  });
+
+  it('does not retry requests the backend rejects as invalid', async () => {
+    let calls = 0;
+    const backend: EraseBackend = {
+      ...createMockBackend(),
+      erase: async () => {
+        calls++;
+        throw new BackendError('Bad image', 400);
+      },
+    };
+    const doc = await readDocument(await png(10, 10), 'page.png');
+    const [outcome] = await erasePages(doc.pages, backend, new RateLimiter(0), options);
+    expect(outcome).toMatchObject({ status: 'failed', error: 'Bad image' });
+    expect(calls).toBe(1);
+  });
+});
+
+describe('countPages', () => {
+  it('decodes images so a corrupt upload is refused up front', async () => {
+    expect(await countPages(await png(10, 10), 'page.png')).toBe(1);
+    await expect(countPages(new TextEncoder().encode('not a png'), 'page.png')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,69 @@
+import { callModel } from '../src/core/erase.ts';
+import { classifyReply, describeReply } from '../src/core/errors.ts';
+import { runConcurrent, type RateLimiter } from '../src/core/queue.ts';
+import { isAbortError } from '../src/core/retry.ts';
+import type { InlineImage } from '../src/core/types.ts';
+import { BackendError, type EraseBackend } from './backends/index.ts';
+import type { DocumentPage } from './documents.ts';
+
+export interface RunOptions {
+  instruction: string;
+  template: string;
+  /** Pages in flight at once. */
+  concurrency: number;
+  signal?: AbortSignal;
+}
+
+export interface PageOutcome {
+  /** Zero-based page number in the source file. */
+  index: number;
+  status: 'done' | 'failed';
+  attempts: number;
+  error?: string;
+  /** The cleaned page, or the original when it failed so the output keeps every page. */
+  image: InlineImage;
+}
+
+/** Same policy as the browser's `isTransientError`, applied to backend errors directly. */
+function isTransientError(err: unknown): boolean {
+  if (err instanceof BackendError) return err.status === 408 || err.status === 429 || err.status >= 500;
+  return err instanceof TypeError;
+}
+
+const quotaPauseMs = (err: unknown) =>
+  err instanceof BackendError && err.status === 429 ? err.retryAfterMs ?? 60_000 : undefined;
+
+/**
+ * Erases `pages` with the backend directly, for callers outside the browser (the CLI
+ * and the job API). `limiter` may be shared with other runs. Failed pages are
+ * reported in the outcome rather than thrown; only an abort stops the run.
+ */
+export async function erasePages(
+  pages: DocumentPage[],
+  backend: EraseBackend,
+  limiter: RateLimiter,
+  { instruction, template, concurrency, signal }: RunOptions,
+  onPage?: (outcome: PageOutcome) => void,
+): Promise<PageOutcome[]> {
+  const outcomes: PageOutcome[] = [];
+  await runConcurrent([...pages.keys()], concurrency, async (i) => {
+    const page = pages[i];
+    let attempts = 0;
+    try {
+      const result = await callModel(
+        () => backend.erase({ image: page.image, instruction, template, signal }),
+        { limiter, signal, isRetryable: isTransientError, quotaPauseMs, onAttempt: () => attempts++ },
+      );
+      if (!result.image) {
+        const message = describeReply(classifyReply(result.metadata ?? {}, result.text));
+        throw new Error(result.text ? `${message} ${result.text}` : message);
+      }
+      outcomes[i] = { index: page.index, status: 'done', attempts, image: result.image };
+    } catch (err: any) {
+      if (isAbortError(err)) throw err;
+      outcomes[i] = { index: page.index, status: 'failed', attempts, error: err.message || String(err), image: page.image };
+    }
+    onPage?.(outcomes[i]);
+  });
+  return outcomes;
+}
@@ -0,0 +1,332 @@
+import Database from 'better-sqlite3';
+import { createHash, randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { CreateJobBody, JobDetail, JobPage, JobSummary, UpdatePageBody } from '../src/core/history.ts';
+import type { EngineMode, InlineImage, PageSize, PageStatus } from '../src/core/types.ts';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS images (
+    hash TEXT PRIMARY KEY,
+    mime_type TEXT NOT NULL,
+    data BLOB NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS jobs (
+    id TEXT PRIMARY KEY,
+    file_name TEXT NOT NULL,
+    file_hash TEXT NOT NULL,
+    instruction TEXT NOT NULL,
+    engine TEXT NOT NULL,
+    model TEXT,
+    page_count INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS job_pages (
+    job_id TEXT NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    page_index INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    error TEXT,
+    source_hash TEXT REFERENCES images(hash),
+    result_hash TEXT REFERENCES images(hash),
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (job_id, page_index)
+  );
+  CREATE TABLE IF NOT EXISTS erase_cache (
+    key TEXT PRIMARY KEY,
+    result_hash TEXT NOT NULL REFERENCES images(hash),
+    text TEXT NOT NULL DEFAULT '',
+    created_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS api_jobs (
+    job_id TEXT PRIMARY KEY REFERENCES jobs(id) ON DELETE CASCADE,
+    upload_hash TEXT NOT NULL REFERENCES images(hash),
+    page_range TEXT,
+    template TEXT NOT NULL,
+    page_sizes TEXT,
+    callback_url TEXT,
+    base_url TEXT NOT NULL,
+    notified_at INTEGER,
+    callback_error TEXT
+  );
+  CREATE INDEX IF NOT EXISTS jobs_created_at ON jobs(created_at DESC);
+`;
+
+interface JobRow {
+  id: string;
+  file_name: string;
+  file_hash: string;
+  instruction: string;
+  engine: EngineMode;
+  model: string | null;
+  page_count: number;
+  created_at: number;
+  updated_at: number;
+  done_count: number;
+  failed_count: number;
+  thumbnail_hash: string | null;
+}
+
+interface ApiJobRow {
+  upload_hash: string;
+  page_range: string | null;
+  template: string;
+  page_sizes: string | null;
+  callback_url: string | null;
+  base_url: string;
+  notified_at: number | null;
+  callback_error: string | null;
+}
+
+/** A job submitted through /api/jobs: the history record plus what the server needs to run it. */
+export interface StoredApiJob {
+  job: JobDetail;
+  uploadHash: string;
+  pageRange: string | null;
+  template: string;
+  /** Sizes of the selected pages in points, known once they have been rendered. */
+  pageSizes: (PageSize | null)[] | null;
+  callbackUrl: string | null;
+  /** Origin the job was submitted to, for building absolute result URLs. */
+  baseUrl: string;
+  notifiedAt: number | null;
+  callbackError: string | null;
+}
+
+export interface CreateApiJobInput {
+  fileName: string;
+  /** SHA-256 of the uploaded file, hex encoded. */
+  fileHash: string;
+  upload: InlineImage;
+  instruction: string;
+  template: string;
+  pageRange: string | null;
+  pageCount: number;
+  callbackUrl: string | null;
+  baseUrl: string;
+}
+
+interface PageRow {
+  page_index: number;
+  status: PageStatus;
+  error: string | null;
+  source_hash: string | null;
+  result_hash: string | null;
+  updated_at: number;
+}
+
+const JOB_SELECT = `
+  SELECT j.*,
+    (SELECT COUNT(*) FROM job_pages p WHERE p.job_id = j.id AND p.status = 'done') AS done_count,
+    (SELECT COUNT(*) FROM job_pages p WHERE p.job_id = j.id AND p.status = 'failed') AS failed_count,
+    (SELECT p.source_hash FROM job_pages p WHERE p.job_id = j.id ORDER BY p.page_index LIMIT 1) AS thumbnail_hash
+  FROM jobs j
+`;
+
+const toSummary = (row: JobRow): JobSummary => ({
+  id: row.id,
+  fileName: row.file_name,
+  fileHash: row.file_hash,
+  instruction: row.instruction,
+  engine: row.engine,
+  model: row.model,
+  pageCount: row.page_count,
+  doneCount: row.done_count,
+  failedCount: row.failed_count,
+  thumbnailHash: row.thumbnail_hash,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toPage = (row: PageRow): JobPage => ({
+  index: row.page_index,
+  status: row.status,
+  error: row.error,
+  sourceHash: row.source_hash,
+  resultHash: row.result_hash,
+  updatedAt: row.updated_at,
+});
+
+export const sha256 = (...parts: string[]) => {
+  const hash = createHash('sha256');
+  for (const part of parts) hash.update(part).update('\0');
+  return hash.digest('hex');
+};
+
+export type Store = ReturnType<typeof openStore>;
+
+/** Opens (and migrates) the SQLite database that backs job history and the erase cache. */
+export function openStore(file: string) {
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+
+  const insertImage = db.prepare('INSERT OR IGNORE INTO images (hash, mime_type, data) VALUES (?, ?, ?)');
+
+  /** Stores an image once per distinct content and returns its hash. */
+  const putImage = (image: InlineImage): string => {
+    const hash = sha256(image.mimeType, image.data);
+    insertImage.run(hash, image.mimeType, Buffer.from(image.data, 'base64'));
+    return hash;
+  };
+
+  const collectImages = db.prepare(`
+    DELETE FROM images WHERE hash NOT IN (
+      SELECT source_hash FROM job_pages WHERE source_hash IS NOT NULL
+      UNION SELECT result_hash FROM job_pages WHERE result_hash IS NOT NULL
+      UNION SELECT result_hash FROM erase_cache
+      UNION SELECT upload_hash FROM api_jobs
+    )
+  `);
+
+  const getJob = (id: string): JobDetail | undefined => {
+    const row = db.prepare(`${JOB_SELECT} WHERE j.id = ?`).get(id) as JobRow | undefined;
+    if (!row) return undefined;
+    const pages = db.prepare('SELECT * FROM job_pages WHERE job_id = ? ORDER BY page_index').all(id) as PageRow[];
+    return { ...toSummary(row), pages: pages.map(toPage) };
+  };
+
+  const getApiJob = (id: string): StoredApiJob | undefined => {
+    const row = db.prepare('SELECT * FROM api_jobs WHERE job_id = ?').get(id) as ApiJobRow | undefined;
+    const job = row && getJob(id);
+    if (!row || !job) return undefined;
+    return {
+      job,
+      uploadHash: row.upload_hash,
+      pageRange: row.page_range,
+      template: row.template,
+      pageSizes: row.page_sizes ? JSON.parse(row.page_sizes) : null,
+      callbackUrl: row.callback_url,
+      baseUrl: row.base_url,
+      notifiedAt: row.notified_at,
+      callbackError: row.callback_error,
+    };
+  };
+
+  const createJob = (body: CreateJobBody, model: string | null): JobSummary => {
+    const id = randomUUID();
+    const now = Date.now();
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO jobs (id, file_name, file_hash, instruction, engine, model, page_count, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(id, body.fileName, body.fileHash, body.instruction, body.engine, model, body.pageCount, now, now);
+      const insertPage = db.prepare(
+        "INSERT INTO job_pages (job_id, page_index, status, updated_at) VALUES (?, ?, 'pending', ?)",
+      );
+      for (let i = 0; i < body.pageCount; i++) insertPage.run(id, i, now);
+    })();
+    return getJob(id)!;
+  };
+
+  return {
+    putImage,
+
+    getImage(hash: string): { mimeType: string; data: Buffer } | undefined {
+      const row = db.prepare('SELECT mime_type, data FROM images WHERE hash = ?').get(hash) as
+        | { mime_type: string; data: Buffer }
+        | undefined;
+      return row && { mimeType: row.mime_type, data: row.data };
+    },
+
+    createJob,
+
+    updatePage(jobId: string, index: number, body: UpdatePageBody): boolean {
+      const now = Date.now();
+      return db.transaction(() => {
+        const sourceHash = body.source ? putImage(body.source) : null;
+        const resultHash = body.result ? putImage(body.result) : null;
+        const { changes } = db.prepare(`
+          UPDATE job_pages SET
+            status = ?, error = ?,
+            source_hash = COALESCE(?, source_hash),
+            result_hash = COALESCE(?, result_hash),
+            updated_at = ?
+          WHERE job_id = ? AND page_index = ?
+        `).run(body.status, body.error ?? null, sourceHash, resultHash, now, jobId, index);
+        if (changes) db.prepare('UPDATE jobs SET updated_at = ? WHERE id = ?').run(now, jobId);
+        return changes > 0;
+      })();
+    },
+
+    listJobs(limit = 100): JobSummary[] {
+      const rows = db.prepare(`${JOB_SELECT} ORDER BY j.created_at DESC LIMIT ?`).all(limit) as JobRow[];
+      return rows.map(toSummary);
+    },
+
+    getJob,
+
+    deleteJob(id: string): boolean {
+      return db.transaction(() => {
+        const { changes } = db.prepare('DELETE FROM jobs WHERE id = ?').run(id);
+        collectImages.run();
+        return changes > 0;
+      })();
+    },
+
+    /** Stores the uploaded file and creates the job with all its pages pending. */
+    createApiJob(input: CreateApiJobInput, model: string): StoredApiJob {
+      const id = db.transaction(() => {
+        const uploadHash = putImage(input.upload);
+        const { id } = createJob({
+          fileName: input.fileName,
+          fileHash: input.fileHash,
+          instruction: input.instruction,
+          engine: 'ai',
+          pageCount: input.pageCount,
+        }, model);
+        db.prepare(`
+          INSERT INTO api_jobs (job_id, upload_hash, page_range, template, callback_url, base_url)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `).run(id, uploadHash, input.pageRange, input.template, input.callbackUrl, input.baseUrl);
+        return id;
+      })();
+      return getApiJob(id)!;
+    },
+
+    getApiJob,
+
+    setPageSizes(id: string, sizes: (PageSize | null)[]) {
+      db.prepare('UPDATE api_jobs SET page_sizes = ? WHERE job_id = ?').run(JSON.stringify(sizes), id);
+    },
+
+    /** Records the outcome of the completion callback; `error` is null once it was delivered. */
+    setCallbackResult(id: string, error: string | null) {
+      db.prepare('UPDATE api_jobs SET notified_at = ?, callback_error = ? WHERE job_id = ?')
+        .run(error ? null : Date.now(), error, id);
+    },
+
+    /** API jobs with pages left to process or a callback still to deliver, oldest first. */
+    listUnfinishedApiJobs(): string[] {
+      const rows = db.prepare(`
+        SELECT a.job_id FROM api_jobs a JOIN jobs j ON j.id = a.job_id
+        WHERE EXISTS (SELECT 1 FROM job_pages p WHERE p.job_id = a.job_id AND p.status IN ('pending', 'running'))
+          OR (a.callback_url IS NOT NULL AND a.notified_at IS NULL AND a.callback_error IS NULL)
+        ORDER BY j.created_at
+      `).all() as { job_id: string }[];
+      return rows.map(row => row.job_id);
+    },
+
+    /** Looks up a previous result for the same page, instruction, mask and backend. */
+    getCachedResult(key: string): { image: InlineImage; text: string } | undefined {
+      const row = db.prepare(`
+        SELECT c.text, i.mime_type, i.data FROM erase_cache c JOIN images i ON i.hash = c.result_hash WHERE c.key = ?
+      `).get(key) as { text: string; mime_type: string; data: Buffer } | undefined;
+      return row && { image: { data: row.data.toString('base64'), mimeType: row.mime_type }, text: row.text };
+    },
+
+    putCachedResult(key: string, image: InlineImage, text: string) {
+      db.transaction(() => {
+        const hash = putImage(image);
+        db.prepare('INSERT OR REPLACE INTO erase_cache (key, result_hash, text, created_at) VALUES (?, ?, ?, ?)')
+          .run(key, hash, text, Date.now());
+      })();
+    },
+
+    close() {
+      db.close();
+    },
+  };
+}
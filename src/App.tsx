@@ -1,224 +1,802 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Upload, Image as ImageIcon, Sparkles, Download, Trash2, Loader2 } from 'lucide-react';
-import { GoogleGenAI } from '@google/genai';
-import * as pdfjsLib from 'pdfjs-dist';
-import { jsPDF } from 'jspdf';
-
-// Initialize PDF.js worker
-if (typeof window !== 'undefined' && 'Worker' in window) {
-  try {
-    pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
-  } catch (e) {
-    console.error('Failed to set PDF worker source:', e);
-  }
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+import { Upload, Image as ImageIcon, Sparkles, Download, Trash2, Loader2, RotateCcw, SkipForward, Square, Play, Brush, AlertTriangle, Maximize2, History, Undo2, Redo2, FolderOpen, Plus, ScanSearch, BookMarked, WifiOff, FileDown, Languages } from 'lucide-react';
+import { erasePage, isOfflineError, isQuotaError, isTransientError } from './lib/api.ts';
+import { downloadDiagnostics, finishRun, startRun, type RunLog } from './lib/diagnostics.ts';
+import { describeError, errorFix, toPageError } from './lib/errors.ts';
+import { isAbortError } from './core/retry.ts';
+import { callModel } from './core/erase.ts';
+import { RateLimiter, runConcurrent } from './core/queue.ts';
+import { DEFAULT_EXPORT_OPTIONS, DEFAULT_FIDELITY_POLICY, usesAi, type EngineMode, type ExportOptions, type FidelityPolicy, type FidelityResult, type PageState, type PassConfig } from './core/types.ts';
+import { canRedo, canUndo, checkout, createStack, currentResult, currentVersion, pushVersion, redo, replaceOriginal, undo, type VersionStack } from './core/versions.ts';
+import { DEFAULT_LOCAL_OPTIONS, type LocalOptions } from './core/localEngine.ts';
+import { compareFileNames, locatePage, pageOffsets, splitByDocument, type BatchDocument } from './core/batch.ts';
+import { createLayout, cropLayout, layoutSize, movePage, rotateLayout, type Crop, type PageLayout, type QuarterTurn } from './core/pages.ts';
+import { runLocalPass } from './lib/local.ts';
+import { eraseInTiles } from './lib/tiles.ts';
+import { checkFidelity } from './lib/fidelity.ts';
+import { compositeWithMask, maskToGuidance } from './lib/mask.ts';
+import { cropImage, loadImage, rotateImage } from './lib/canvas.ts';
+import { DEFAULT_RENDER_DPI, isSupportedFile, readPages, RENDER_DPI_OPTIONS } from './lib/documents.ts';
+import { imageBlob, releaseImages, storeBlob, storeImage, toInlineImage } from './lib/images.ts';
+import { loadOfflineQueue, saveOfflineQueue, type OfflineQueue, type QueuedPage } from './lib/offline.ts';
+import type { Rasterizer } from './lib/raster.ts';
+import { DEFAULT_FLATTEN_OPTIONS, flattenDetected, flattenPage, type FlattenOptions } from './lib/perspective.ts';
+import { buildZip, downloadFile, downloadFiles, exportFiles, fileStem, type ExportFile, type ExportPage } from './lib/export.ts';
+import { mergePdfs, patchPdf } from './lib/vectorPdf.ts';
+import { answerFiles, type AnswerPage } from './lib/answers.ts';
+import { detectionInstruction, marksToMask } from './lib/detect.ts';
+import { builtInPresets, composeInstruction, DEFAULT_PROMPT_OPTIONS, loadPresets, savePresets, type PromptOptions, type PromptPreset } from './lib/presets.ts';
+import { MaskEditor } from './components/MaskEditor.tsx';
+import { EngineOptions } from './components/EngineOptions.tsx';
+import { CompareViewer } from './components/CompareViewer.tsx';
+import { HistoryPanel } from './components/HistoryPanel.tsx';
+import { DocumentQueue } from './components/DocumentQueue.tsx';
+import { ExportDialog } from './components/ExportDialog.tsx';
+import { PageStrip } from './components/PageStrip.tsx';
+import { CropEditor } from './components/CropEditor.tsx';
+import { PerspectiveEditor } from './components/PerspectiveEditor.tsx';
+import { MarkReview } from './components/MarkReview.tsx';
+import { RecipePanel } from './components/RecipePanel.tsx';
+import { PresetManager } from './components/PresetManager.tsx';
+import { PromptBuilder } from './components/PromptBuilder.tsx';
+import { VersionBar } from './components/VersionBar.tsx';
+import type { Recipe } from './lib/recipes.ts';
+import { createJob, fetchImage, hashFile, imageUrl, updateJobPage } from './lib/history.ts';
+import type { JobDetail, UpdatePageBody } from './core/history.ts';
+import type { Quad } from './core/perspective.ts';
+import type { MarkBox, MarkCategory } from './core/detect.ts';
+import { DEFAULT_TEMPLATE } from './core/prompt.ts';
+import { dpiScale } from './core/pdf.ts';
+import { DEFAULT_TILING_OPTIONS, type TilingOptions } from './core/tiles.ts';
+import { formatNumber, LOCALES, setLocale, useLocale, type Locale } from './lib/i18n.ts';
 
 export default function App() {
+  const { locale, t } = useLocale();
+  const [documents, setDocuments] = useState<BatchDocument[]>([]);
   const [sourcePages, setSourcePages] = useState<string[]>([]);
-  const [sourceMimeType, setSourceMimeType] = useState<string | null>(null);
-  const [resultPages, setResultPages] = useState<string[]>([]);
+  const [layouts, setLayouts] = useState<PageLayout[]>([]);
+  // Pages the next pass processes; unselected ones are skipped.
+  const [selected, setSelected] = useState<boolean[]>([]);
+  // Document shown in the page strip.
+  const [activeDoc, setActiveDoc] = useState(0);
+  const [cropEditorPage, setCropEditorPage] = useState<number | null>(null);
+  const [perspectivePage, setPerspectivePage] = useState<number | null>(null);
+  // Photos are flattened on upload when enabled; the options also seed the perspective editor.
+  const [autoFlatten, setAutoFlatten] = useState(false);
+  const [flattenOptions, setFlattenOptions] = useState<FlattenOptions>(DEFAULT_FLATTEN_OPTIONS);
+  const [versions, setVersionsState] = useState<VersionStack[]>([]);
+  const [pageStates, setPageStates] = useState<PageState[]>([]);
+  const [masks, setMasks] = useState<(string | null)[]>([]);
+  const [maskEditorPage, setMaskEditorPage] = useState<number | null>(null);
+  const [reviewPage, setReviewPage] = useState<number | null>(null);
+  const [viewerPage, setViewerPage] = useState<number | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<{ done: number; total: number } | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [userPrompt, setUserPrompt] = useState('');
+  const [presets, setPresetsState] = useState<PromptPreset[]>(loadPresets);
+  const [showPresets, setShowPresets] = useState(false);
+  // The form starts from the default preset, if one is marked.
+  const [userPrompt, setUserPrompt] = useState(() => presets.find(p => p.isDefault)?.instruction ?? '');
+  const [promptTemplate, setPromptTemplate] = useState(() => presets.find(p => p.isDefault)?.template ?? DEFAULT_TEMPLATE);
+  const [promptOptions, setPromptOptions] = useState<PromptOptions>(() => presets.find(p => p.isDefault)?.builder ?? DEFAULT_PROMPT_OPTIONS);
+  const [concurrency, setConcurrency] = useState(3);
+  const [requestsPerMinute, setRequestsPerMinute] = useState(10);
+  // PDF pages are drawn at this resolution when they are processed.
+  const [renderDpi, setRenderDpi] = useState(DEFAULT_RENDER_DPI);
+  const [engineMode, setEngineMode] = useState<EngineMode>('ai');
+  const [localOptions, setLocalOptions] = useState<LocalOptions>(DEFAULT_LOCAL_OPTIONS);
+  const [fidelityPolicy, setFidelityPolicy] = useState<FidelityPolicy>(DEFAULT_FIDELITY_POLICY);
+  const [showHeatmaps, setShowHeatmaps] = useState(true);
+  const [tiling, setTiling] = useState<TilingOptions>(DEFAULT_TILING_OPTIONS);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // History job of each document for the current pass, keyed by document id; created on
+  // the document's first recorded page and resolving to null if it could not be created.
+  const jobsRef = useRef(new Map<string, Promise<string | null>>());
+  // Mirrors `versions` synchronously, so consecutive recipe steps see the previous step's results.
+  const versionsRef = useRef<VersionStack[]>([]);
+  // The pass that is running or last ran; resume and retry repeat it.
+  const passRef = useRef<PassConfig | null>(null);
+  // Open PDFs keyed by document id, so their pages can be drawn in full when processed.
+  const rasterizersRef = useRef(new Map<string, Rasterizer>());
+  // Page images that are still low-resolution PDF previews (see `fullResolution`).
+  const previewsRef = useRef(new Set<string>());
+  // Pages waiting for the server to be reachable again; they are also saved in the browser.
+  const [offlineCount, setOfflineCount] = useState(0);
+  // Set by a page that could not reach the server; the run then stops and saves what is left.
+  const offlineRef = useRef(false);
+  // Waiting pages restored after a reload are sent right away if the browser is online.
+  const restoredRef = useRef(false);
+
+  const setVersions = (update: (prev: VersionStack[]) => VersionStack[]) => {
+    versionsRef.current = update(versionsRef.current);
+    setVersionsState(versionsRef.current);
+  };
+
+  const updateStack = (index: number, update: (stack: VersionStack) => VersionStack) => {
+    setVersions(prev => prev.map((stack, i) => (i === index ? update(stack) : stack)));
+  };
+
+  const setPresets = (next: PromptPreset[]) => {
+    setPresetsState(next);
+    savePresets(next);
+  };
+
+  const applyPreset = (preset: PromptPreset) => {
+    setUserPrompt(preset.instruction);
+    setPromptTemplate(preset.template);
+    if (preset.builder) setPromptOptions(preset.builder);
+    setShowPresets(false);
+  };
 
-  const quickPrompts = [
-    "擦除所有手写答案、填空、画图和标记。保留原始的空白问题、打印文本和文档结构。让它看起来像一张干净的空白试卷。",
-    "清除图片中的红色批注和打分，保留黑色手写字和打印字。",
-    "去除图片背景中的杂物和阴影，将背景变成纯白色，增强文字清晰度。",
-    "擦除图片中的所有文字，只保留图片和表格等图形元素。"
-  ];
+  const composePrompt = (options: PromptOptions) => {
+    setPromptOptions(options);
+    setUserPrompt(composeInstruction(options));
+  };
+
+  // An instruction written by the builder or taken from a built-in preset follows the
+  // interface language; one the user typed or edited is left alone.
+  const changeLocale = (next: Locale) => {
+    const composed = composeInstruction(promptOptions);
+    const builtIn = builtInPresets().find(p => p.instruction === userPrompt);
+    setLocale(next);
+    if (userPrompt === composed) setUserPrompt(composeInstruction(promptOptions));
+    else if (builtIn) setUserPrompt(builtInPresets().find(p => p.id === builtIn.id)?.instruction ?? userPrompt);
+    setPresetsState(loadPresets());
+  };
 
   const [viewMode, setViewMode] = useState<'single' | 'compare'>('single');
 
-  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  // The local engine needs no instruction; any run that calls the model does.
+  const canRun = !usesAi(engineMode) || userPrompt.trim().length > 0;
 
-    if (file.size > 100 * 1024 * 1024) {
-      setError('文件大小不能超过 100MB');
-      return;
-    }
+  // Appends the selected files to the queue as documents, in file-manager order.
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+      .filter(isSupportedFile)
+      .sort((a, b) => compareFileNames(a.webkitRelativePath || a.name, b.webkitRelativePath || b.name));
+    e.target.value = '';
+    if (files.length === 0) return;
 
     setIsUploading(true);
     setError(null);
-    setResultPages([]);
-    setSourcePages([]);
+    const problems: string[] = [];
 
     // Allow UI to render loading state
     await new Promise(resolve => setTimeout(resolve, 50));
 
-    if (file.type === 'application/pdf') {
+    for (const file of files) {
+      if (file.size > 100 * 1024 * 1024) {
+        problems.push(t('app.tooLarge', { name: file.name }));
+        continue;
+      }
       try {
-        const arrayBuffer = await file.arrayBuffer();
-        const typedarray = new Uint8Array(arrayBuffer);
-        const loadingTask = pdfjsLib.getDocument({ 
-          data: typedarray,
-          cMapUrl: `https://unpkg.com/pdfjs-dist@${pdfjsLib.version}/cmaps/`,
-          cMapPacked: true,
-          standardFontDataUrl: `https://unpkg.com/pdfjs-dist@${pdfjsLib.version}/standard_fonts/`
-        });
-        const pdf = await loadingTask.promise;
-        
-        const pages: string[] = [];
-        for (let i = 1; i <= pdf.numPages; i++) {
-          const page = await pdf.getPage(i);
-          const viewport = page.getViewport({ scale: 2.0 });
-          
-          const canvas = document.createElement('canvas');
-          const context = canvas.getContext('2d');
-          if (!context) throw new Error('无法创建画布');
-          
-          canvas.height = viewport.height;
-          canvas.width = viewport.width;
-          
-          // @ts-ignore
-          await page.render({
-            canvasContext: context,
-            viewport: viewport
-          }).promise;
-          
-          pages.push(canvas.toDataURL('image/png'));
+        const [{ pages: read, rasterizer }, hash] = await Promise.all([
+          readPages(file, (done, total) => setUploadProgress({ done, total })),
+          hashFile(file).catch(err => {
+            console.warn('Failed to hash file:', err);
+            return '';
+          }),
+        ]);
+        const pages = autoFlatten && !rasterizer ? await Promise.all(read.map(page => flattenDetected(page, flattenOptions))) : read;
+        releaseImages(read.filter((page, i) => page.image !== pages[i].image).map(page => page.image));
+        const doc: BatchDocument = { id: crypto.randomUUID(), name: file.name, mimeType: file.type, hash, pageCount: pages.length, file };
+        if (rasterizer) {
+          rasterizersRef.current.set(doc.id, rasterizer);
+          for (const page of pages) previewsRef.current.add(page.image);
         }
-        
-        setSourcePages(pages);
-        setSourceMimeType('image/png');
+        setDocuments(prev => [...prev, doc]);
+        setSourcePages(prev => [...prev, ...pages.map(page => page.image)]);
+        setLayouts(prev => [...prev, ...pages.map((page, i) => createLayout(i, page.size))]);
+        setSelected(prev => [...prev, ...pages.map(() => true)]);
+        setVersions(prev => [...prev, ...pages.map(page => createStack(page.image))]);
+        setMasks(prev => [...prev, ...pages.map(() => null)]);
+        // Once a pass has run, new pages join the queue as pending so "continue" picks them up.
+        setPageStates(prev => (prev.length ? [...prev, ...pages.map(() => ({ status: 'pending' as const, attempts: 0 }))] : prev));
       } catch (err: any) {
-        console.error('Error reading PDF:', err);
-        setError(`读取 PDF 文件时发生错误: ${err.message || '未知错误'}`);
+        console.error(`Error reading ${file.name}:`, err);
+        problems.push(t('app.readFailed', { name: file.name, error: err.message || t('common.unknownError') }));
       } finally {
-        setIsUploading(false);
-        if (fileInputRef.current) fileInputRef.current.value = '';
+        setUploadProgress(null);
       }
-    } else {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = reader.result as string;
-        setSourcePages([base64String]);
-        setSourceMimeType(file.type);
-        setIsUploading(false);
-        if (fileInputRef.current) fileInputRef.current.value = '';
-      };
-      reader.readAsDataURL(file);
     }
+
+    if (problems.length) setError(problems.join(t('app.problemSeparator')));
+    setIsUploading(false);
+  };
+
+  // Frees the images of pages that are going away; version 0 of each stack is the page's source.
+  const releasePages = (stacks: VersionStack[]) => {
+    const images = stacks.flatMap(stack => stack.versions.map(version => version.image));
+    for (const image of images) previewsRef.current.delete(image);
+    releaseImages(images);
+  };
+
+  const closeDocument = (id: string) => {
+    rasterizersRef.current.get(id)?.destroy();
+    rasterizersRef.current.delete(id);
+  };
+
+  const forgetOfflineQueue = () => {
+    if (!offlineCount) return;
+    setOfflineCount(0);
+    saveOfflineQueue(null).catch(err => console.warn('Failed to clear saved pages:', err));
+  };
+
+  const releaseWorkspace = () => {
+    releasePages(versionsRef.current);
+    for (const id of rasterizersRef.current.keys()) closeDocument(id);
+    forgetOfflineQueue();
   };
 
   const clearImage = () => {
+    abortRef.current?.abort();
+    jobsRef.current.clear();
+    releaseWorkspace();
+    setDocuments([]);
     setSourcePages([]);
-    setSourceMimeType(null);
-    setResultPages([]);
+    setLayouts([]);
+    setSelected([]);
+    setActiveDoc(0);
+    setVersions(() => []);
+    setPageStates([]);
+    setMasks([]);
     setError(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+  };
+
+  // Applies one structural edit to every per-page list so they stay aligned. Lists that
+  // are still empty (no pass has run yet) are left alone.
+  const editPages = (edit: <T>(items: T[]) => T[]) => {
+    const apply = <T,>(items: T[]) => (items.length ? edit(items) : items);
+    setSourcePages(apply);
+    setLayouts(apply);
+    setSelected(apply);
+    setVersions(apply);
+    setPageStates(apply);
+    setMasks(apply);
+  };
+
+  const updateDocument = (docIndex: number, pageCount: number) => {
+    if (pageCount > 0) {
+      setDocuments(prev => prev.map((doc, i) => (i === docIndex ? { ...doc, pageCount } : doc)));
+      return;
     }
+    jobsRef.current.delete(documents[docIndex].id);
+    closeDocument(documents[docIndex].id);
+    setDocuments(prev => prev.filter((_, i) => i !== docIndex));
+    setActiveDoc(prev => Math.max(0, Math.min(prev, documents.length - 2)));
   };
 
-  const processImage = async () => {
-    if (sourcePages.length === 0 || !sourceMimeType) return;
+  const removeDocument = (docIndex: number) => {
+    const start = pageOffsets(documents)[docIndex];
+    const { pageCount } = documents[docIndex];
+    releasePages(versionsRef.current.slice(start, start + pageCount));
+    editPages(items => items.filter((_, i) => i < start || i >= start + pageCount));
+    updateDocument(docIndex, 0);
+  };
 
-    setIsProcessing(true);
-    setError(null);
-    setResultPages([]);
+  const deletePage = (index: number) => {
+    const { doc } = locatePage(documents, index);
+    releasePages([versionsRef.current[index]]);
+    editPages(items => items.filter((_, i) => i !== index));
+    updateDocument(doc, documents[doc].pageCount - 1);
+  };
+
+  // `from` and `to` are flat indices within the same document.
+  const reorderPage = (from: number, to: number) => editPages(items => movePage(items, from, to));
+
+  // Turning or cropping replaces the page image, so its results and mask start over.
+  // A turned or cropped preview is still a preview: `fullResolution` redraws it from the layout.
+  const replaceSource = (index: number, image: string, layout: PageLayout) => {
+    const wasPreview = previewsRef.current.has(sourcePages[index]);
+    releasePages([versionsRef.current[index]]);
+    if (wasPreview) previewsRef.current.add(image);
+    setSourcePages(prev => prev.map((page, i) => (i === index ? image : page)));
+    setLayouts(prev => prev.map((l, i) => (i === index ? layout : l)));
+    updateStack(index, () => createStack(image));
+    setMasks(prev => prev.map((mask, i) => (i === index ? null : mask)));
+    setPageStates(prev => prev.map((state, i) => (i === index ? { status: 'pending', attempts: 0 } : state)));
+  };
 
+  const confirmReset = (index: number) =>
+    versions[index].versions.length === 1 || window.confirm(t('app.confirmEdit'));
+
+  const rotatePage = async (index: number, turn: QuarterTurn) => {
+    if (!confirmReset(index)) return;
+    replaceSource(index, await rotateImage(sourcePages[index], turn), rotateLayout(layouts[index], turn));
+  };
+
+  const applyCrop = async (index: number, crop: Crop) => {
+    setCropEditorPage(null);
+    if (!confirmReset(index)) return;
+    replaceSource(index, await cropImage(sourcePages[index], crop), cropLayout(layouts[index], crop));
+  };
+
+  // The flattened photo is a new page: its layout starts over with the chosen paper size.
+  const applyPerspective = async (index: number, quad: Quad, options: FlattenOptions) => {
+    setFlattenOptions(options);
+    if (!confirmReset(index)) {
+      setPerspectivePage(null);
+      return;
+    }
     try {
-      const results: string[] = [];
-      for (let i = 0; i < sourcePages.length; i++) {
-        const base64Data = sourcePages[i].split(',')[1];
-
-        const response = await ai.models.generateContent({
-          model: 'gemini-2.5-flash-image',
-          contents: {
-            parts: [
-              {
-                inlineData: {
-                  data: base64Data,
-                  mimeType: sourceMimeType,
-                },
-              },
-              {
-                text: `TASK: Image Editing.
-INSTRUCTION: ${userPrompt.trim()}
-REQUIREMENT: Output ONLY the edited image. Do not add any new elements not requested. Maintain the original resolution and style.`,
-              },
-            ],
-          },
-          config: {
-            systemInstruction: "You are a professional document and image restoration expert. Your specialty is removing handwriting, marks, and annotations from scanned documents and photos while perfectly preserving the original printed text and background structure. You always output the modified image directly.",
-          }
+      const page = await flattenPage(sourcePages[index], quad, options);
+      replaceSource(index, page.image, createLayout(layouts[index].origin, page.size));
+      setPerspectivePage(null);
+    } catch (err: any) {
+      console.error('Perspective correction failed:', err);
+      setError(t('app.perspectiveFailed', { error: err.message || t('common.unknownError') }));
+    }
+  };
+
+  const setDocumentSelection = (docIndex: number, values: boolean[]) => {
+    const start = pageOffsets(documents)[docIndex];
+    setSelected(prev => prev.map((s, i) => (i >= start && i < start + values.length ? values[i - start] : s)));
+  };
+
+  const updatePage = (index: number, patch: Partial<PageState>) => {
+    setPageStates(prev => prev.map((state, i) => (i === index ? { ...state, ...patch } : state)));
+  };
+
+  const jobFor = (doc: BatchDocument) => {
+    let job = jobsRef.current.get(doc.id);
+    if (!job) {
+      const pass = passRef.current ?? currentPass;
+      job = createJob({
+        fileName: doc.name,
+        fileHash: doc.hash,
+        instruction: usesAi(pass.engine) ? pass.instruction.trim() : '',
+        engine: pass.engine,
+        pageCount: doc.pageCount,
+      })
+        .then(job => job.id)
+        .catch(err => {
+          console.warn('Failed to create history job:', err);
+          return null;
         });
+      jobsRef.current.set(doc.id, job);
+    }
+    return job;
+  };
 
-        let foundImage = false;
-        let textResponse = '';
-        if (response.candidates && response.candidates[0]?.content?.parts) {
-          for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData) {
-              const base64EncodeString = part.inlineData.data;
-              const imageUrl = `data:${part.inlineData.mimeType || 'image/png'};base64,${base64EncodeString}`;
-              results.push(imageUrl);
-              foundImage = true;
-              break;
-            } else if (part.text) {
-              textResponse += part.text;
-            }
-          }
-        }
+  // History is best effort: a failed write never interrupts processing.
+  const recordPage = (index: number, body: UpdatePageBody | Promise<UpdatePageBody>) => {
+    const { doc, page } = locatePage(documents, index);
+    Promise.all([jobFor(documents[doc]), body])
+      .then(([id, body]) => id && updateJobPage(id, page, body))
+      .catch(err => console.warn(`Failed to record page ${index + 1} in history:`, err));
+  };
 
-        if (!foundImage) {
-          throw new Error(`第 ${i + 1} 页未能生成图像。AI回复: ${textResponse || '无'}`);
-        }
-        
-        // Update state progressively
-        setResultPages([...results]);
+  // PDF pages are held as previews until they are processed. This draws the page at the
+  // render DPI, repeats its turns and crop, and puts it in place of the preview.
+  const fullResolution = async (index: number) => {
+    const preview = versionsRef.current[index].versions[0].image;
+    const rasterizer = rasterizersRef.current.get(documents[locatePage(documents, index).doc].id);
+    if (!previewsRef.current.has(preview) || !rasterizer) return;
+    const layout = layouts[index];
+    let image = (await rasterizer.render(layout.origin, dpiScale(renderDpi))).image;
+    if (Object.values(layout.crop).some(Boolean)) {
+      const cropped = await cropImage(image, layout.crop);
+      releaseImages([image]);
+      image = cropped;
+    }
+    if (layout.rotation) {
+      const turned = await rotateImage(image, layout.rotation);
+      releaseImages([image]);
+      image = turned;
+    }
+    previewsRef.current.delete(preview);
+    setSourcePages(prev => prev.map(page => (page === preview ? image : page)));
+    updateStack(index, stack => replaceOriginal(stack, image));
+    releaseImages([preview]);
+  };
+
+  // Runs one pass on a page's current version, retrying transient failures. Resolves to
+  // false when the page is left waiting because the server could not be reached.
+  // Rethrows only when the run was cancelled. `fresh` skips the server's result cache.
+  const processPage = async (index: number, pass: PassConfig, signal: AbortSignal, limiter: RateLimiter, run: RunLog, fresh: boolean): Promise<boolean> => {
+    updatePage(index, { status: 'running', error: undefined, attempts: 0, tiles: undefined });
+    const mask = masks[index];
+    let attempts = 0;
+    let base: string | undefined;
+    try {
+      await fullResolution(index);
+      base = currentVersion(versionsRef.current[index]).image;
+      const aiInput = pass.engine === 'local' || pass.engine === 'local-ai'
+        ? await runLocalPass(base, pass.local)
+        : base;
+
+      let guidance: string | undefined;
+      if (mask && usesAi(pass.engine)) {
+        const img = await loadImage(base);
+        guidance = await maskToGuidance(mask, img.naturalWidth, img.naturalHeight);
+      }
+
+      const eraseImage = (image: string, tileMask?: string) => callModel(
+        () => erasePage(image, pass.instruction, {
+          signal,
+          template: pass.template,
+          mask: tileMask,
+          fresh,
+          onRequest: record => run.requests.push({ ...record, page: index + 1, attempt: attempts }),
+        }),
+        {
+          limiter,
+          signal,
+          isRetryable: (err) => isTransientError(err) && navigator.onLine,
+          quotaPauseMs: (err) => (isQuotaError(err) ? err.retryAfterMs ?? 60_000 : undefined),
+          onAttempt: () => updatePage(index, { attempts: ++attempts }),
+        },
+      );
+
+      let edited = aiInput;
+      let fidelity: FidelityResult | undefined;
+      // Regenerate pages that fail the fidelity check, as often as the policy allows.
+      for (let attempt = 0; usesAi(pass.engine); attempt++) {
+        edited = await eraseInTiles(aiInput, guidance, tiling, eraseImage, (done, total) => updatePage(index, { tiles: { done, total } }));
+        if (!fidelityPolicy.enabled) break;
+        const report = await checkFidelity(aiInput, edited, mask);
+        fidelity = { ...report, flagged: report.score < fidelityPolicy.threshold };
+        if (!fidelity.flagged || attempt >= fidelityPolicy.autoRetries) break;
+        // The cached reply is the one that was just flagged.
+        fresh = true;
       }
+
+      if (pass.engine === 'ai-local') edited = await runLocalPass(edited, pass.local);
+      const result = await storeImage(mask ? await compositeWithMask(base, edited, mask) : edited);
+      updateStack(index, stack => pushVersion(stack, {
+        image: result,
+        instruction: usesAi(pass.engine) ? pass.instruction : '',
+        engine: pass.engine,
+        fidelity,
+      }));
+      updatePage(index, { status: 'done' });
+      run.pages.push({ page: index + 1, status: 'done', attempts });
+      recordPage(index, Promise.all([toInlineImage(base), toInlineImage(result)])
+        .then(([source, result]): UpdatePageBody => ({ status: 'done', source, result })));
     } catch (err: any) {
-      console.error('Error processing image:', err);
-      setError(err.message || '处理图像时发生错误。');
+      if (isAbortError(err)) {
+        updatePage(index, { status: 'pending' });
+        throw err;
+      }
+      if (usesAi(pass.engine) && isOfflineError(err)) {
+        updatePage(index, { status: 'pending' });
+        run.pages.push({ page: index + 1, status: 'waiting', attempts, kind: 'network' });
+        offlineRef.current = true;
+        abortRef.current?.abort();
+        return false;
+      }
+      console.error(`Error processing page ${index + 1}:`, err);
+      const pageError = toPageError(err);
+      // The page keeps the failure as data; the run log and history record it as worded now.
+      const error = describeError(pageError);
+      updatePage(index, { status: 'failed', error: pageError });
+      run.pages.push({ page: index + 1, status: 'failed', attempts, kind: pageError.kind, error });
+      recordPage(index, base
+        ? toInlineImage(base).then((source): UpdatePageBody => ({ status: 'failed', error, source }))
+        : { status: 'failed', error });
+    }
+    return true;
+  };
+
+  // Saves the pages a run could not send, at full resolution, so they survive a reload
+  // and go out once the server can be reached again.
+  const queueOffline = async (indices: number[], pass: PassConfig) => {
+    setOfflineCount(indices.length);
+    try {
+      const byDocument = new Map<number, QueuedPage[]>();
+      for (const index of indices) {
+        await fullResolution(index);
+        const { doc } = locatePage(documents, index);
+        const page: QueuedPage = { image: await imageBlob(currentVersion(versionsRef.current[index]).image), layout: layouts[index], mask: masks[index] };
+        byDocument.set(doc, [...(byDocument.get(doc) ?? []), page]);
+      }
+      await saveOfflineQueue({
+        pass,
+        documents: [...byDocument].map(([doc, pages]) => ({ name: documents[doc].name, mimeType: documents[doc].mimeType, hash: documents[doc].hash, pages })),
+        savedAt: Date.now(),
+      });
+    } catch (err) {
+      console.warn('Failed to save pages for later:', err);
+    }
+  };
+
+  // Puts pages saved by `queueOffline` back into an empty workspace, waiting to be sent.
+  const restoreOfflineQueue = (queue: OfflineQueue) => {
+    if (versionsRef.current.length) return;
+    const pages = queue.documents.flatMap(doc => doc.pages);
+    const images = pages.map(page => storeBlob(page.image));
+    setDocuments(queue.documents.map(doc => ({ id: crypto.randomUUID(), name: doc.name, mimeType: doc.mimeType, hash: doc.hash, pageCount: doc.pages.length })));
+    setSourcePages(images);
+    setLayouts(pages.map(page => page.layout));
+    setSelected(pages.map(() => true));
+    setVersions(() => images.map(image => createStack(image)));
+    setMasks(pages.map(page => page.mask));
+    setPageStates(pages.map(() => ({ status: 'pending', attempts: 0 })));
+    passRef.current = queue.pass;
+    setUserPrompt(queue.pass.instruction);
+    setPromptTemplate(queue.pass.template);
+    setEngineMode(queue.pass.engine);
+    setLocalOptions(queue.pass.local);
+    setOfflineCount(pages.length);
+    restoredRef.current = true;
+  };
+
+  /** Runs `pass` over the given pages; resolves to false if the run was cancelled. */
+  const runPages = async (indices: number[], pass: PassConfig, fresh = false): Promise<boolean> => {
+    if (indices.length === 0 || (usesAi(pass.engine) && !pass.instruction.trim())) return false;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    passRef.current = pass;
+    setIsProcessing(true);
+    setError(null);
+
+    const limiter = new RateLimiter(requestsPerMinute);
+    const run = startRun(pass, { concurrency, requestsPerMinute, renderDpi, tiling, fidelityPolicy }, indices.length);
+    const settled = new Set<number>();
+    offlineRef.current = false;
+    try {
+      await runConcurrent(indices, concurrency, async index => {
+        if (await processPage(index, pass, controller.signal, limiter, run, fresh)) settled.add(index);
+      });
+    } catch (err) {
+      if (!isAbortError(err)) setError((err as Error).message || t('app.processFailed'));
+    }
+    try {
+      if (offlineRef.current) await queueOffline(indices.filter(index => !settled.has(index)), pass);
+      else if (!controller.signal.aborted) forgetOfflineQueue();
     } finally {
+      finishRun(run);
+      if (abortRef.current === controller) abortRef.current = null;
       setIsProcessing(false);
     }
+    return !controller.signal.aborted;
+  };
+
+  // Starts a pass over every page, each on its current version; every document gets a new history job.
+  const startPass = (pass: PassConfig) => {
+    setPageStates(versionsRef.current.map((_, i) => ({ status: selected[i] ? 'pending' : 'skipped', attempts: 0 })));
+    jobsRef.current.clear();
+    return runPages(selected.flatMap((isSelected, i) => (isSelected ? [i] : [])), pass);
+  };
+
+  const currentPass: PassConfig = { instruction: userPrompt, template: promptTemplate, engine: engineMode, local: localOptions };
+
+  const processImage = () => {
+    if (sourcePages.length === 0) return;
+    startPass(currentPass);
   };
 
-  const downloadResult = () => {
-    if (resultPages.length === 0) return;
-    
-    if (resultPages.length === 1) {
-      const a = document.createElement('a');
-      a.href = resultPages[0];
-      a.download = 'cleaned_worksheet.png';
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-    } else {
-      const pdf = new jsPDF('p', 'mm', 'a4');
-      const pdfWidth = pdf.internal.pageSize.getWidth();
-      const pdfHeight = pdf.internal.pageSize.getHeight();
-      
-      resultPages.forEach((pageData, index) => {
-        if (index > 0) pdf.addPage();
-        
-        const imgProps = pdf.getImageProperties(pageData);
-        const ratio = imgProps.width / imgProps.height;
-        const pdfRatio = pdfWidth / pdfHeight;
-        
-        let finalWidth = pdfWidth;
-        let finalHeight = pdfHeight;
-        
-        if (ratio > pdfRatio) {
-          finalHeight = pdfWidth / ratio;
-        } else {
-          finalWidth = pdfHeight * ratio;
+  const applyRecipe = async (recipe: Recipe) => {
+    if (sourcePages.length === 0) return;
+    for (const step of recipe.steps) {
+      if (!(await startPass(step))) break;
+    }
+  };
+
+  const resumeProcessing = () => {
+    runPages(pageStates.flatMap((state, i) => (state.status === 'pending' ? [i] : [])), passRef.current ?? currentPass);
+  };
+
+  useEffect(() => {
+    document.title = t('app.title');
+  }, [locale]);
+
+  useEffect(() => {
+    loadOfflineQueue()
+      .then(queue => queue && restoreOfflineQueue(queue))
+      .catch(err => console.warn('Failed to load saved pages:', err));
+  }, []);
+
+  // Waiting pages are sent as soon as the browser is back online.
+  useEffect(() => {
+    if (!offlineCount || isProcessing) return;
+    if (restoredRef.current && navigator.onLine) {
+      restoredRef.current = false;
+      resumeProcessing();
+      return;
+    }
+    window.addEventListener('online', resumeProcessing);
+    return () => window.removeEventListener('online', resumeProcessing);
+  }, [offlineCount, isProcessing, pageStates]);
+
+  const cancelProcessing = () => {
+    abortRef.current?.abort();
+  };
+
+  // A manual re-run asks for a new result rather than the cached one.
+  const retryPage = (index: number) => {
+    runPages([index], passRef.current ?? currentPass, true);
+  };
+
+  const skipPage = (index: number) => {
+    updatePage(index, { status: 'skipped', error: undefined });
+    recordPage(index, { status: 'skipped' });
+  };
+
+  // Loads a history job into the workspace; results are kept unless only the pages are wanted.
+  const loadJob = async (job: JobDetail, keepResults: boolean) => {
+    abortRef.current?.abort();
+    setShowHistory(false);
+    setIsUploading(true);
+    setError(null);
+    try {
+      const pages = job.pages.filter(page => page.sourceHash);
+      const sources = await Promise.all(pages.map(page => fetchImage(imageUrl(page.sourceHash!))));
+      const results = await Promise.all(pages.map(page =>
+        keepResults && page.resultHash ? fetchImage(imageUrl(page.resultHash)) : null,
+      ));
+      releaseWorkspace();
+      const doc: BatchDocument = {
+        id: crypto.randomUUID(),
+        name: job.fileName,
+        mimeType: /\.pdf$/i.test(job.fileName) ? 'application/pdf' : 'image/png',
+        hash: job.fileHash,
+        pageCount: sources.length,
+      };
+      setDocuments([doc]);
+      setSourcePages(sources);
+      setLayouts(sources.map((_, i) => createLayout(i, null)));
+      setSelected(sources.map(() => true));
+      setActiveDoc(0);
+      setMasks(sources.map(() => null));
+      setVersions(() => sources.map((source, i) => {
+        const stack = createStack(source);
+        const result = results[i];
+        return result ? pushVersion(stack, { image: result, instruction: job.instruction, engine: job.engine }) : stack;
+      }));
+      setPageStates(keepResults
+        ? pages.map(page => ({
+            status: page.status === 'running' ? 'pending' : page.status,
+            error: page.error ? { message: page.error } : undefined,
+            attempts: 0,
+          }))
+        : []);
+      setEngineMode(job.engine);
+      if (job.instruction) setUserPrompt(job.instruction);
+      // Retrying pages of a reopened job keeps recording into it; a fresh run starts a new job.
+      jobsRef.current.clear();
+      if (keepResults) jobsRef.current.set(doc.id, Promise.resolve(job.id));
+      if (pages.length < job.pages.length) {
+        setError(t('app.historyMissing', { count: job.pages.length - pages.length }));
+      }
+    } catch (err: any) {
+      console.error('Error loading job:', err);
+      setError(t('app.historyFailed', { error: err.message || t('common.unknownError') }));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const downloadJob = async (job: JobDetail) => {
+    try {
+      const results = job.pages.filter(page => page.resultHash);
+      const images = await Promise.all(results.map(page => fetchImage(imageUrl(page.resultHash!))));
+      const stem = `${fileStem(job.fileName)}_cleaned`;
+      const files = await exportFiles(images.map(image => ({ image, size: null })), exportOptions, stem);
+      releaseImages(images);
+      downloadFiles(files, `${stem}.zip`);
+    } catch (err: any) {
+      setError(t('app.downloadFailed', { error: err.message || t('common.unknownError') }));
+    }
+  };
+
+  const saveMask = (index: number, mask: string | null) => {
+    setMasks(prev => sourcePages.map((_, i) => (i === index ? mask : prev[i] ?? null)));
+    setMaskEditorPage(null);
+  };
+
+  const applyMaskToAll = (mask: string | null) => {
+    setMasks(sourcePages.map(() => mask));
+    setMaskEditorPage(null);
+  };
+
+  // Reviewed detections become the page's mask; an empty instruction is filled in to match them.
+  const applyDetection = async (index: number, boxes: MarkBox[], categories: MarkCategory[]) => {
+    setReviewPage(null);
+    try {
+      saveMask(index, await marksToMask(sourcePages[index], boxes));
+      if (!userPrompt.trim()) setUserPrompt(detectionInstruction(categories));
+    } catch (err: any) {
+      console.error('Failed to apply detected marks:', err);
+      setError(t('app.detectFailed', { error: err.message || t('common.unknownError') }));
+    }
+  };
+
+  const undoAll = () => setVersions(prev => prev.map(undo));
+  const redoAll = () => setVersions(prev => prev.map(redo));
+
+  const resultPages = versions.map(currentResult);
+  const donePages = resultPages.filter((page): page is string => page !== null);
+  // Pages finished in the current pass; `donePages` also holds results of earlier passes.
+  const runDoneCount = pageStates.filter(state => state.status === 'done').length;
+  const pendingCount = pageStates.filter(state => state.status === 'pending').length;
+  const failedCount = pageStates.filter(state => state.status === 'failed').length;
+  const flaggedCount = versions.filter(stack => currentVersion(stack).fidelity?.flagged).length;
+  // Pages are numbered within their document; the file name is shown once there are several.
+  const pageLabel = (index: number) => {
+    const { doc, page } = locatePage(documents, index);
+    return documents.length > 1 ? t('app.pageLabel', { name: documents[doc].name, page: page + 1 }) : t('common.page', { page: page + 1 });
+  };
+  const selectedCount = selected.filter(Boolean).length;
+  const activeIndex = Math.min(activeDoc, documents.length - 1);
+  const activeDocument = documents[activeIndex];
+  const activeStart = activeDocument ? pageOffsets(documents)[activeIndex] : 0;
+  const canUndoAny = versions.some(canUndo);
+  const canRedoAny = versions.some(canRedo);
+  const canResume = !isProcessing && pendingCount > 0 && pendingCount < pageStates.length;
+
+  // Pages without a result are exported as they were uploaded, so an export has the
+  // input's page count and order. Nothing is exported for a range with no results at all.
+  const exportPages = (start: number, count: number): ExportPage[] => {
+    const results = resultPages.slice(start, start + count);
+    if (!results.some(Boolean)) return [];
+    return results.map((image, i) => ({ image: image ?? sourcePages[start + i], size: layoutSize(layouts[start + i]) }));
+  };
+
+  // The answer-layer files for a range of pages, when they were asked for; unprocessed pages get an empty layer.
+  const exportAnswers = (start: number, count: number, stem: string): Promise<ExportFile[]> => {
+    if (!exportOptions.answers) return Promise.resolve([]);
+    const results = resultPages.slice(start, start + count);
+    if (!results.some(Boolean)) return Promise.resolve([]);
+    const pages: AnswerPage[] = results.map((result, i) => ({
+      source: sourcePages[start + i],
+      result: result ?? sourcePages[start + i],
+      size: layoutSize(layouts[start + i]),
+    }));
+    return answerFiles(pages, stem);
+  };
+
+  // A document patched into its original PDF when that export is chosen and possible, else rebuilt from its page images.
+  const exportDocument = async (index: number, stem: string): Promise<ExportFile[]> => {
+    const doc = documents[index];
+    const start = pageOffsets(documents)[index];
+    if (exportOptions.format === 'original' && doc.file && doc.mimeType === 'application/pdf') {
+      const pages = resultPages
+        .slice(start, start + doc.pageCount)
+        .map((result, i) => ({ layout: layouts[start + i], source: sourcePages[start + i], result }));
+      return pages.some(page => page.result)
+        ? [{ name: `${stem}.pdf`, data: await patchPdf(doc.file, pages) }]
+        : [];
+    }
+    const pages = exportPages(start, doc.pageCount);
+    return pages.length ? exportFiles(pages, exportOptions, stem) : [];
+  };
+
+  // Per document: a ZIP with one cleaned file per input, named after it. Otherwise every page goes into one export.
+  const exportResults = async (perDocument: boolean) => {
+    setIsExporting(true);
+    try {
+      const stem = documents.length === 1 ? `${fileStem(documents[0].name)}_cleaned` : 'cleaned_worksheets';
+      if (perDocument) {
+        const files: ExportFile[] = [];
+        for (const [i, doc] of documents.entries()) {
+          files.push(...await exportDocument(i, fileStem(doc.name)));
+          files.push(...await exportAnswers(pageOffsets(documents)[i], doc.pageCount, fileStem(doc.name)));
         }
-        
-        const x = (pdfWidth - finalWidth) / 2;
-        const y = (pdfHeight - finalHeight) / 2;
-        
-        pdf.addImage(pageData, 'PNG', x, y, finalWidth, finalHeight);
-      });
-      
-      pdf.save('cleaned_document.pdf');
+        downloadFile(buildZip(files), 'cleaned_worksheets.zip');
+      } else if (exportOptions.format === 'original') {
+        const parts: ExportFile[] = [];
+        for (const i of documents.keys()) parts.push(...await exportDocument(i, stem));
+        const data = parts.length === 1 ? parts[0].data : await mergePdfs(parts.map(part => part.data));
+        downloadFiles([{ name: `${stem}.pdf`, data }, ...await exportAnswers(0, resultPages.length, stem)], `${stem}.zip`);
+      } else {
+        const files = await exportFiles(exportPages(0, resultPages.length), exportOptions, stem);
+        downloadFiles([...files, ...await exportAnswers(0, resultPages.length, stem)], `${stem}.zip`);
+      }
+    } catch (err: any) {
+      console.error('Export failed:', err);
+      setError(t('app.exportFailed', { error: err.message || t('common.unknownError') }));
+    } finally {
+      setIsExporting(false);
+      setShowExport(false);
     }
   };
 
@@ -230,60 +808,137 @@ REQUIREMENT: Output ONLY the edited image. Do not add any new elements not reque
             <div className="w-8 h-8 bg-indigo-600 rounded-lg flex items-center justify-center text-white shadow-sm">
               <Sparkles size={18} />
             </div>
-            <h1 className="text-xl font-semibold tracking-tight">智能试卷擦除</h1>
+            <h1 className="text-xl font-semibold tracking-tight">{t('app.title')}</h1>
           </div>
-          <div className="text-sm text-zinc-500 font-medium hidden sm:block">
-            Powered by Gemini 2.5 Flash
+          <div className="flex items-center gap-4">
+            <label className="text-sm text-zinc-600 flex items-center gap-1" title={t('app.language')}>
+              <Languages size={16} />
+              <select
+                value={locale}
+                onChange={(e) => changeLocale(e.target.value as Locale)}
+                aria-label={t('app.language')}
+                className="bg-transparent font-medium outline-none cursor-pointer hover:text-indigo-600"
+              >
+                {LOCALES.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+              </select>
+            </label>
+            <button
+              onClick={() => setShowHistory(true)}
+              className="text-sm text-zinc-600 hover:text-indigo-600 font-medium flex items-center gap-1 transition-colors"
+            >
+              <History size={16} />
+              {t('app.history')}
+            </button>
+            <div className="text-sm text-zinc-500 font-medium hidden sm:block">
+              Powered by Gemini 2.5 Flash
+            </div>
           </div>
         </div>
       </header>
 
       <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="mb-8 max-w-2xl">
-          <h2 className="text-3xl font-bold tracking-tight mb-3">一键擦除试卷答案</h2>
+          <h2 className="text-3xl font-bold tracking-tight mb-3">{t('app.heroTitle')}</h2>
           <p className="text-zinc-600 text-lg leading-relaxed">
-            上传带有手写答案或批注的试卷照片或PDF，AI 将智能识别并擦除所有作答痕迹，为您还原一张全新的空白试卷。
+            {t('app.heroText')}
           </p>
         </div>
 
         <div className="mb-8 bg-white p-6 rounded-2xl border border-zinc-200 shadow-sm">
           <label className="block text-sm font-medium text-zinc-700 mb-2">
-            清除需求说明 <span className="text-red-500">*</span> <span className="text-zinc-500 font-normal">(请详细描述您希望AI擦除或保留的内容)</span>
+            {t('app.promptLabel')} <span className="text-red-500">*</span> <span className="text-zinc-500 font-normal">{t('app.promptHint')}</span>
           </label>
           <textarea
             value={userPrompt}
             onChange={(e) => setUserPrompt(e.target.value)}
             className="w-full px-4 py-3 rounded-xl border border-zinc-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all resize-none text-zinc-800 mb-3"
             rows={3}
-            placeholder="请输入您的具体需求，例如：擦除所有手写答案、填空、画图和标记。保留原始的空白问题、打印文本和文档结构。"
+            placeholder={t('app.promptPlaceholder')}
           />
           <div className="flex flex-wrap gap-2 items-center mb-3">
-            <span className="text-xs text-zinc-500">快捷指令：</span>
-            {quickPrompts.map((prompt, idx) => (
+            <span className="text-xs text-zinc-500">{t('app.presets')}</span>
+            {presets.map((preset) => (
               <button
-                key={idx}
-                onClick={() => setUserPrompt(prompt)}
+                key={preset.id}
+                onClick={() => applyPreset(preset)}
                 className="text-xs bg-zinc-100 hover:bg-indigo-50 text-zinc-600 hover:text-indigo-600 px-3 py-1.5 rounded-full transition-colors text-left max-w-xs truncate"
-                title={prompt}
+                title={preset.instruction}
               >
-                {prompt}
+                {preset.isDefault && '★ '}{preset.name}
               </button>
             ))}
+            <button
+              onClick={() => setShowPresets(true)}
+              className="text-xs text-zinc-500 hover:text-indigo-600 flex items-center gap-1 px-2 py-1.5 transition-colors"
+            >
+              <BookMarked size={12} />
+              {t('app.managePresets')}
+            </button>
+            {promptTemplate !== DEFAULT_TEMPLATE && (
+              <button
+                onClick={() => setPromptTemplate(DEFAULT_TEMPLATE)}
+                className="text-xs text-amber-600 hover:text-amber-700 px-2 py-1.5"
+                title={t('app.customTemplateTitle')}
+              >
+                {t('app.customTemplate')}
+              </button>
+            )}
+          </div>
+          <details className="text-xs text-zinc-600 border border-zinc-200 rounded-lg mb-3">
+            <summary className="px-3 py-2 font-medium cursor-pointer select-none">{t('app.builder')}</summary>
+            <div className="px-3 pb-3">
+              <PromptBuilder options={promptOptions} onChange={composePrompt} disabled={isProcessing} />
+            </div>
+          </details>
+          <div className="mb-3">
+            <EngineOptions
+              mode={engineMode}
+              onModeChange={setEngineMode}
+              local={localOptions}
+              onLocalChange={setLocalOptions}
+              disabled={isProcessing}
+            />
+          </div>
+          <div className="mb-3">
+            <RecipePanel
+              currentPass={currentPass}
+              onApply={applyRecipe}
+              disabled={isProcessing || sourcePages.length === 0}
+            />
           </div>
           <div className="text-xs text-amber-600 bg-amber-50 p-2 rounded-lg border border-amber-100 mb-3">
-            <strong>提示：</strong> AI 图像编辑能力受限于模型本身。如果 AI 返回了文字错误（如拒绝处理），通常是因为触发了安全限制或无法识别。如果擦除效果不理想，请尝试调整提示词，或上传更清晰的图片。
+            <strong>{t('app.tipLabel')}</strong> {t('app.tip')}
           </div>
           <details className="text-[10px] text-zinc-400 cursor-pointer hover:text-zinc-600 transition-colors">
-            <summary className="font-medium">如何获得更好的擦除效果？</summary>
+            <summary className="font-medium">{t('app.tipsTitle')}</summary>
             <ul className="list-disc pl-4 mt-1 space-y-1">
-              <li>描述要具体：例如“擦除所有红色笔迹”比“清除标记”更有效。</li>
-              <li>分步处理：如果一张图有很多标记，可以先清除一种颜色，再清除另一种。</li>
-              <li>光线充足：确保拍摄的照片光线均匀，没有严重的阴影或反光。</li>
-              <li>对焦清晰：文字越清晰，AI 越容易区分打印字和手写字。</li>
+              <li>{t('app.tipSpecific')}</li>
+              <li>{t('app.tipSteps')}</li>
+              <li>{t('app.tipLight')}</li>
+              <li>{t('app.tipFocus')}</li>
             </ul>
           </details>
         </div>
 
+        {offlineCount > 0 && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-xl text-amber-800 flex items-start gap-3">
+            <WifiOff size={20} className="mt-0.5 shrink-0" />
+            <div className="flex-1">
+              <h3 className="font-medium">{t('app.offlineTitle')}</h3>
+              <p className="text-sm mt-1 opacity-90">
+                {t('app.offlineText', { count: offlineCount })}
+              </p>
+            </div>
+            <button
+              onClick={resumeProcessing}
+              disabled={isProcessing}
+              className="text-sm font-medium px-3 py-1.5 rounded-lg border border-amber-300 bg-white hover:bg-amber-100 transition-colors disabled:opacity-50"
+            >
+              {t('app.retryNow')}
+            </button>
+          </div>
+        )}
+
         {error && (
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl text-red-700 flex items-start gap-3">
             <div className="mt-0.5">
@@ -291,10 +946,17 @@ REQUIREMENT: Output ONLY the edited image. Do not add any new elements not reque
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
               </svg>
             </div>
-            <div>
-              <h3 className="font-medium">处理失败</h3>
+            <div className="flex-1">
+              <h3 className="font-medium">{t('app.errorTitle')}</h3>
               <p className="text-sm mt-1 opacity-90">{error}</p>
             </div>
+            <button
+              onClick={() => downloadDiagnostics()}
+              className="text-sm font-medium flex items-center gap-1 px-3 py-1.5 rounded-lg border border-red-200 bg-white hover:bg-red-100 transition-colors"
+            >
+              <FileDown size={14} />
+              {t('diagnostics.export')}
+            </button>
           </div>
         )}
 
@@ -304,19 +966,61 @@ REQUIREMENT: Output ONLY the edited image. Do not add any new elements not reque
             <div className="flex items-center justify-between">
               <h3 className="text-lg font-semibold flex items-center gap-2">
                 <ImageIcon size={20} className="text-zinc-400" />
-                原图 {sourcePages.length > 0 && `(${sourcePages.length}页)`}
+                {t('source.title')} {sourcePages.length > 0 && (documents.length > 1
+                  ? t('source.counts', { files: t('source.files', { count: documents.length }), pages: t('common.pageCount', { count: sourcePages.length }) })
+                  : `(${t('common.pageCount', { count: sourcePages.length })})`)}
               </h3>
               {sourcePages.length > 0 && (
-                <button
-                  onClick={clearImage}
-                  className="text-sm text-zinc-500 hover:text-red-600 flex items-center gap-1 transition-colors"
-                >
-                  <Trash2 size={14} />
-                  清空
-                </button>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isProcessing || isUploading}
+                    className="text-sm text-zinc-500 hover:text-indigo-600 flex items-center gap-1 transition-colors disabled:opacity-50"
+                  >
+                    {isUploading ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+                    {t('source.add')}
+                  </button>
+                  <button
+                    onClick={clearImage}
+                    className="text-sm text-zinc-500 hover:text-red-600 flex items-center gap-1 transition-colors"
+                  >
+                    <Trash2 size={14} />
+                    {t('source.clear')}
+                  </button>
+                </div>
               )}
             </div>
 
+            {documents.length > 1 && (
+              <DocumentQueue
+                documents={documents}
+                states={splitByDocument(documents, pageStates)}
+                doneCounts={splitByDocument(documents, resultPages).map(pages => pages.filter(Boolean).length)}
+                onSelect={(i) => {
+                  setActiveDoc(i);
+                  document.getElementById(`source-page-${pageOffsets(documents)[i]}`)?.scrollIntoView({ behavior: 'smooth' });
+                }}
+                onRemove={removeDocument}
+                disabled={isProcessing}
+              />
+            )}
+
+            {activeDocument && (
+              <PageStrip
+                key={activeDocument.id}
+                title={documents.length > 1 ? activeDocument.name : undefined}
+                pages={sourcePages.slice(activeStart, activeStart + activeDocument.pageCount)}
+                selected={selected.slice(activeStart, activeStart + activeDocument.pageCount)}
+                onSelectionChange={(values) => setDocumentSelection(activeIndex, values)}
+                onMove={(from, to) => reorderPage(activeStart + from, activeStart + to)}
+                onRotate={(page, turn) => rotatePage(activeStart + page, turn)}
+                onCrop={(page) => setCropEditorPage(activeStart + page)}
+                onFlatten={activeDocument.mimeType === 'application/pdf' ? undefined : (page) => setPerspectivePage(activeStart + page)}
+                onDelete={(page) => deletePage(activeStart + page)}
+                disabled={isProcessing}
+              />
+            )}
+
             {!sourcePages.length ? (
               <div
                 onClick={() => !isUploading && fileInputRef.current?.click()}
@@ -332,8 +1036,10 @@ REQUIREMENT: Output ONLY the edited image. Do not add any new elements not reque
                       <Loader2 size={28} className="text-indigo-600 animate-spin" />
                     </div>
                     <div className="text-center">
-                      <p className="text-base font-medium text-zinc-700">正在处理文件...</p>
-                      <p className="text-sm text-zinc-500 mt-1">PDF文件可能需要较长时间，请耐心等待</p>
+                      <p className="text-base font-medium text-zinc-700">
+                        {uploadProgress ? t('source.rendering', { done: uploadProgress.done, total: uploadProgress.total }) : t('source.reading')}
+                      </p>
+                      <p className="text-sm text-zinc-500 mt-1">{t('source.previewNote')}</p>
                     </div>
                   </>
                 ) : (
@@ -342,22 +1048,63 @@ REQUIREMENT: Output ONLY the edited image. Do not add any new elements not reque
                       <Upload size={28} className="text-zinc-500 group-hover:text-indigo-600" />
                     </div>
                     <div className="text-center">
-                      <p className="text-base font-medium text-zinc-700">点击上传试卷照片或PDF</p>
-                      <p className="text-sm text-zinc-500 mt-1">支持 JPG, PNG, PDF 格式 (最大 100MB)</p>
+                      <p className="text-base font-medium text-zinc-700">{t('source.upload')}</p>
+                      <p className="text-sm text-zinc-500 mt-1">{t('source.uploadHint')}</p>
                     </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        folderInputRef.current?.click();
+                      }}
+                      className="text-sm text-zinc-600 hover:text-indigo-600 flex items-center gap-1 px-3 py-1.5 rounded-lg border border-zinc-200 bg-white transition-colors"
+                    >
+                      <FolderOpen size={14} />
+                      {t('source.folder')}
+                    </button>
                   </>
                 )}
               </div>
             ) : (
               <div className="h-[500px] rounded-2xl overflow-y-auto bg-zinc-100 border border-zinc-200 shadow-sm p-4 flex flex-col gap-4">
                 {sourcePages.map((page, idx) => (
-                  <div key={idx} className="relative">
-                    <div className="absolute top-2 left-2 bg-black/50 text-white text-xs px-2 py-1 rounded-md backdrop-blur-sm">
-                      第 {idx + 1} 页
+                  <div key={idx} id={`source-page-${idx}`} className="relative">
+                    <div className="absolute top-2 left-2 bg-black/50 text-white text-xs px-2 py-1 rounded-md backdrop-blur-sm max-w-[60%] truncate">
+                      {pageLabel(idx)}
+                    </div>
+                    <div className="absolute top-2 right-2 flex items-center gap-1.5">
+                      <button
+                        onClick={() => setReviewPage(idx)}
+                        disabled={isProcessing}
+                        className="text-xs px-2 py-1 rounded-md backdrop-blur-sm flex items-center gap-1 transition-colors disabled:opacity-50 bg-white/80 text-zinc-700 hover:bg-white"
+                        title={t('source.detectTitle')}
+                      >
+                        <ScanSearch size={12} />
+                        {t('source.detect')}
+                      </button>
+                      <button
+                        onClick={() => setMaskEditorPage(idx)}
+                        disabled={isProcessing}
+                        className={`text-xs px-2 py-1 rounded-md backdrop-blur-sm flex items-center gap-1 transition-colors disabled:opacity-50 ${
+                          masks[idx] ? 'bg-red-500/90 text-white' : 'bg-white/80 text-zinc-700 hover:bg-white'
+                        }`}
+                        title={t('source.maskTitle')}
+                      >
+                        <Brush size={12} />
+                        {masks[idx] ? t('source.maskSet') : t('source.mask')}
+                      </button>
                     </div>
+                    {masks[idx] && (
+                      <img
+                        src={masks[idx]!}
+                        alt=""
+                        className="absolute inset-0 w-full h-full opacity-30 pointer-events-none mix-blend-difference rounded-lg"
+                      />
+                    )}
                     <img
                       src={page}
-                      alt={`Source Page ${idx + 1}`}
+                      alt={pageLabel(idx)}
+                      loading="lazy"
+                      decoding="async"
                       className="w-full h-auto object-contain bg-white shadow-sm rounded-lg"
                     />
                   </div>
@@ -368,34 +1115,189 @@ REQUIREMENT: Output ONLY the edited image. Do not add any new elements not reque
             <input
               type="file"
               ref={fileInputRef}
-              onChange={handleImageUpload}
+              onChange={handleFilesSelected}
               accept="image/*,application/pdf"
+              multiple
+              className="hidden"
+            />
+            <input
+              type="file"
+              ref={(el) => {
+                folderInputRef.current = el;
+                el?.setAttribute('webkitdirectory', '');
+              }}
+              onChange={handleFilesSelected}
               className="hidden"
             />
 
-            <button
-              onClick={processImage}
-              disabled={sourcePages.length === 0 || isProcessing || !userPrompt.trim()}
-              className={`w-full py-3.5 rounded-xl font-medium flex items-center justify-center gap-2 transition-all shadow-sm ${
-                sourcePages.length === 0 || !userPrompt.trim()
-                  ? 'bg-zinc-100 text-zinc-400 cursor-not-allowed'
-                  : isProcessing
-                  ? 'bg-indigo-100 text-indigo-700 cursor-wait'
-                  : 'bg-indigo-600 text-white hover:bg-indigo-700 hover:shadow-md active:scale-[0.98]'
-              }`}
-            >
-              {isProcessing ? (
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-zinc-500">
+              <label className="flex items-center gap-2" title={t('settings.autoFlattenTitle')}>
+                <input
+                  type="checkbox"
+                  checked={autoFlatten}
+                  disabled={isUploading}
+                  onChange={(e) => setAutoFlatten(e.target.checked)}
+                />
+                {t('settings.autoFlatten')}
+              </label>
+              <label className="flex items-center gap-2" title={t('settings.renderDpiTitle')}>
+                {t('settings.renderDpi')}
+                <select
+                  value={renderDpi}
+                  disabled={isProcessing}
+                  onChange={(e) => setRenderDpi(Number(e.target.value))}
+                  className="px-2 py-1 rounded-md border border-zinc-300 text-zinc-800 outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {RENDER_DPI_OPTIONS.map(dpi => <option key={dpi} value={dpi}>{dpi} dpi</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                {t('settings.concurrency')}
+                <input
+                  type="number"
+                  min={1}
+                  max={8}
+                  value={concurrency}
+                  disabled={isProcessing}
+                  onChange={(e) => setConcurrency(Math.min(8, Math.max(1, Number(e.target.value) || 1)))}
+                  className="w-14 px-2 py-1 rounded-md border border-zinc-300 text-zinc-800 outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                {t('settings.requestsPerMinute')}
+                <input
+                  type="number"
+                  min={1}
+                  value={requestsPerMinute}
+                  disabled={isProcessing}
+                  onChange={(e) => setRequestsPerMinute(Math.max(1, Number(e.target.value) || 1))}
+                  className="w-16 px-2 py-1 rounded-md border border-zinc-300 text-zinc-800 outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </label>
+              <label className="flex items-center gap-2" title={t('settings.tilingTitle')}>
+                <input
+                  type="checkbox"
+                  checked={tiling.enabled}
+                  disabled={isProcessing}
+                  onChange={(e) => setTiling({ ...tiling, enabled: e.target.checked })}
+                />
+                {t('settings.tiling')}
+              </label>
+              {tiling.enabled && (
                 <>
-                  <Loader2 size={20} className="animate-spin" />
-                  AI 正在处理... ({resultPages.length}/{sourcePages.length})
+                  <label className="flex items-center gap-2">
+                    {t('settings.tileSize')}
+                    <input
+                      type="number"
+                      min={256}
+                      max={4096}
+                      step={128}
+                      value={tiling.tileSize}
+                      disabled={isProcessing}
+                      onChange={(e) => setTiling({ ...tiling, tileSize: Math.min(4096, Math.max(256, Number(e.target.value) || 256)) })}
+                      className="w-20 px-2 py-1 rounded-md border border-zinc-300 text-zinc-800 outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2">
+                    {t('settings.overlap')}
+                    <input
+                      type="number"
+                      min={0}
+                      max={Math.floor(tiling.tileSize / 2)}
+                      step={16}
+                      value={tiling.overlap}
+                      disabled={isProcessing}
+                      onChange={(e) => setTiling({ ...tiling, overlap: Math.min(Math.floor(tiling.tileSize / 2), Math.max(0, Number(e.target.value) || 0)) })}
+                      className="w-16 px-2 py-1 rounded-md border border-zinc-300 text-zinc-800 outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                  </label>
                 </>
-              ) : (
+              )}
+              <label className="flex items-center gap-2" title={t('settings.fidelityTitle')}>
+                <input
+                  type="checkbox"
+                  checked={fidelityPolicy.enabled}
+                  disabled={isProcessing}
+                  onChange={(e) => setFidelityPolicy({ ...fidelityPolicy, enabled: e.target.checked })}
+                />
+                {t('settings.fidelity')}
+              </label>
+              {fidelityPolicy.enabled && (
                 <>
-                  <Sparkles size={20} />
-                  {sourcePages.length === 0 ? '请先上传文件' : !userPrompt.trim() ? '请先输入清除需求' : '开始智能擦除'}
+                  <label className="flex items-center gap-2">
+                    {t('settings.threshold')}
+                    <input
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={fidelityPolicy.threshold}
+                      disabled={isProcessing}
+                      onChange={(e) => setFidelityPolicy({ ...fidelityPolicy, threshold: Math.min(1, Math.max(0, Number(e.target.value) || 0)) })}
+                      className="w-16 px-2 py-1 rounded-md border border-zinc-300 text-zinc-800 outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2">
+                    {t('settings.autoRetries')}
+                    <input
+                      type="number"
+                      min={0}
+                      max={5}
+                      value={fidelityPolicy.autoRetries}
+                      disabled={isProcessing}
+                      onChange={(e) => setFidelityPolicy({ ...fidelityPolicy, autoRetries: Math.min(5, Math.max(0, Number(e.target.value) || 0)) })}
+                      className="w-14 px-2 py-1 rounded-md border border-zinc-300 text-zinc-800 outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                    {t('settings.retriesUnit')}
+                  </label>
                 </>
               )}
-            </button>
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={processImage}
+                disabled={selectedCount === 0 || isProcessing || !canRun}
+                className={`flex-1 py-3.5 rounded-xl font-medium flex items-center justify-center gap-2 transition-all shadow-sm ${
+                  selectedCount === 0 || !canRun
+                    ? 'bg-zinc-100 text-zinc-400 cursor-not-allowed'
+                    : isProcessing
+                    ? 'bg-indigo-100 text-indigo-700 cursor-wait'
+                    : 'bg-indigo-600 text-white hover:bg-indigo-700 hover:shadow-md active:scale-[0.98]'
+                }`}
+              >
+                {isProcessing ? (
+                  <>
+                    <Loader2 size={20} className="animate-spin" />
+                    {usesAi(engineMode) ? t('run.aiBusy') : t('run.localBusy')} ({t('common.progress', { done: runDoneCount, total: selectedCount })})
+                  </>
+                ) : (
+                  <>
+                    <Sparkles size={20} />
+                    {sourcePages.length === 0 ? t('run.noFiles') : selectedCount === 0 ? t('run.noSelection') : !canRun ? t('run.noPrompt') : selectedCount < sourcePages.length ? t('run.startSome', { count: selectedCount }) : t('run.start')}
+                  </>
+                )}
+              </button>
+              {isProcessing && (
+                <button
+                  onClick={cancelProcessing}
+                  className="px-4 py-3.5 rounded-xl font-medium flex items-center gap-2 border border-zinc-300 bg-white text-zinc-700 hover:border-red-300 hover:text-red-600 transition-colors"
+                >
+                  <Square size={16} />
+                  {t('common.cancel')}
+                </button>
+              )}
+              {canResume && (
+                <button
+                  onClick={resumeProcessing}
+                  disabled={!canRun}
+                  className="px-4 py-3.5 rounded-xl font-medium flex items-center gap-2 border border-indigo-200 bg-indigo-50 text-indigo-700 hover:bg-indigo-100 transition-colors disabled:opacity-50"
+                >
+                  <Play size={16} />
+                  {t('run.resume', { count: pendingCount })}
+                </button>
+              )}
+            </div>
           </div>
 
           {/* Right Column: Result */}
@@ -403,10 +1305,50 @@ REQUIREMENT: Output ONLY the edited image. Do not add any new elements not reque
             <div className="flex items-center justify-between">
               <h3 className="text-lg font-semibold flex items-center gap-2">
                 <Sparkles size={20} className="text-indigo-500" />
-                处理结果 {resultPages.length > 0 && `(${resultPages.length}页)`}
+                {t('results.title')} {donePages.length > 0 && `(${t('common.pageCount', { count: donePages.length })})`}
+                {failedCount > 0 && (
+                  <button
+                    onClick={() => downloadDiagnostics()}
+                    className="text-xs font-medium text-red-600 bg-red-50 hover:bg-red-100 px-2 py-0.5 rounded-full flex items-center gap-1 transition-colors"
+                    title={t('diagnostics.export')}
+                  >
+                    <FileDown size={12} />
+                    {t('common.pagesFailed', { count: failedCount })}
+                  </button>
+                )}
+                {flaggedCount > 0 && (
+                  <button
+                    onClick={() => setShowHeatmaps(!showHeatmaps)}
+                    className="text-xs font-medium text-amber-700 bg-amber-50 hover:bg-amber-100 px-2 py-0.5 rounded-full flex items-center gap-1 transition-colors"
+                    title={showHeatmaps ? t('results.hideHeatmaps') : t('results.showHeatmaps')}
+                  >
+                    <AlertTriangle size={12} />
+                    {t('results.flagged', { count: flaggedCount })}
+                  </button>
+                )}
               </h3>
               <div className="flex items-center gap-3">
-                {resultPages.length > 0 && (
+                {(canUndoAny || canRedoAny) && (
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={undoAll}
+                      disabled={isProcessing || !canUndoAny}
+                      className="p-1 text-zinc-500 hover:text-indigo-600 transition-colors disabled:opacity-30"
+                      title={t('results.undoAll')}
+                    >
+                      <Undo2 size={16} />
+                    </button>
+                    <button
+                      onClick={redoAll}
+                      disabled={isProcessing || !canRedoAny}
+                      className="p-1 text-zinc-500 hover:text-indigo-600 transition-colors disabled:opacity-30"
+                      title={t('results.redoAll')}
+                    >
+                      <Redo2 size={16} />
+                    </button>
+                  </div>
+                )}
+                {donePages.length > 0 && (
                   <div className="flex bg-zinc-100 p-1 rounded-lg">
                     <button
                       onClick={() => setViewMode('single')}
@@ -414,7 +1356,7 @@ REQUIREMENT: Output ONLY the edited image. Do not add any new elements not reque
                         viewMode === 'single' ? 'bg-white text-indigo-600 shadow-sm' : 'text-zinc-500 hover:text-zinc-700'
                       }`}
                     >
-                      单页
+                      {t('results.single')}
                     </button>
                     <button
                       onClick={() => setViewMode('compare')}
@@ -422,92 +1364,264 @@ REQUIREMENT: Output ONLY the edited image. Do not add any new elements not reque
                         viewMode === 'compare' ? 'bg-white text-indigo-600 shadow-sm' : 'text-zinc-500 hover:text-zinc-700'
                       }`}
                     >
-                      对比
+                      {t('results.compare')}
                     </button>
                   </div>
                 )}
-                {resultPages.length > 0 && (
+                {donePages.length > 0 && (
                   <button
-                    onClick={downloadResult}
+                    onClick={() => setShowExport(true)}
                     className="text-sm text-indigo-600 hover:text-indigo-700 font-medium flex items-center gap-1 transition-colors"
                   >
                     <Download size={16} />
-                    下载保存
+                    {t('results.download')}
                   </button>
                 )}
               </div>
             </div>
 
             <div className="h-[500px] rounded-2xl overflow-y-auto bg-white border border-zinc-200 shadow-sm relative flex flex-col items-center justify-center p-4">
-              {resultPages.length > 0 ? (
-                <div className="w-full flex flex-col gap-6">
-                  {resultPages.map((page, idx) => (
-                    <div key={idx} className="flex flex-col gap-2">
-                      <div className="flex items-center justify-between px-1">
-                        <span className="text-xs font-bold text-indigo-600 uppercase tracking-wider">第 {idx + 1} 页</span>
-                        {viewMode === 'compare' && (
-                          <div className="flex gap-4 text-[10px] font-medium text-zinc-400">
-                            <span>左：原图</span>
-                            <span>右：处理后</span>
+              {pageStates.length > 0 || donePages.length > 0 ? (
+                <div className="w-full self-start flex flex-col gap-6">
+                  {versions.map((stack, idx) => {
+                    const page = resultPages[idx];
+                    const state: PageState = pageStates[idx] ?? { status: page ? 'done' : 'pending', attempts: 0 };
+                    const fidelity = currentVersion(stack).fidelity;
+                    return (
+                      <div key={idx} className="flex flex-col gap-2">
+                        <div className="flex items-center justify-between px-1">
+                          <span className="text-xs font-bold text-indigo-600 uppercase tracking-wider flex items-center gap-2">
+                            <span className="normal-case truncate">{pageLabel(idx)}</span>
+                            {fidelity && (
+                              <span
+                                className={`normal-case tracking-normal font-medium px-1.5 py-0.5 rounded flex items-center gap-1 ${
+                                  fidelity.flagged ? 'bg-amber-100 text-amber-700' : 'bg-emerald-50 text-emerald-700'
+                                }`}
+                                title={fidelity.flagged ? t('results.fidelityFlagged') : t('results.fidelityOk')}
+                              >
+                                {fidelity.flagged && <AlertTriangle size={10} />}
+                                {t('results.fidelity', { score: formatNumber(fidelity.score, { style: 'percent' }) })}
+                              </span>
+                            )}
+                          </span>
+                          <div className="flex items-center gap-4 text-[10px] font-medium text-zinc-400">
+                            {viewMode === 'compare' && page && (
+                              <>
+                                <span>{t('results.left')}</span>
+                                <span>{t('results.right')}</span>
+                              </>
+                            )}
+                            {page && (
+                              <button
+                                onClick={() => setViewerPage(idx)}
+                                className="text-zinc-400 hover:text-indigo-600 transition-colors"
+                                title={t('results.fullscreen')}
+                              >
+                                <Maximize2 size={14} />
+                              </button>
+                            )}
                           </div>
+                        </div>
+
+                        {stack.versions.length > 1 && (
+                          <VersionBar
+                            stack={stack}
+                            onUndo={() => updateStack(idx, undo)}
+                            onRedo={() => updateStack(idx, redo)}
+                            onCheckout={(id) => updateStack(idx, s => checkout(s, id))}
+                            disabled={isProcessing}
+                          />
                         )}
-                      </div>
-                      
-                      {viewMode === 'compare' ? (
-                        <div className="grid grid-cols-2 gap-2">
-                          <div className="relative group">
-                            <img
-                              src={sourcePages[idx]}
-                              alt={`Original Page ${idx + 1}`}
-                              className="w-full h-auto object-contain bg-white shadow-sm rounded-lg border border-zinc-100"
-                            />
-                            <div className="absolute inset-0 bg-black/0 group-hover:bg-black/5 transition-colors pointer-events-none rounded-lg"></div>
+
+                        {state.status === 'running' ? (
+                          <div className="w-full py-8 flex flex-col items-center gap-3 text-zinc-500 bg-zinc-50 rounded-lg border border-zinc-100">
+                            <Loader2 size={24} className="animate-spin text-indigo-500" />
+                            {state.tiles ? (
+                              <>
+                                <p className="text-sm">{t('results.tiling', { page: idx + 1, done: state.tiles.done, total: state.tiles.total })}</p>
+                                <div className="w-40 h-1.5 bg-zinc-200 rounded-full overflow-hidden">
+                                  <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(state.tiles.done / state.tiles.total) * 100}%` }} />
+                                </div>
+                              </>
+                            ) : (
+                              <p className="text-sm">{t('results.running', { page: idx + 1 })}{state.attempts > 1 && t('results.attempt', { attempt: state.attempts })}</p>
+                            )}
+                          </div>
+                        ) : state.status === 'failed' || state.status === 'skipped' ? (
+                          <div className={`w-full p-4 flex flex-col gap-3 rounded-lg border ${
+                            state.status === 'failed' ? 'bg-red-50 border-red-200 text-red-700' : 'bg-zinc-50 border-zinc-200 text-zinc-500'
+                          }`}>
+                            <div>
+                              <p className="text-sm">{state.status === 'failed' ? state.error && describeError(state.error) : t('results.skipped')}</p>
+                              {state.status === 'failed' && state.error?.kind && errorFix(state.error.kind) && (
+                                <p className="text-xs mt-1 text-red-600/80">{t('results.fix', { fix: errorFix(state.error.kind) })}</p>
+                              )}
+                            </div>
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => retryPage(idx)}
+                                disabled={isProcessing || !canRun}
+                                className="text-xs font-medium flex items-center gap-1 px-3 py-1.5 rounded-md bg-white border border-zinc-200 text-zinc-700 hover:border-indigo-300 hover:text-indigo-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                <RotateCcw size={12} />
+                                {t('results.retry')}
+                              </button>
+                              {state.status === 'failed' && (
+                                <button
+                                  onClick={() => skipPage(idx)}
+                                  className="text-xs font-medium flex items-center gap-1 px-3 py-1.5 rounded-md bg-white border border-zinc-200 text-zinc-700 hover:border-zinc-300 transition-colors"
+                                >
+                                  <SkipForward size={12} />
+                                  {t('results.skip')}
+                                </button>
+                              )}
+                            </div>
                           </div>
-                          <div className="relative group">
+                        ) : page ? (viewMode === 'compare' ? (
+                          <div className="grid grid-cols-2 gap-2">
+                            <div className="relative group">
+                              <img
+                                src={sourcePages[idx]}
+                                alt={pageLabel(idx)}
+                                className="w-full h-auto object-contain bg-white shadow-sm rounded-lg border border-zinc-100"
+                              />
+                              <div className="absolute inset-0 bg-black/0 group-hover:bg-black/5 transition-colors pointer-events-none rounded-lg"></div>
+                            </div>
+                            <div className="relative group">
+                              <img
+                                src={page}
+                                alt={t('results.resultAlt', { page: pageLabel(idx) })}
+                                onClick={() => setViewerPage(idx)}
+                                className="w-full h-auto object-contain bg-white shadow-sm rounded-lg border border-indigo-100 ring-2 ring-indigo-500/10 cursor-zoom-in"
+                              />
+                              {showHeatmaps && fidelity?.flagged && (
+                                <img
+                                  src={fidelity.heatmap}
+                                  alt=""
+                                  className="absolute inset-0 w-full h-full pointer-events-none rounded-lg"
+                                />
+                              )}
+                              <div className="absolute inset-0 bg-black/0 group-hover:bg-black/5 transition-colors pointer-events-none rounded-lg"></div>
+                            </div>
+                          </div>
+                        ) : (
+                          <div className="relative">
                             <img
                               src={page}
-                              alt={`Result Page ${idx + 1}`}
-                              className="w-full h-auto object-contain bg-white shadow-sm rounded-lg border border-indigo-100 ring-2 ring-indigo-500/10"
+                              alt={t('results.resultAlt', { page: pageLabel(idx) })}
+                              onClick={() => setViewerPage(idx)}
+                              className="w-full h-auto object-contain bg-white shadow-sm rounded-lg border border-zinc-100 cursor-zoom-in"
                             />
-                            <div className="absolute inset-0 bg-black/0 group-hover:bg-black/5 transition-colors pointer-events-none rounded-lg"></div>
+                            {showHeatmaps && fidelity?.flagged && (
+                              <img
+                                src={fidelity.heatmap}
+                                alt=""
+                                className="absolute inset-0 w-full h-full pointer-events-none rounded-lg"
+                              />
+                            )}
                           </div>
-                        </div>
-                      ) : (
-                        <div className="relative">
-                          <img
-                            src={page}
-                            alt={`Result Page ${idx + 1}`}
-                            className="w-full h-auto object-contain bg-white shadow-sm rounded-lg border border-zinc-100"
-                          />
-                        </div>
-                      )}
-                    </div>
-                  ))}
-                  {isProcessing && resultPages.length < sourcePages.length && (
-                    <div className="w-full py-8 flex flex-col items-center gap-3 text-zinc-500 bg-zinc-50 rounded-lg border border-zinc-100">
-                      <Loader2 size={24} className="animate-spin text-indigo-500" />
-                      <p className="text-sm">正在处理第 {resultPages.length + 1} 页...</p>
-                    </div>
-                  )}
-                </div>
-              ) : isProcessing ? (
-                <div className="flex flex-col items-center gap-4 text-zinc-400">
-                  <div className="relative">
-                    <div className="w-16 h-16 border-4 border-zinc-100 rounded-full"></div>
-                    <div className="w-16 h-16 border-4 border-indigo-500 rounded-full border-t-transparent animate-spin absolute top-0 left-0"></div>
-                  </div>
-                  <p className="text-sm font-medium animate-pulse">正在还原空白试卷...</p>
+                        )                        ) : (
+                          <div className="w-full py-8 flex flex-col items-center text-zinc-400 bg-zinc-50 rounded-lg border border-dashed border-zinc-200">
+                            <p className="text-sm">{state.status === 'done' ? t('results.restored') : t('results.waiting')}</p>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
               ) : (
                 <div className="flex flex-col items-center gap-3 text-zinc-400">
                   <ImageIcon size={48} className="opacity-20" />
-                  <p className="text-sm">处理后的试卷将显示在这里</p>
+                  <p className="text-sm">{t('results.empty')}</p>
                 </div>
               )}
             </div>
           </div>
         </div>
       </main>
+
+      {maskEditorPage !== null && (
+        <MaskEditor
+          image={sourcePages[maskEditorPage]}
+          initialMask={masks[maskEditorPage] ?? null}
+          pageNumber={maskEditorPage + 1}
+          pageCount={sourcePages.length}
+          onSave={(mask) => saveMask(maskEditorPage, mask)}
+          onApplyToAll={applyMaskToAll}
+          onClose={() => setMaskEditorPage(null)}
+        />
+      )}
+
+      {showPresets && (
+        <PresetManager
+          presets={presets}
+          onChange={setPresets}
+          onUse={applyPreset}
+          current={{
+            instruction: userPrompt,
+            template: promptTemplate,
+            builder: userPrompt === composeInstruction(promptOptions) ? promptOptions : undefined,
+          }}
+          onClose={() => setShowPresets(false)}
+        />
+      )}
+
+      {reviewPage !== null && (
+        <MarkReview
+          image={sourcePages[reviewPage]}
+          pageLabel={pageLabel(reviewPage)}
+          onApply={(boxes, categories) => applyDetection(reviewPage, boxes, categories)}
+          onClose={() => setReviewPage(null)}
+        />
+      )}
+
+      {cropEditorPage !== null && (
+        <CropEditor
+          image={sourcePages[cropEditorPage]}
+          pageLabel={pageLabel(cropEditorPage)}
+          onApply={(crop) => applyCrop(cropEditorPage, crop)}
+          onClose={() => setCropEditorPage(null)}
+        />
+      )}
+
+      {perspectivePage !== null && (
+        <PerspectiveEditor
+          image={sourcePages[perspectivePage]}
+          pageLabel={pageLabel(perspectivePage)}
+          defaults={flattenOptions}
+          onApply={(quad, options) => applyPerspective(perspectivePage, quad, options)}
+          onClose={() => setPerspectivePage(null)}
+        />
+      )}
+
+      {showHistory && (
+        <HistoryPanel
+          onClose={() => setShowHistory(false)}
+          onOpen={(job) => loadJob(job, true)}
+          onDownload={downloadJob}
+          onRerun={(job) => loadJob(job, false)}
+        />
+      )}
+
+      {showExport && (
+        <ExportDialog
+          options={exportOptions}
+          onChange={setExportOptions}
+          batch={documents.length > 1}
+          hasOriginalPdf={documents.some(doc => doc.file && doc.mimeType === 'application/pdf')}
+          busy={isExporting}
+          onExport={exportResults}
+          onClose={() => !isExporting && setShowExport(false)}
+        />
+      )}
+
+      {viewerPage !== null && (
+        <CompareViewer
+          pages={sourcePages.map((source, i) => ({ source, result: resultPages[i] ?? null }))}
+          initialIndex={viewerPage}
+          onClose={() => setViewerPage(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,4 +1,6 @@
 import React, { Component, ErrorInfo, ReactNode } from 'react';
+import { downloadDiagnostics } from './lib/diagnostics.ts';
+import { t } from './lib/i18n.ts';
 
 interface Props {
   children?: ReactNode;
@@ -26,25 +28,46 @@ export class ErrorBoundary extends Component<Props, State> {
     this.setState({ errorInfo });
   }
 
+  private exportDiagnostics = () => {
+    const { error, errorInfo } = this.state;
+    downloadDiagnostics({
+      message: error?.toString() ?? '',
+      stack: error?.stack,
+      componentStack: errorInfo?.componentStack ?? undefined,
+    });
+  };
+
   public render() {
     if (this.state.hasError) {
       return (
         <div className="min-h-screen flex items-center justify-center bg-red-50 p-4">
           <div className="bg-white p-6 rounded-xl shadow-lg max-w-2xl w-full border border-red-200">
-            <h1 className="text-2xl font-bold text-red-600 mb-4">Something went wrong</h1>
-            <div className="bg-red-50 p-4 rounded-lg overflow-auto max-h-96">
-              <pre className="text-sm text-red-800 whitespace-pre-wrap font-mono">
+            <h1 className="text-2xl font-bold text-red-600 mb-2">{t('crash.title')}</h1>
+            <p className="text-sm text-zinc-600 mb-4">
+              {t('crash.help')}
+            </p>
+            <details className="bg-red-50 p-4 rounded-lg">
+              <summary className="text-sm font-medium text-red-700 cursor-pointer">{t('crash.details')}</summary>
+              <pre className="mt-2 text-sm text-red-800 whitespace-pre-wrap font-mono overflow-auto max-h-96">
                 {this.state.error && this.state.error.toString()}
                 <br />
                 {this.state.errorInfo && this.state.errorInfo.componentStack}
               </pre>
+            </details>
+            <div className="mt-6 flex gap-3">
+              <button 
+                onClick={() => window.location.reload()}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+              >
+                {t('crash.reload')}
+              </button>
+              <button
+                onClick={this.exportDiagnostics}
+                className="px-4 py-2 border border-red-200 text-red-700 rounded-lg hover:bg-red-50 transition-colors"
+              >
+                {t('diagnostics.export')}
+              </button>
             </div>
-            <button 
-              onClick={() => window.location.reload()}
-              className="mt-6 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
-            >
-              Reload Page
-            </button>
           </div>
         </div>
       );
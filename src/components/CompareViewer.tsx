@@ -0,0 +1,298 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { X, ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Maximize, Loader2, AlertTriangle } from 'lucide-react';
+import { renderDifference } from '../lib/diff.ts';
+import { useLocale } from '../lib/i18n.ts';
+
+export interface ViewerPage {
+  source: string;
+  result: string | null;
+}
+
+interface Props {
+  pages: ViewerPage[];
+  initialIndex: number;
+  onClose: () => void;
+}
+
+type Mode = 'side' | 'swipe' | 'overlay' | 'diff';
+
+const MODES: Mode[] = ['side', 'swipe', 'overlay', 'diff'];
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 16;
+
+interface View {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+const FIT: View = { zoom: 1, x: 0, y: 0 };
+
+/** Fits `image` inside `box` and returns the stage size and its centered offset. */
+function fitStage(box: { width: number; height: number }, image: { width: number; height: number }) {
+  const scale = Math.min(box.width / image.width, box.height / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  return { width, height, left: (box.width - width) / 2, top: (box.height - height) / 2 };
+}
+
+/**
+ * Full-screen viewer for one page at a time. Every pane shares the same zoom/pan
+ * state, so original and result stay aligned while zooming into a detail.
+ */
+export function CompareViewer({ pages, initialIndex, onClose }: Props) {
+  const { t } = useLocale();
+  const [index, setIndex] = useState(initialIndex);
+  const [mode, setMode] = useState<Mode>('swipe');
+  const [view, setView] = useState<View>(FIT);
+  const [swipe, setSwipe] = useState(0.5);
+  const [opacity, setOpacity] = useState(0.5);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [paneSize, setPaneSize] = useState<{ width: number; height: number } | null>(null);
+  // Heatmap per page index; null when it could not be computed.
+  const [diffs, setDiffs] = useState<Record<number, string | null>>({});
+  const paneRef = useRef<HTMLDivElement | null>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const panRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+  const page = pages[index];
+
+  const goTo = useCallback((next: number) => {
+    if (next < 0 || next >= pages.length) return;
+    setIndex(next);
+    setView(FIT);
+  }, [pages.length]);
+
+  const zoomBy = useCallback((factor: number, originX?: number, originY?: number) => {
+    setView(prev => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.zoom * factor));
+      if (zoom === MIN_ZOOM) return FIT;
+      const rect = paneRef.current?.getBoundingClientRect();
+      // Keep the point under the cursor (or the pane center) fixed while zooming.
+      const ox = originX ?? (rect ? rect.width / 2 : 0);
+      const oy = originY ?? (rect ? rect.height / 2 : 0);
+      const ratio = zoom / prev.zoom;
+      return { zoom, x: ox - (ox - prev.x) * ratio, y: oy - (oy - prev.y) * ratio };
+    });
+  }, []);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setImageSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = page.source;
+  }, [page.source]);
+
+  // All panes share one size, so only the first one is measured.
+  const attachPane = useCallback((node: HTMLDivElement | null) => {
+    observerRef.current?.disconnect();
+    paneRef.current = node;
+    if (!node) return;
+    observerRef.current = new ResizeObserver(([entry]) => {
+      setPaneSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observerRef.current.observe(node);
+  }, []);
+
+  useEffect(() => {
+    if (mode !== 'diff' || !page.result || index in diffs) return;
+    let cancelled = false;
+    renderDifference(page.source, page.result)
+      .then((diff) => {
+        if (!cancelled) setDiffs(prev => ({ ...prev, [index]: diff }));
+      })
+      .catch((err) => {
+        console.error('Failed to compute differences:', err);
+        if (!cancelled) setDiffs(prev => ({ ...prev, [index]: null }));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, index, page.source, page.result, diffs]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft' || e.key === 'PageUp') goTo(index - 1);
+      else if (e.key === 'ArrowRight' || e.key === 'PageDown') goTo(index + 1);
+      else if (e.key === '+' || e.key === '=') zoomBy(1.25);
+      else if (e.key === '-') zoomBy(0.8);
+      else if (e.key === '0') setView(FIT);
+      else if (e.key >= '1' && e.key <= '4') setMode(MODES[Number(e.key) - 1]);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [index, goTo, zoomBy, onClose]);
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    zoomBy(e.deltaY < 0 ? 1.15 : 1 / 1.15, e.clientX - rect.left, e.clientY - rect.top);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panRef.current = { pointerX: e.clientX, pointerY: e.clientY, x: view.x, y: view.y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pan = panRef.current;
+    if (!pan || view.zoom === MIN_ZOOM) return;
+    setView({ zoom: view.zoom, x: pan.x + e.clientX - pan.pointerX, y: pan.y + e.clientY - pan.pointerY });
+  };
+
+  const handlePointerUp = () => {
+    panRef.current = null;
+  };
+
+  const handleSwipeDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    if (e.type !== 'pointerdown' && !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const stage = e.currentTarget.parentElement!.getBoundingClientRect();
+    setSwipe(Math.min(1, Math.max(0, (e.clientX - stage.left) / stage.width)));
+  };
+
+  const stage = paneSize && imageSize ? fitStage(paneSize, imageSize) : null;
+
+  const renderPane = (layers: React.ReactNode, label?: string, measured = true) => (
+    <div
+      ref={measured ? attachPane : undefined}
+      className={`relative flex-1 overflow-hidden touch-none ${view.zoom > MIN_ZOOM ? 'cursor-grab active:cursor-grabbing' : ''}`}
+      onWheel={handleWheel}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => setView(FIT)}
+    >
+      {stage && (
+        <div
+          className="absolute"
+          style={{
+            left: stage.left,
+            top: stage.top,
+            width: stage.width,
+            height: stage.height,
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+            transformOrigin: `${-stage.left}px ${-stage.top}px`,
+          }}
+        >
+          {layers}
+        </div>
+      )}
+      {label && (
+        <span className="absolute top-3 left-3 bg-black/60 text-white text-xs px-2 py-1 rounded-md pointer-events-none">{label}</span>
+      )}
+    </div>
+  );
+
+  const layer = (src: string, alt: string, style?: React.CSSProperties) => (
+    <img src={src} alt={alt} draggable={false} className="absolute inset-0 w-full h-full bg-white select-none" style={style} />
+  );
+
+  const result = page.result;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-zinc-900 flex flex-col text-white">
+      <div className="flex flex-wrap items-center gap-3 px-4 py-3 border-b border-white/10">
+        <div className="flex items-center gap-1">
+          <button onClick={() => goTo(index - 1)} disabled={index === 0} className="p-1.5 rounded-md hover:bg-white/10 disabled:opacity-30" title={t('compare.previous')}>
+            <ChevronLeft size={18} />
+          </button>
+          <span className="text-sm tabular-nums min-w-20 text-center">{t('common.pageOf', { page: index + 1, count: pages.length })}</span>
+          <button onClick={() => goTo(index + 1)} disabled={index === pages.length - 1} className="p-1.5 rounded-md hover:bg-white/10 disabled:opacity-30" title={t('compare.next')}>
+            <ChevronRight size={18} />
+          </button>
+        </div>
+        <div className="flex bg-white/10 p-1 rounded-lg">
+          {MODES.map((value, i) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              disabled={!result && value !== 'side'}
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-all disabled:opacity-30 ${
+                mode === value ? 'bg-white text-zinc-900 shadow-sm' : 'text-white/70 hover:text-white'
+              }`}
+              title={`${t(`compare.${value}`)} (${i + 1})`}
+            >
+              {t(`compare.${value}`)}
+            </button>
+          ))}
+        </div>
+        {mode === 'overlay' && (
+          <label className="flex items-center gap-2 text-xs text-white/70">
+            {t('common.original')}
+            <input type="range" min={0} max={1} step={0.01} value={opacity} onChange={(e) => setOpacity(Number(e.target.value))} />
+            {t('common.result')}
+          </label>
+        )}
+        <div className="flex items-center gap-1 ml-auto">
+          <button onClick={() => zoomBy(0.8)} className="p-1.5 rounded-md hover:bg-white/10" title={t('compare.zoomOut')}>
+            <ZoomOut size={16} />
+          </button>
+          <span className="text-xs tabular-nums w-12 text-center">{Math.round(view.zoom * 100)}%</span>
+          <button onClick={() => zoomBy(1.25)} className="p-1.5 rounded-md hover:bg-white/10" title={t('compare.zoomIn')}>
+            <ZoomIn size={16} />
+          </button>
+          <button onClick={() => setView(FIT)} className="p-1.5 rounded-md hover:bg-white/10" title={t('compare.fit')}>
+            <Maximize size={16} />
+          </button>
+          <button onClick={onClose} className="p-1.5 rounded-md hover:bg-white/10 ml-2" title={t('compare.close')}>
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex gap-px bg-white/10 min-h-0">
+        {(mode === 'side' || !result) ? (
+          <>
+            {renderPane(layer(page.source, t('common.original')), t('common.original'))}
+            {result && renderPane(layer(result, t('common.result')), t('common.result'), false)}
+          </>
+        ) : mode === 'swipe' ? (
+          renderPane(
+            <>
+              {layer(page.source, t('common.original'))}
+              {layer(result, t('common.result'), { clipPath: `inset(0 0 0 ${swipe * 100}%)` })}
+              <div
+                className="absolute top-0 bottom-0 w-6 -ml-3 cursor-ew-resize flex justify-center"
+                style={{ left: `${swipe * 100}%` }}
+                onPointerDown={handleSwipeDrag}
+                onPointerMove={handleSwipeDrag}
+              >
+                <div className="w-0.5 h-full bg-indigo-500 shadow" style={{ transform: `scaleX(${1 / view.zoom})` }} />
+              </div>
+            </>,
+            t('compare.swipeCaption'),
+          )
+        ) : mode === 'overlay' ? (
+          renderPane(
+            <>
+              {layer(page.source, t('common.original'))}
+              {layer(result, t('common.result'), { opacity })}
+            </>,
+          )
+        ) : diffs[index] ? (
+          renderPane(layer(diffs[index], t('compare.diff')), t('compare.diffCaption'))
+        ) : diffs[index] === null ? (
+          <div className="flex-1 flex items-center justify-center gap-2 text-red-300 text-sm">
+            <AlertTriangle size={18} />
+            {t('compare.diffFailed')}
+          </div>
+        ) : (
+          <div className="flex-1 flex items-center justify-center gap-2 text-white/60 text-sm">
+            <Loader2 size={18} className="animate-spin" />
+            {t('compare.computing')}
+          </div>
+        )}
+      </div>
+
+      <div className="px-4 py-2 text-[11px] text-white/40 border-t border-white/10">
+        {t('compare.help')}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, X, RotateCcw } from 'lucide-react';
+import type { Crop } from '../core/pages.ts';
+import { useLocale } from '../lib/i18n.ts';
+
+interface Props {
+  image: string;
+  pageLabel: string;
+  onApply: (crop: Crop) => void;
+  onClose: () => void;
+}
+
+interface Box {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+const FULL: Box = { x0: 0, y0: 0, x1: 1, y1: 1 };
+/** Boxes narrower than this share of the page are treated as a stray click. */
+const MIN_SIZE = 0.05;
+
+export function CropEditor({ image, pageLabel, onApply, onClose }: Props) {
+  const { t } = useLocale();
+  const [box, setBox] = useState<Box>(FULL);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const toFraction = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = toFraction(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragRef.current;
+    if (!start) return;
+    const { x, y } = toFraction(e);
+    setBox({ x0: Math.min(start.x, x), y0: Math.min(start.y, y), x1: Math.max(start.x, x), y1: Math.max(start.y, y) });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+    setBox(prev => (prev.x1 - prev.x0 < MIN_SIZE || prev.y1 - prev.y0 < MIN_SIZE ? FULL : prev));
+  };
+
+  const isFull = box.x0 === 0 && box.y0 === 0 && box.x1 === 1 && box.y1 === 1;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex flex-col">
+      <div className="bg-white border-b border-zinc-200 px-4 py-3 flex flex-wrap items-center gap-3">
+        <span className="text-sm font-semibold">{t('crop.title', { page: pageLabel })}</span>
+        <button
+          onClick={() => setBox(FULL)}
+          className="text-xs text-zinc-500 hover:text-zinc-800 flex items-center gap-1 transition-colors"
+        >
+          <RotateCcw size={12} />
+          {t('common.reset')}
+        </button>
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={() => onApply({ left: box.x0, top: box.y0, right: 1 - box.x1, bottom: 1 - box.y1 })}
+            disabled={isFull}
+            className="text-xs font-medium flex items-center gap-1 px-3 py-1.5 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            <Check size={12} />
+            {t('crop.apply')}
+          </button>
+          <button onClick={onClose} className="p-1.5 text-zinc-500 hover:text-zinc-800 transition-colors" title={t('common.close')}>
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-white/70 px-4 py-2">{t('crop.help')}</p>
+      <div className="flex-1 overflow-auto flex items-start justify-center p-4">
+        <div
+          className="relative shadow-lg overflow-hidden touch-none cursor-crosshair"
+          style={{ width: 'min(100%, 900px)' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <img src={image} alt={pageLabel} className="w-full h-auto block bg-white select-none" draggable={false} />
+          {!isFull && (
+            <div
+              className="absolute border-2 border-indigo-500 pointer-events-none"
+              style={{
+                left: `${box.x0 * 100}%`,
+                top: `${box.y0 * 100}%`,
+                width: `${(box.x1 - box.x0) * 100}%`,
+                height: `${(box.y1 - box.y0) * 100}%`,
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)',
+              }}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import React from 'react';
+import { FileText, Image as ImageIcon, Loader2, X } from 'lucide-react';
+import type { PageState, PageStatus } from '../core/types.ts';
+import { documentStatus, type BatchDocument } from '../core/batch.ts';
+import { useLocale } from '../lib/i18n.ts';
+
+interface Props {
+  documents: BatchDocument[];
+  /** Page states split per document; empty lists before the first run. */
+  states: PageState[][];
+  /** Pages with a result, per document. */
+  doneCounts: number[];
+  onSelect: (index: number) => void;
+  onRemove: (index: number) => void;
+  disabled?: boolean;
+}
+
+const STATUS_STYLES: Record<PageStatus, string> = {
+  pending: 'bg-zinc-100 text-zinc-500',
+  running: 'bg-indigo-50 text-indigo-600',
+  done: 'bg-emerald-50 text-emerald-700',
+  failed: 'bg-red-50 text-red-600',
+  skipped: 'bg-zinc-100 text-zinc-500',
+};
+
+export function DocumentQueue({ documents, states, doneCounts, onSelect, onRemove, disabled }: Props) {
+  const { t } = useLocale();
+  return (
+    <ul className="max-h-48 overflow-y-auto bg-white border border-zinc-200 rounded-xl divide-y divide-zinc-100 text-xs">
+      {documents.map((doc, i) => {
+        const status = documentStatus(states[i] ?? []);
+        return (
+          <li key={doc.id} className="flex items-center gap-2 px-3 py-2">
+            {doc.mimeType === 'application/pdf'
+              ? <FileText size={14} className="text-zinc-400 shrink-0" />
+              : <ImageIcon size={14} className="text-zinc-400 shrink-0" />}
+            <button onClick={() => onSelect(i)} className="truncate text-left text-zinc-700 hover:text-indigo-600" title={doc.name}>
+              {doc.name}
+            </button>
+            <span className="ml-auto shrink-0 tabular-nums text-zinc-400">{t('queue.pages', { done: doneCounts[i], count: doc.pageCount })}</span>
+            <span className={`shrink-0 px-1.5 py-0.5 rounded flex items-center gap-1 ${STATUS_STYLES[status]}`}>
+              {status === 'running' && <Loader2 size={10} className="animate-spin" />}
+              {t(`queue.${status}`)}
+            </span>
+            <button
+              onClick={() => onRemove(i)}
+              disabled={disabled}
+              className="shrink-0 text-zinc-400 hover:text-red-600 disabled:opacity-30"
+              title={t('queue.remove')}
+            >
+              <X size={12} />
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
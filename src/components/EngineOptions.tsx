@@ -0,0 +1,96 @@
+import React from 'react';
+import type { EngineMode } from '../core/types.ts';
+import { usesLocal } from '../core/types.ts';
+import type { InkColor, LocalOptions } from '../core/localEngine.ts';
+import { t, useLocale } from '../lib/i18n.ts';
+
+interface Props {
+  mode: EngineMode;
+  onModeChange: (mode: EngineMode) => void;
+  local: LocalOptions;
+  onLocalChange: (options: LocalOptions) => void;
+  disabled?: boolean;
+}
+
+const MODES: EngineMode[] = ['ai', 'local', 'local-ai', 'ai-local'];
+
+export const engineLabel = (mode: EngineMode) => t(`engine.${mode}`);
+
+const INK_COLORS: { value: InkColor; swatch: string }[] = [
+  { value: 'red', swatch: 'bg-red-500' },
+  { value: 'blue', swatch: 'bg-blue-500' },
+  { value: 'green', swatch: 'bg-green-500' },
+];
+
+export function EngineOptions({ mode, onModeChange, local, onLocalChange, disabled }: Props) {
+  useLocale();
+  const toggleInk = (color: InkColor) => {
+    const inkColors = local.inkColors.includes(color)
+      ? local.inkColors.filter(c => c !== color)
+      : [...local.inkColors, color];
+    onLocalChange({ ...local, inkColors });
+  };
+
+  return (
+    <fieldset disabled={disabled} className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-zinc-500">{t('engine.label')}</span>
+        <div className="flex bg-zinc-100 p-1 rounded-lg">
+          {MODES.map(value => (
+            <button
+              key={value}
+              onClick={() => onModeChange(value)}
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
+                mode === value ? 'bg-white text-indigo-600 shadow-sm' : 'text-zinc-500 hover:text-zinc-700'
+              }`}
+            >
+              {engineLabel(value)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {usesLocal(mode) && (
+        <div className="flex flex-wrap items-center gap-x-5 gap-y-2 text-xs text-zinc-600 bg-zinc-50 border border-zinc-200 rounded-lg p-3">
+          <div className="flex items-center gap-2">
+            <span className="text-zinc-500">{t('engine.inkColors')}</span>
+            {INK_COLORS.map(({ value, swatch }) => (
+              <label key={value} className="flex items-center gap-1 cursor-pointer capitalize">
+                <input type="checkbox" checked={local.inkColors.includes(value)} onChange={() => toggleInk(value)} />
+                <span className={`w-2.5 h-2.5 rounded-full ${swatch}`} />
+                {t(`color.${value}`)}
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center gap-2">
+            <span className="text-zinc-500">{t('engine.hueTolerance')}</span>
+            <input
+              type="range"
+              min={5}
+              max={60}
+              value={local.hueTolerance}
+              onChange={(e) => onLocalChange({ ...local, hueTolerance: Number(e.target.value) })}
+            />
+            <span className="w-8 tabular-nums">{local.hueTolerance}°</span>
+          </label>
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={local.flattenShadows}
+              onChange={(e) => onLocalChange({ ...local, flattenShadows: e.target.checked })}
+            />
+            {t('engine.flattenShadows')}
+          </label>
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={local.whitenBackground}
+              onChange={(e) => onLocalChange({ ...local, whitenBackground: e.target.checked })}
+            />
+            {t('engine.whitenBackground')}
+          </label>
+        </div>
+      )}
+    </fieldset>
+  );
+}
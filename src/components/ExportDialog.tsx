@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { X, Download, Loader2 } from 'lucide-react';
+import type { ColorMode, ExportOptions } from '../core/types.ts';
+import { useLocale } from '../lib/i18n.ts';
+
+interface Props {
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+  /** Several documents are queued, so a ZIP with one file per input is offered. */
+  batch: boolean;
+  /** Some document was uploaded as a PDF, so it can be patched instead of rebuilt. */
+  hasOriginalPdf: boolean;
+  busy: boolean;
+  onExport: (perDocument: boolean) => void;
+  onClose: () => void;
+}
+
+const COLOR_MODES: ColorMode[] = ['color', 'grayscale', 'bw'];
+
+function Segmented<T extends string>({ value, options, onChange }: { value: T; options: { value: T; label: string }[]; onChange: (value: T) => void }) {
+  return (
+    <div className="flex bg-zinc-100 p-1 rounded-lg">
+      {options.map(option => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
+            value === option.value ? 'bg-white text-indigo-600 shadow-sm' : 'text-zinc-500 hover:text-zinc-700'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function ExportDialog({ options, onChange, batch, hasOriginalPdf, busy, onExport, onClose }: Props) {
+  const { t } = useLocale();
+  const [perDocument, setPerDocument] = useState(batch);
+  const set = <K extends keyof ExportOptions>(key: K, value: ExportOptions[K]) => onChange({ ...options, [key]: value });
+  // Without an uploaded PDF, `original` exports behave like `pdf`.
+  const format = options.format === 'original' && !hasOriginalPdf ? 'pdf' : options.format;
+  const isOriginal = format === 'original';
+
+  const row = (label: string, control: React.ReactNode) => (
+    <div className="flex items-center justify-between gap-4">
+      <span className="text-zinc-500">{label}</span>
+      {control}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/30 p-4" onClick={onClose}>
+      <div className="w-full max-w-sm bg-white rounded-2xl shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="px-5 py-4 border-b border-zinc-200 flex items-center justify-between">
+          <h2 className="text-base font-semibold">{t('export.title')}</h2>
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-800 transition-colors" title={t('common.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <fieldset disabled={busy} className="p-5 flex flex-col gap-4 text-sm">
+          {batch && row(t('export.output'), (
+            <Segmented
+              value={perDocument ? 'zip' : 'merged'}
+              options={[{ value: 'zip', label: t('export.perDocument') }, { value: 'merged', label: t('export.merged') }]}
+              onChange={(v) => setPerDocument(v === 'zip')}
+            />
+          ))}
+          {row(t('export.format'), (
+            <Segmented
+              value={format}
+              options={[
+                ...(hasOriginalPdf ? [{ value: 'original' as const, label: t('export.originalPdf') }] : []),
+                { value: 'pdf' as const, label: 'PDF' },
+                { value: 'image' as const, label: t('export.image') },
+              ]}
+              onChange={(v) => set('format', v)}
+            />
+          ))}
+          {!isOriginal && row(t('export.encoding'), (
+            <Segmented
+              value={options.imageType}
+              options={[{ value: 'png', label: t('export.png') }, { value: 'jpeg', label: t('export.jpeg') }]}
+              onChange={(v) => set('imageType', v)}
+            />
+          ))}
+          {!isOriginal && options.imageType === 'jpeg' && row(t('export.quality'), (
+            <label className="flex items-center gap-2">
+              <input
+                type="range"
+                min={0.3}
+                max={1}
+                step={0.05}
+                value={options.quality}
+                onChange={(e) => set('quality', Number(e.target.value))}
+              />
+              <span className="w-10 text-right tabular-nums text-xs">{Math.round(options.quality * 100)}%</span>
+            </label>
+          ))}
+          {!isOriginal && row(t('export.colorMode'), (
+            <Segmented
+              value={options.color}
+              options={COLOR_MODES.map(mode => ({ value: mode, label: t(`export.${mode}`) }))}
+              onChange={(v) => set('color', v)}
+            />
+          ))}
+          {format === 'pdf' && (
+            <>
+              {row(t('export.margin'), (
+                <label className="flex items-center gap-2 text-xs">
+                  <input
+                    type="number"
+                    min={0}
+                    max={50}
+                    value={options.marginMm}
+                    onChange={(e) => set('marginMm', Math.min(50, Math.max(0, Number(e.target.value) || 0)))}
+                    className="w-16 px-2 py-1 rounded-md border border-zinc-300 outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  {t('export.mm')}
+                </label>
+              ))}
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={options.twoUp} onChange={(e) => set('twoUp', e.target.checked)} />
+                {t('export.twoUp')}
+              </label>
+            </>
+          )}
+          <label className="flex items-center gap-2 cursor-pointer" title={t('export.answersHint')}>
+            <input type="checkbox" checked={options.answers} onChange={(e) => set('answers', e.target.checked)} />
+            {t('export.answers')}
+          </label>
+          <p className="text-xs text-zinc-400">
+            {isOriginal
+              ? t('export.originalHelp')
+              : format === 'pdf'
+              ? t('export.pdfHelp')
+              : t('export.imageHelp')}
+          </p>
+        </fieldset>
+
+        <div className="px-5 py-4 border-t border-zinc-200 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm rounded-lg border border-zinc-300 text-zinc-700 hover:bg-zinc-50 transition-colors">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => onExport(batch && perDocument)}
+            disabled={busy}
+            className="px-4 py-2 text-sm rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 transition-colors flex items-center gap-2 disabled:opacity-60"
+          >
+            {busy ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            {t('export.title')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { X, FolderOpen, Download, RefreshCw, Trash2, Loader2, History } from 'lucide-react';
+import type { JobDetail, JobSummary } from '../core/history.ts';
+import { deleteJob, getJob, imageUrl, listJobs } from '../lib/history.ts';
+import { useLocale } from '../lib/i18n.ts';
+import { engineLabel } from './EngineOptions.tsx';
+
+interface Props {
+  onClose: () => void;
+  /** Loads the job into the workspace. */
+  onOpen: (job: JobDetail) => void;
+  onDownload: (job: JobDetail) => void;
+  /** Loads the job's pages and instruction so it can be re-run with a tweaked prompt. */
+  onRerun: (job: JobDetail) => void;
+}
+
+export function HistoryPanel({ onClose, onOpen, onDownload, onRerun }: Props) {
+  const { locale, t } = useLocale();
+  const [jobs, setJobs] = useState<JobSummary[] | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listJobs()
+      .then(setJobs)
+      .catch((err) => setError(t('history.loadFailed', { error: err.message })));
+  }, []);
+
+  const withJob = async (id: string, action: (job: JobDetail) => void) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      action(await getJob(id));
+    } catch (err: any) {
+      setError(err.message || t('history.actionFailed'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const remove = async (job: JobSummary) => {
+    if (!window.confirm(t('history.confirmDelete', { name: job.fileName }))) return;
+    setBusyId(job.id);
+    try {
+      await deleteJob(job.id);
+      setJobs(prev => prev?.filter(j => j.id !== job.id) ?? null);
+    } catch (err: any) {
+      setError(err.message || t('history.deleteFailed'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const actionButton = (icon: React.ReactNode, label: string, onClick: () => void, danger = false) => (
+    <button
+      onClick={onClick}
+      disabled={busyId !== null}
+      className={`text-xs flex items-center gap-1 px-2 py-1 rounded-md transition-colors disabled:opacity-50 ${
+        danger ? 'text-zinc-500 hover:text-red-600 hover:bg-red-50' : 'text-zinc-600 hover:text-indigo-600 hover:bg-indigo-50'
+      }`}
+    >
+      {icon}
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black/30" onClick={onClose}>
+      <aside className="w-full max-w-md h-full bg-white shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="h-16 px-5 border-b border-zinc-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <History size={18} className="text-zinc-400" />
+            {t('history.title')}
+          </h2>
+          <button onClick={onClose} className="p-1.5 text-zinc-500 hover:text-zinc-800 transition-colors" title={t('common.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {error && <p className="m-4 p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">{error}</p>}
+
+        <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-3">
+          {jobs === null && !error && (
+            <div className="py-12 flex justify-center text-zinc-400">
+              <Loader2 size={24} className="animate-spin" />
+            </div>
+          )}
+          {jobs?.length === 0 && <p className="py-12 text-center text-sm text-zinc-400">{t('history.empty')}</p>}
+          {jobs?.map(job => (
+            <div key={job.id} className="border border-zinc-200 rounded-xl p-3 flex gap-3">
+              <div className="w-16 h-20 shrink-0 bg-zinc-100 rounded-md overflow-hidden">
+                {job.thumbnailHash && (
+                  <img src={imageUrl(job.thumbnailHash)} alt="" className="w-full h-full object-cover object-top" />
+                )}
+              </div>
+              <div className="min-w-0 flex-1 flex flex-col gap-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate" title={job.fileName}>{job.fileName}</span>
+                  {busyId === job.id && <Loader2 size={12} className="animate-spin text-indigo-500 shrink-0" />}
+                </div>
+                <p className="text-xs text-zinc-500 truncate" title={job.instruction}>{job.instruction || t('history.noInstruction')}</p>
+                <p className="text-[11px] text-zinc-400">
+                  {new Date(job.createdAt).toLocaleString(locale)} · {engineLabel(job.engine)} · {t('history.pagesDone', { done: job.doneCount, count: job.pageCount })}
+                  {job.failedCount > 0 && <span className="text-red-500"> · {t('common.pagesFailed', { count: job.failedCount })}</span>}
+                </p>
+                <div className="flex flex-wrap gap-1 -ml-2">
+                  {actionButton(<FolderOpen size={12} />, t('history.open'), () => withJob(job.id, onOpen))}
+                  {job.doneCount > 0 && actionButton(<Download size={12} />, t('history.download'), () => withJob(job.id, onDownload))}
+                  {actionButton(<RefreshCw size={12} />, t('history.rerun'), () => withJob(job.id, onRerun))}
+                  {actionButton(<Trash2 size={12} />, t('common.delete'), () => remove(job), true)}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </aside>
+    </div>
+  );
+}
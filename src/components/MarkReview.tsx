@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, X, Loader2, ScanSearch } from 'lucide-react';
+import { MARK_CATEGORIES, type DetectedMark, type MarkBox, type MarkCategory } from '../core/detect.ts';
+import { detectMarks } from '../lib/api.ts';
+import { markLabel } from '../lib/detect.ts';
+import { useLocale } from '../lib/i18n.ts';
+
+interface Props {
+  image: string;
+  pageLabel: string;
+  /** Receives the approved boxes and the kinds of marks among them. */
+  onApply: (boxes: MarkBox[], categories: MarkCategory[]) => void;
+  onClose: () => void;
+}
+
+interface ReviewMark extends DetectedMark {
+  accepted: boolean;
+}
+
+interface Drag {
+  kind: 'move' | 'resize' | 'draw';
+  index: number;
+  start: { x: number; y: number };
+  origin: MarkBox;
+  moved: boolean;
+}
+
+const CATEGORY_STYLES: Record<MarkCategory, string> = {
+  handwriting: 'border-sky-500 bg-sky-500/15',
+  stamp: 'border-rose-500 bg-rose-500/15',
+  score: 'border-amber-500 bg-amber-500/15',
+  doodle: 'border-violet-500 bg-violet-500/15',
+};
+
+/** Marks the model is less sure of start out rejected. */
+const ACCEPT_CONFIDENCE = 0.5;
+/** Boxes smaller than this share of the page are treated as a stray click. */
+const MIN_SIZE = 0.01;
+
+const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, n));
+
+/**
+ * Shows the marks detected on a page as boxes to review before erasing: click a box
+ * to accept or reject it, drag to move it or its corner to resize it, and drag on
+ * the page to add a box the model missed.
+ */
+export function MarkReview({ image, pageLabel, onApply, onClose }: Props) {
+  const { t } = useLocale();
+  const [marks, setMarks] = useState<ReviewMark[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    detectMarks(image, controller.signal)
+      .then(found => setMarks(found.map(mark => ({ ...mark, accepted: mark.confidence >= ACCEPT_CONFIDENCE }))))
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError(err.message || t('marks.failed'));
+        setMarks([]);
+      });
+    return () => controller.abort();
+  }, [image]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const toFraction = (e: React.PointerEvent, container: Element) => {
+    const rect = container.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width, 0, 1), y: clamp((e.clientY - rect.top) / rect.height, 0, 1) };
+  };
+
+  const updateBox = (index: number, box: MarkBox) =>
+    setMarks(prev => prev && prev.map((mark, i) => (i === index ? { ...mark, box } : mark)));
+
+  const startDrag = (e: React.PointerEvent<HTMLDivElement>, kind: Drag['kind'], index: number) => {
+    if (!marks) return;
+    e.stopPropagation();
+    const container = e.currentTarget.closest('[data-review-page]')!;
+    container.setPointerCapture(e.pointerId);
+    const start = toFraction(e, container);
+    if (kind === 'draw') {
+      setMarks([...marks, { category: 'handwriting', confidence: 1, accepted: true, box: { ...start, width: 0, height: 0 } }]);
+    }
+    dragRef.current = { kind, index, start, origin: marks[index]?.box ?? { ...start, width: 0, height: 0 }, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const p = toFraction(e, e.currentTarget);
+    const dx = p.x - drag.start.x;
+    const dy = p.y - drag.start.y;
+    if (Math.abs(dx) > 0.003 || Math.abs(dy) > 0.003) drag.moved = true;
+    const { origin } = drag;
+    if (drag.kind === 'move') {
+      updateBox(drag.index, { ...origin, x: clamp(origin.x + dx, 0, 1 - origin.width), y: clamp(origin.y + dy, 0, 1 - origin.height) });
+    } else if (drag.kind === 'resize') {
+      updateBox(drag.index, {
+        ...origin,
+        width: clamp(origin.width + dx, MIN_SIZE, 1 - origin.x),
+        height: clamp(origin.height + dy, MIN_SIZE, 1 - origin.y),
+      });
+    } else {
+      updateBox(drag.index, {
+        x: Math.min(drag.start.x, p.x),
+        y: Math.min(drag.start.y, p.y),
+        width: Math.abs(dx),
+        height: Math.abs(dy),
+      });
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+    if (drag.kind === 'move' && !drag.moved) {
+      setMarks(prev => prev && prev.map((mark, i) => (i === drag.index ? { ...mark, accepted: !mark.accepted } : mark)));
+    } else if (drag.kind === 'draw') {
+      setMarks(prev => prev && prev.filter((mark, i) => i !== drag.index || (mark.box.width >= MIN_SIZE && mark.box.height >= MIN_SIZE)));
+    }
+  };
+
+  const toggleCategory = (category: MarkCategory) => {
+    setMarks(prev => {
+      if (!prev) return prev;
+      const accept = !prev.some(mark => mark.category === category && mark.accepted);
+      return prev.map(mark => (mark.category === category ? { ...mark, accepted: accept } : mark));
+    });
+  };
+
+  const accepted = marks?.filter(mark => mark.accepted) ?? [];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex flex-col">
+      <div className="bg-white border-b border-zinc-200 px-4 py-3 flex flex-wrap items-center gap-3">
+        <span className="text-sm font-semibold flex items-center gap-1.5">
+          <ScanSearch size={16} className="text-indigo-600" />
+          {t('marks.title', { page: pageLabel })}
+        </span>
+        {marks && MARK_CATEGORIES.map((category) => {
+          const count = marks.filter(mark => mark.category === category).length;
+          if (count === 0) return null;
+          const acceptedCount = marks.filter(mark => mark.category === category && mark.accepted).length;
+          return (
+            <button
+              key={category}
+              onClick={() => toggleCategory(category)}
+              className={`text-xs capitalize px-2 py-1 rounded-md border-2 transition-colors ${CATEGORY_STYLES[category]} ${acceptedCount ? '' : 'opacity-50'}`}
+              title={t('marks.toggleCategory')}
+            >
+              {markLabel(category)} {acceptedCount}/{count}
+            </button>
+          );
+        })}
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={() => onApply(accepted.map(mark => mark.box), [...new Set(accepted.map(mark => mark.category))])}
+            disabled={accepted.length === 0}
+            className="text-xs font-medium flex items-center gap-1 px-3 py-1.5 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            <Check size={12} />
+            {t('marks.apply', { count: accepted.length })}
+          </button>
+          <button onClick={onClose} className="p-1.5 text-zinc-500 hover:text-zinc-800 transition-colors" title={t('common.close')}>
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-white/70 px-4 py-2">
+        {error
+          ? t('marks.failedHelp', { error })
+          : marks && marks.length === 0
+          ? t('marks.noneHelp')
+          : t('marks.help')}
+      </p>
+      <div className="flex-1 overflow-auto flex items-start justify-center p-4">
+        <div
+          data-review-page
+          className="relative shadow-lg touch-none select-none cursor-crosshair"
+          style={{ width: 'min(100%, 900px)' }}
+          onPointerDown={(e) => startDrag(e, 'draw', marks?.length ?? 0)}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <img src={image} alt={pageLabel} className="w-full h-auto block bg-white" draggable={false} />
+          {marks?.map((mark, i) => (
+            <div
+              key={i}
+              onPointerDown={(e) => startDrag(e, 'move', i)}
+              className={`absolute border-2 cursor-move ${mark.accepted ? CATEGORY_STYLES[mark.category] : 'border-dashed border-zinc-400 bg-transparent'}`}
+              style={{
+                left: `${mark.box.x * 100}%`,
+                top: `${mark.box.y * 100}%`,
+                width: `${mark.box.width * 100}%`,
+                height: `${mark.box.height * 100}%`,
+              }}
+            >
+              <span className={`absolute -top-5 left-0 text-[10px] capitalize px-1 rounded whitespace-nowrap pointer-events-none ${
+                mark.accepted ? 'bg-white/90 text-zinc-700' : 'bg-zinc-200/80 text-zinc-400 line-through'
+              }`}>
+                {markLabel(mark.category)} {Math.round(mark.confidence * 100)}%
+              </span>
+              <div
+                onPointerDown={(e) => startDrag(e, 'resize', i)}
+                className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-white border-2 border-indigo-600 rounded-sm cursor-nwse-resize"
+              />
+            </div>
+          ))}
+          {!marks && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-white/50 text-sm text-zinc-600">
+              <Loader2 size={24} className="animate-spin text-indigo-600" />
+              {t('marks.detecting')}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
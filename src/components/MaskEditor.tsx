@@ -0,0 +1,214 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Brush, Square, Eraser, Trash2, Copy, X, Check } from 'lucide-react';
+import { createCanvas, loadImage } from '../lib/canvas.ts';
+import { useLocale } from '../lib/i18n.ts';
+import { isMaskEmpty } from '../lib/mask.ts';
+
+type Tool = 'brush' | 'rect' | 'eraser';
+
+interface Props {
+  image: string;
+  initialMask: string | null;
+  pageNumber: number;
+  pageCount: number;
+  /** `null` clears the page's mask. */
+  onSave: (mask: string | null) => void;
+  onApplyToAll: (mask: string | null) => void;
+  onClose: () => void;
+}
+
+const MASK_COLOR = 'rgb(239, 68, 68)';
+
+export function MaskEditor({ image, initialMask, pageNumber, pageCount, onSave, onApplyToAll, onClose }: Props) {
+  const { t } = useLocale();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<Tool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const dragRef = useRef<{ x: number; y: number; snapshot: ImageData } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(image).then((img) => {
+      if (!cancelled) setSize({ width: img.naturalWidth, height: img.naturalHeight });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
+
+  useEffect(() => {
+    if (!size || !initialMask) return;
+    let cancelled = false;
+    loadImage(initialMask).then((maskImg) => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (cancelled || !ctx) return;
+      // Saved masks are white; repaint them in the editor's tint.
+      ctx.drawImage(maskImg, 0, 0, size.width, size.height);
+      ctx.globalCompositeOperation = 'source-in';
+      ctx.fillStyle = MASK_COLOR;
+      ctx.fillRect(0, 0, size.width, size.height);
+      ctx.globalCompositeOperation = 'source-over';
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [size, initialMask]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+      scale: canvas.width / rect.width,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y, scale } = toCanvasPoint(e);
+    dragRef.current = { x, y, snapshot: ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height) };
+    if (tool !== 'rect') {
+      ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+      ctx.fillStyle = MASK_COLOR;
+      ctx.beginPath();
+      ctx.arc(x, y, (brushSize * scale) / 2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!drag || !ctx) return;
+    const { x, y, scale } = toCanvasPoint(e);
+
+    if (tool === 'rect') {
+      ctx.putImageData(drag.snapshot, 0, 0);
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.fillStyle = MASK_COLOR;
+      ctx.fillRect(Math.min(drag.x, x), Math.min(drag.y, y), Math.abs(x - drag.x), Math.abs(y - drag.y));
+      return;
+    }
+
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(drag.x, drag.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    dragRef.current = { ...drag, x, y };
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  // Exports the drawn region as a white-on-transparent PNG, or `null` when nothing is drawn.
+  const exportMask = async (): Promise<string | null> => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+    const [out, ctx] = createCanvas(canvas.width, canvas.height);
+    ctx.drawImage(canvas, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, out.width, out.height);
+    const mask = out.toDataURL('image/png');
+    return (await isMaskEmpty(mask)) ? null : mask;
+  };
+
+  const toolButton = (value: Tool, icon: React.ReactNode, label: string) => (
+    <button
+      onClick={() => setTool(value)}
+      className={`px-3 py-1.5 text-xs font-medium rounded-md flex items-center gap-1 transition-all ${
+        tool === value ? 'bg-white text-indigo-600 shadow-sm' : 'text-zinc-500 hover:text-zinc-700'
+      }`}
+    >
+      {icon}
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex flex-col">
+      <div className="bg-white border-b border-zinc-200 px-4 py-3 flex flex-wrap items-center gap-3">
+        <span className="text-sm font-semibold">{t('mask.title', { page: pageNumber })}</span>
+        <div className="flex bg-zinc-100 p-1 rounded-lg">
+          {toolButton('brush', <Brush size={12} />, t('mask.brush'))}
+          {toolButton('rect', <Square size={12} />, t('mask.rect'))}
+          {toolButton('eraser', <Eraser size={12} />, t('mask.eraser'))}
+        </div>
+        {tool !== 'rect' && (
+          <label className="flex items-center gap-2 text-xs text-zinc-500">
+            {t('mask.brushSize')}
+            <input type="range" min={5} max={200} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} />
+          </label>
+        )}
+        <button onClick={clearMask} className="text-xs text-zinc-500 hover:text-red-600 flex items-center gap-1 transition-colors">
+          <Trash2 size={12} />
+          {t('mask.clear')}
+        </button>
+        <div className="ml-auto flex items-center gap-2">
+          {pageCount > 1 && (
+            <button
+              onClick={async () => onApplyToAll(await exportMask())}
+              className="text-xs font-medium flex items-center gap-1 px-3 py-1.5 rounded-md border border-zinc-200 text-zinc-700 hover:border-indigo-300 hover:text-indigo-600 transition-colors"
+            >
+              <Copy size={12} />
+              {t('mask.applyToAll', { count: pageCount })}
+            </button>
+          )}
+          <button
+            onClick={async () => onSave(await exportMask())}
+            className="text-xs font-medium flex items-center gap-1 px-3 py-1.5 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 transition-colors"
+          >
+            <Check size={12} />
+            {t('common.save')}
+          </button>
+          <button onClick={onClose} className="p-1.5 text-zinc-500 hover:text-zinc-800 transition-colors" title={t('common.close')}>
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-white/70 px-4 py-2">
+        {t('mask.help')}
+      </p>
+      <div className="flex-1 overflow-auto flex items-start justify-center p-4">
+        {size && (
+          <div className="relative shadow-lg" style={{ width: 'min(100%, 900px)' }}>
+            <img src={image} alt={t('common.page', { page: pageNumber })} className="w-full h-auto block bg-white select-none" draggable={false} />
+            <canvas
+              ref={canvasRef}
+              width={size.width}
+              height={size.height}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className="absolute inset-0 w-full h-full opacity-45 touch-none cursor-crosshair"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
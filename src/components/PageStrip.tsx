@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { RotateCcw, RotateCw, Crop, ScanLine, Trash2 } from 'lucide-react';
+import { formatPageRange, parsePageRange, type QuarterTurn } from '../core/pages.ts';
+import { useLocale } from '../lib/i18n.ts';
+
+interface Props {
+  /** Document name, shown when several documents are queued. */
+  title?: string;
+  pages: string[];
+  selected: boolean[];
+  onSelectionChange: (selected: boolean[]) => void;
+  onMove: (from: number, to: number) => void;
+  onRotate: (page: number, turn: QuarterTurn) => void;
+  onCrop: (page: number) => void;
+  /** Perspective correction; only offered for photos. */
+  onFlatten?: (page: number) => void;
+  onDelete: (page: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Thumbnails of one document's pages for choosing what gets processed: tick pages or
+ * type a range, drag to reorder, and turn, crop, flatten or delete single pages.
+ */
+export function PageStrip({ title, pages, selected, onSelectionChange, onMove, onRotate, onCrop, onFlatten, onDelete, disabled }: Props) {
+  const { t } = useLocale();
+  const [range, setRange] = useState('');
+  const [rangeError, setRangeError] = useState(false);
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+  const [dropAt, setDropAt] = useState<number | null>(null);
+
+  const selectedCount = selected.filter(Boolean).length;
+  const current = formatPageRange(selected.flatMap((s, i) => (s ? [i] : [])));
+
+  const applyRange = () => {
+    if (!range.trim()) return;
+    const indices = parsePageRange(range, pages.length);
+    setRangeError(!indices);
+    if (!indices) return;
+    onSelectionChange(pages.map((_, i) => indices.includes(i)));
+    setRange('');
+  };
+
+  const drop = (to: number) => {
+    if (dragFrom !== null) onMove(dragFrom, to);
+    setDragFrom(null);
+    setDropAt(null);
+  };
+
+  const tool = (icon: React.ReactNode, label: string, onClick: () => void) => (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className="p-1 rounded bg-white/90 text-zinc-600 hover:text-indigo-600 shadow-sm disabled:opacity-50"
+      title={label}
+    >
+      {icon}
+    </button>
+  );
+
+  return (
+    <div className="bg-white border border-zinc-200 rounded-xl p-3 flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-500">
+        {title && <span className="font-medium text-zinc-700 truncate max-w-[12rem]" title={title}>{title}</span>}
+        <span>{t('strip.selected', { selected: selectedCount, count: pages.length })}</span>
+        <input
+          value={range}
+          onChange={(e) => {
+            setRange(e.target.value);
+            setRangeError(false);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && applyRange()}
+          onBlur={applyRange}
+          disabled={disabled}
+          placeholder={current || t('strip.rangePlaceholder')}
+          className={`w-28 px-2 py-1 rounded-md border outline-none focus:ring-2 focus:ring-indigo-500 ${
+            rangeError ? 'border-red-400' : 'border-zinc-300'
+          }`}
+          title={t('strip.rangeHint')}
+        />
+        <button
+          onClick={() => onSelectionChange(pages.map(() => selectedCount < pages.length))}
+          disabled={disabled}
+          className="hover:text-indigo-600 disabled:opacity-50"
+        >
+          {selectedCount < pages.length ? t('strip.selectAll') : t('strip.selectNone')}
+        </button>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {pages.map((page, i) => (
+          <div
+            key={i}
+            draggable={!disabled}
+            onDragStart={() => setDragFrom(i)}
+            onDragOver={(e) => {
+              if (dragFrom === null) return;
+              e.preventDefault();
+              setDropAt(i);
+            }}
+            onDragLeave={() => setDropAt(prev => (prev === i ? null : prev))}
+            onDrop={() => drop(i)}
+            onDragEnd={() => {
+              setDragFrom(null);
+              setDropAt(null);
+            }}
+            className={`relative shrink-0 group rounded-md border-2 transition-colors ${
+              dropAt === i && dragFrom !== i ? 'border-indigo-500' : selected[i] ? 'border-indigo-200' : 'border-transparent'
+            } ${dragFrom === i ? 'opacity-40' : ''}`}
+          >
+            <img
+              src={page}
+              alt={t('common.page', { page: i + 1 })}
+              loading="lazy"
+              decoding="async"
+              draggable={false}
+              onClick={() => !disabled && onSelectionChange(selected.map((s, j) => (j === i ? !s : s)))}
+              className={`h-28 w-auto bg-white rounded cursor-pointer ${selected[i] ? '' : 'opacity-40 grayscale'}`}
+            />
+            <span className="absolute bottom-1 left-1 bg-black/60 text-white text-[10px] px-1.5 rounded pointer-events-none">
+              {i + 1}
+            </span>
+            <input
+              type="checkbox"
+              checked={selected[i] ?? false}
+              disabled={disabled}
+              onChange={() => onSelectionChange(selected.map((s, j) => (j === i ? !s : s)))}
+              className="absolute top-1 left-1"
+            />
+            <div className="absolute top-1 right-1 flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              {tool(<RotateCcw size={12} />, t('strip.rotateLeft'), () => onRotate(i, 270))}
+              {tool(<RotateCw size={12} />, t('strip.rotateRight'), () => onRotate(i, 90))}
+              {tool(<Crop size={12} />, t('strip.crop'), () => onCrop(i))}
+              {onFlatten && tool(<ScanLine size={12} />, t('strip.flatten'), () => onFlatten(i))}
+              {tool(<Trash2 size={12} />, t('strip.delete'), () => onDelete(i))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-[11px] text-zinc-400">{t('strip.help')}</p>
+    </div>
+  );
+}
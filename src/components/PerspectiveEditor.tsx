@@ -0,0 +1,164 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, X, Loader2, ScanLine, Maximize } from 'lucide-react';
+import { PAPER_SIZES, type PaperSize, type Quad } from '../core/perspective.ts';
+import { findPaper, type FlattenOptions } from '../lib/perspective.ts';
+import { useLocale } from '../lib/i18n.ts';
+
+interface Props {
+  image: string;
+  pageLabel: string;
+  defaults: FlattenOptions;
+  /** Corners are fractions of the photo's size. */
+  onApply: (quad: Quad, options: FlattenOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const WHOLE_IMAGE: Quad = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+export function PerspectiveEditor({ image, pageLabel, defaults, onApply, onClose }: Props) {
+  const { t } = useLocale();
+  const [quad, setQuad] = useState<Quad>(WHOLE_IMAGE);
+  const [detecting, setDetecting] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [options, setOptions] = useState(defaults);
+  const [applying, setApplying] = useState(false);
+  const dragRef = useRef<number | null>(null);
+
+  const detect = () => {
+    setDetecting(true);
+    findPaper(image)
+      .catch(() => null)
+      .then((found) => {
+        setNotFound(!found);
+        setQuad(found ?? WHOLE_IMAGE);
+      })
+      .finally(() => setDetecting(false));
+  };
+
+  useEffect(detect, [image]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const corner = dragRef.current;
+    if (corner === null) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    setQuad(prev => prev.map((p, i) => (i === corner ? { x, y } : p)) as Quad);
+  };
+
+  const apply = async () => {
+    setApplying(true);
+    try {
+      await onApply(quad, options);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const points = quad.map(({ x, y }) => `${x * 100},${y * 100}`).join(' ');
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex flex-col">
+      <div className="bg-white border-b border-zinc-200 px-4 py-3 flex flex-wrap items-center gap-3">
+        <span className="text-sm font-semibold">{t('perspective.title', { page: pageLabel })}</span>
+        <button
+          onClick={detect}
+          disabled={detecting || applying}
+          className="text-xs text-zinc-500 hover:text-zinc-800 flex items-center gap-1 transition-colors disabled:opacity-50"
+        >
+          <ScanLine size={12} />
+          {t('perspective.detect')}
+        </button>
+        <button
+          onClick={() => setQuad(WHOLE_IMAGE)}
+          disabled={applying}
+          className="text-xs text-zinc-500 hover:text-zinc-800 flex items-center gap-1 transition-colors disabled:opacity-50"
+        >
+          <Maximize size={12} />
+          {t('perspective.wholeImage')}
+        </button>
+        <label className="text-xs text-zinc-600 flex items-center gap-1">
+          {t('perspective.paper')}
+          <select
+            value={options.paper}
+            onChange={(e) => setOptions({ ...options, paper: e.target.value as PaperSize })}
+            disabled={applying}
+            className="px-1.5 py-1 rounded-md border border-zinc-300 outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="auto">{t('perspective.detectedRatio')}</option>
+            {(Object.keys(PAPER_SIZES) as (keyof typeof PAPER_SIZES)[]).map(key => (
+              <option key={key} value={key}>{t(`paper.${key}`)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-zinc-600 flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={options.deskew}
+            onChange={(e) => setOptions({ ...options, deskew: e.target.checked })}
+            disabled={applying}
+          />
+          {t('perspective.deskew')}
+        </label>
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={apply}
+            disabled={detecting || applying}
+            className="text-xs font-medium flex items-center gap-1 px-3 py-1.5 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            {applying ? <Loader2 size={12} className="animate-spin" /> : <Check size={12} />}
+            {t('perspective.apply')}
+          </button>
+          <button onClick={onClose} className="p-1.5 text-zinc-500 hover:text-zinc-800 transition-colors" title={t('common.close')}>
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-white/70 px-4 py-2">
+        {notFound ? t('perspective.notFound') : t('perspective.help')}
+      </p>
+      <div className="flex-1 overflow-auto flex items-start justify-center p-4">
+        <div
+          className="relative shadow-lg touch-none select-none"
+          style={{ width: 'min(100%, 900px)' }}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => (dragRef.current = null)}
+          onPointerCancel={() => (dragRef.current = null)}
+        >
+          <img src={image} alt={pageLabel} className="w-full h-auto block bg-white" draggable={false} />
+          {!detecting && (
+            <>
+              <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+                <polygon points={points} fill="rgba(99, 102, 241, 0.15)" stroke="rgb(99, 102, 241)" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+              </svg>
+              {quad.map((p, i) => (
+                <div
+                  key={i}
+                  onPointerDown={(e) => {
+                    e.currentTarget.parentElement?.setPointerCapture(e.pointerId);
+                    dragRef.current = i;
+                  }}
+                  className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full bg-white border-2 border-indigo-600 shadow cursor-move"
+                  style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+                />
+              ))}
+            </>
+          )}
+          {detecting && (
+            <div className="absolute inset-0 flex items-center justify-center bg-white/40">
+              <Loader2 size={24} className="animate-spin text-indigo-600" />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
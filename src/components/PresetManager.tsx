@@ -0,0 +1,246 @@
+import React, { useRef, useState } from 'react';
+import { X, Plus, Pencil, Trash2, Star, Upload, Download, Play } from 'lucide-react';
+import { DEFAULT_TEMPLATE, INSTRUCTION_PLACEHOLDER } from '../core/prompt.ts';
+import {
+  composeInstruction,
+  DEFAULT_PROMPT_OPTIONS,
+  exportPresets,
+  mergePresets,
+  parsePresets,
+  type PromptOptions,
+  type PromptPreset,
+} from '../lib/presets.ts';
+import { downloadFile } from '../lib/export.ts';
+import { useLocale } from '../lib/i18n.ts';
+import { PromptBuilder } from './PromptBuilder.tsx';
+
+interface Props {
+  presets: PromptPreset[];
+  onChange: (presets: PromptPreset[]) => void;
+  onUse: (preset: PromptPreset) => void;
+  /** What the form holds now, offered as the starting point for a new preset. */
+  current: { instruction: string; template: string; builder?: PromptOptions };
+  onClose: () => void;
+}
+
+const parseTags = (text: string) => [...new Set(text.split(/[,，\s]+/).map(tag => tag.trim()).filter(Boolean))];
+
+export function PresetManager({ presets, onChange, onUse, current, onClose }: Props) {
+  const { t } = useLocale();
+  const [draft, setDraft] = useState<PromptPreset | null>(null);
+  const [tagsText, setTagsText] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const tags = [...new Set(presets.flatMap(preset => preset.tags))];
+  const visible = tagFilter ? presets.filter(preset => preset.tags.includes(tagFilter)) : presets;
+
+  const edit = (preset: PromptPreset) => {
+    setDraft(preset);
+    setTagsText(preset.tags.join(', '));
+    setMessage(null);
+  };
+
+  const save = () => {
+    if (!draft || !draft.name.trim() || !draft.instruction.trim()) return;
+    const saved: PromptPreset = { ...draft, name: draft.name.trim(), tags: parseTags(tagsText) };
+    const others = presets
+      .filter(preset => preset.id !== saved.id)
+      .map(preset => (saved.isDefault ? { ...preset, isDefault: undefined } : preset));
+    const index = presets.findIndex(preset => preset.id === saved.id);
+    onChange(index < 0 ? [...others, saved] : [...others.slice(0, index), saved, ...others.slice(index)]);
+    setDraft(null);
+  };
+
+  const toggleDefault = (id: string) =>
+    onChange(presets.map(preset => ({ ...preset, isDefault: preset.id === id && !preset.isDefault ? true : undefined })));
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresets(JSON.parse(await file.text()));
+      if (!imported) throw new Error(t('presets.notAPresetFile'));
+      onChange(mergePresets(presets, imported));
+      setMessage(t('presets.imported', { count: imported.length }));
+    } catch (err: any) {
+      setMessage(t('presets.importFailed', { error: err.message || t('presets.badFormat') }));
+    }
+  };
+
+  const setBuilder = (builder: PromptOptions | undefined) =>
+    draft && setDraft({ ...draft, builder, instruction: builder ? composeInstruction(builder) : draft.instruction });
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/30 p-4" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-[90vh] bg-white rounded-2xl shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-5 py-4 border-b border-zinc-200 flex items-center gap-3">
+          <h2 className="text-base font-semibold">{t('presets.title')}</h2>
+          <button
+            onClick={() => importRef.current?.click()}
+            className="ml-auto text-xs text-zinc-500 hover:text-indigo-600 flex items-center gap-1 transition-colors"
+          >
+            <Upload size={12} />
+            {t('presets.import')}
+          </button>
+          <button
+            onClick={() => downloadFile(new Blob([exportPresets(presets)], { type: 'application/json' }), 'prompt-presets.json')}
+            disabled={presets.length === 0}
+            className="text-xs text-zinc-500 hover:text-indigo-600 flex items-center gap-1 transition-colors disabled:opacity-50"
+          >
+            <Download size={12} />
+            {t('presets.export')}
+          </button>
+          <input ref={importRef} type="file" accept="application/json,.json" onChange={importFile} className="hidden" />
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-800 transition-colors" title={t('common.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 flex flex-col gap-4 text-sm">
+          {message && <p className="text-xs text-zinc-500 bg-zinc-50 rounded-md px-3 py-2">{message}</p>}
+
+          {draft ? (
+            <div className="flex flex-col gap-3">
+              <div className="grid grid-cols-2 gap-3">
+                <label className="flex flex-col gap-1 text-xs text-zinc-500">
+                  {t('presets.name')}
+                  <input
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    className="px-2 py-1.5 rounded-md border border-zinc-300 text-sm text-zinc-800 outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-zinc-500">
+                  {t('presets.tags')}
+                  <input
+                    value={tagsText}
+                    onChange={(e) => setTagsText(e.target.value)}
+                    className="px-2 py-1.5 rounded-md border border-zinc-300 text-sm text-zinc-800 outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                </label>
+              </div>
+              <label className="flex items-center gap-2 text-xs text-zinc-600 cursor-pointer">
+                <input type="checkbox" checked={!!draft.builder} onChange={(e) => setBuilder(e.target.checked ? DEFAULT_PROMPT_OPTIONS : undefined)} />
+                {t('presets.useBuilder')}
+              </label>
+              {draft.builder && (
+                <div className="bg-zinc-50 border border-zinc-200 rounded-lg p-3">
+                  <PromptBuilder options={draft.builder} onChange={setBuilder} />
+                </div>
+              )}
+              <label className="flex flex-col gap-1 text-xs text-zinc-500">
+                {t('prompt.instruction')}
+                <textarea
+                  value={draft.instruction}
+                  onChange={(e) => setDraft({ ...draft, instruction: e.target.value })}
+                  readOnly={!!draft.builder}
+                  rows={3}
+                  className="px-2 py-1.5 rounded-md border border-zinc-300 text-sm text-zinc-800 outline-none focus:ring-2 focus:ring-indigo-500 resize-none read-only:bg-zinc-50"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-zinc-500">
+                <span className="flex items-center gap-2">
+                  {t('presets.template', { placeholder: INSTRUCTION_PLACEHOLDER })}
+                  {draft.template !== DEFAULT_TEMPLATE && (
+                    <button onClick={() => setDraft({ ...draft, template: DEFAULT_TEMPLATE })} className="text-indigo-600 hover:text-indigo-700">
+                      {t('presets.restoreTemplate')}
+                    </button>
+                  )}
+                </span>
+                <textarea
+                  value={draft.template}
+                  onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+                  rows={4}
+                  className="px-2 py-1.5 rounded-md border border-zinc-300 font-mono text-xs text-zinc-800 outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-xs text-zinc-600 cursor-pointer">
+                <input type="checkbox" checked={!!draft.isDefault} onChange={(e) => setDraft({ ...draft, isDefault: e.target.checked || undefined })} />
+                {t('presets.isDefault')}
+              </label>
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setDraft(null)} className="px-3 py-1.5 text-xs rounded-lg border border-zinc-300 text-zinc-700 hover:bg-zinc-50 transition-colors">
+                  {t('common.cancel')}
+                </button>
+                <button
+                  onClick={save}
+                  disabled={!draft.name.trim() || !draft.instruction.trim()}
+                  className="px-3 py-1.5 text-xs rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                >
+                  {t('presets.save')}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => edit({ id: crypto.randomUUID(), name: '', tags: [], ...current })}
+                  className="text-xs font-medium flex items-center gap-1 px-3 py-1.5 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 transition-colors"
+                >
+                  <Plus size={12} />
+                  {t('presets.newFromCurrent')}
+                </button>
+                {tags.length > 0 && <span className="ml-2 text-xs text-zinc-400">{t('presets.tagsLabel')}</span>}
+                {tags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                    className={`text-xs px-2 py-0.5 rounded-full transition-colors ${
+                      tagFilter === tag ? 'bg-indigo-600 text-white' : 'bg-zinc-100 text-zinc-600 hover:bg-indigo-50'
+                    }`}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+              {visible.length === 0 ? (
+                <p className="text-xs text-zinc-400 py-6 text-center">{t('presets.empty')}</p>
+              ) : (
+                <ul className="flex flex-col gap-2">
+                  {visible.map(preset => (
+                    <li key={preset.id} className="border border-zinc-200 rounded-lg px-3 py-2 flex items-start gap-3">
+                      <div className="min-w-0 flex-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium">{preset.name}</span>
+                          {preset.tags.map(tag => (
+                            <span key={tag} className="text-[10px] px-1.5 py-0.5 rounded bg-zinc-100 text-zinc-500">{tag}</span>
+                          ))}
+                          {preset.template !== DEFAULT_TEMPLATE && <span className="text-[10px] text-amber-600">{t('prompt.customTemplate')}</span>}
+                        </div>
+                        <p className="text-xs text-zinc-500 truncate" title={preset.instruction}>{preset.instruction}</p>
+                      </div>
+                      <button
+                        onClick={() => toggleDefault(preset.id)}
+                        className={preset.isDefault ? 'text-amber-500' : 'text-zinc-300 hover:text-amber-500'}
+                        title={preset.isDefault ? t('presets.unsetDefault') : t('presets.setDefault')}
+                      >
+                        <Star size={14} fill={preset.isDefault ? 'currentColor' : 'none'} />
+                      </button>
+                      <button onClick={() => onUse(preset)} className="text-zinc-400 hover:text-indigo-600" title={t('presets.use')}>
+                        <Play size={14} />
+                      </button>
+                      <button onClick={() => edit(preset)} className="text-zinc-400 hover:text-indigo-600" title={t('presets.edit')}>
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={() => onChange(presets.filter(p => p.id !== preset.id))}
+                        className="text-zinc-400 hover:text-red-600"
+                        title={t('common.delete')}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
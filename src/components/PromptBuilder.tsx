@@ -0,0 +1,48 @@
+import React from 'react';
+import { useLocale } from '../lib/i18n.ts';
+import { BUILDER_INKS, inkLabel, type BuilderInk, type PromptOptions } from '../lib/presets.ts';
+
+interface Props {
+  options: PromptOptions;
+  onChange: (options: PromptOptions) => void;
+  disabled?: boolean;
+}
+
+/** Checkboxes and fields that compose an erase instruction (see `composeInstruction`). */
+export function PromptBuilder({ options, onChange, disabled }: Props) {
+  const { t } = useLocale();
+  const toggleInk = (ink: BuilderInk) =>
+    onChange({ ...options, inks: options.inks.includes(ink) ? options.inks.filter(i => i !== ink) : [...options.inks, ink] });
+
+  const checkbox = (key: 'keepDiagrams' | 'whitenBackground' | 'keepRedHeaders', label: string) => (
+    <label className="flex items-center gap-1 cursor-pointer">
+      <input type="checkbox" checked={options[key]} onChange={(e) => onChange({ ...options, [key]: e.target.checked })} />
+      {label}
+    </label>
+  );
+
+  return (
+    <fieldset disabled={disabled} className="flex flex-col gap-2 text-xs text-zinc-600">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+        <span className="text-zinc-500">{t('builder.inkColors')}</span>
+        {BUILDER_INKS.map(ink => (
+          <label key={ink} className="flex items-center gap-1 cursor-pointer capitalize">
+            <input type="checkbox" checked={options.inks.includes(ink)} onChange={() => toggleInk(ink)} />
+            {inkLabel(ink)}
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        {checkbox('keepDiagrams', t('builder.keepDiagramsOption'))}
+        {checkbox('keepRedHeaders', t('builder.keepRedHeadersOption'))}
+        {checkbox('whitenBackground', t('builder.whitenBackgroundOption'))}
+      </div>
+      <input
+        value={options.notes}
+        onChange={(e) => onChange({ ...options, notes: e.target.value })}
+        placeholder={t('builder.notes')}
+        className="px-2 py-1 rounded-md border border-zinc-300 outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+    </fieldset>
+  );
+}
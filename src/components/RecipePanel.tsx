@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Plus, Play, Trash2, X, Save } from 'lucide-react';
+import type { PassConfig } from '../core/types.ts';
+import { usesAi } from '../core/types.ts';
+import { loadRecipes, saveRecipes, type Recipe } from '../lib/recipes.ts';
+import { t, useLocale } from '../lib/i18n.ts';
+import { engineLabel } from './EngineOptions.tsx';
+
+interface Props {
+  /** The pass currently configured in the form; "add step" snapshots it. */
+  currentPass: PassConfig;
+  onApply: (recipe: Recipe) => void;
+  disabled?: boolean;
+}
+
+const describeStep = (step: PassConfig) =>
+  usesAi(step.engine) ? step.instruction : t('recipes.localStep', { count: step.local.inkColors.length });
+
+export function RecipePanel({ currentPass, onApply, disabled }: Props) {
+  useLocale();
+  const [recipes, setRecipes] = useState<Recipe[]>(loadRecipes);
+  const [draft, setDraft] = useState<PassConfig[]>([]);
+  const [name, setName] = useState('');
+
+  const canAddStep = !usesAi(currentPass.engine) || currentPass.instruction.trim().length > 0;
+
+  const updateRecipes = (next: Recipe[]) => {
+    setRecipes(next);
+    saveRecipes(next);
+  };
+
+  const saveDraft = () => {
+    if (!draft.length || !name.trim()) return;
+    updateRecipes([...recipes, { id: crypto.randomUUID(), name: name.trim(), steps: draft }]);
+    setDraft([]);
+    setName('');
+  };
+
+  return (
+    <details className="text-xs text-zinc-600 border border-zinc-200 rounded-lg">
+      <summary className="px-3 py-2 font-medium cursor-pointer select-none">
+        {t('recipes.title')} {recipes.length > 0 && <span className="text-zinc-400">({recipes.length})</span>}
+      </summary>
+      <div className="px-3 pb-3 flex flex-col gap-3">
+        {recipes.length > 0 && (
+          <ul className="flex flex-col gap-1">
+            {recipes.map(recipe => (
+              <li key={recipe.id} className="flex items-center gap-2 bg-zinc-50 rounded-md px-2 py-1.5">
+                <span className="font-medium truncate">{recipe.name}</span>
+                <span className="text-zinc-400 shrink-0">{t('recipes.steps', { count: recipe.steps.length })}</span>
+                <button
+                  onClick={() => onApply(recipe)}
+                  disabled={disabled}
+                  className="ml-auto flex items-center gap-1 text-indigo-600 hover:text-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={recipe.steps.map((step, i) => `${i + 1}. ${describeStep(step)}`).join('\n')}
+                >
+                  <Play size={12} />
+                  {t('recipes.apply')}
+                </button>
+                <button
+                  onClick={() => updateRecipes(recipes.filter(r => r.id !== recipe.id))}
+                  className="text-zinc-400 hover:text-red-600"
+                  title={t('recipes.delete')}
+                >
+                  <Trash2 size={12} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-col gap-2">
+          <span className="text-zinc-500">{t('recipes.newHelp')}</span>
+          {draft.length > 0 && (
+            <ol className="flex flex-col gap-1">
+              {draft.map((step, i) => (
+                <li key={i} className="flex items-center gap-2">
+                  <span className="text-zinc-400 tabular-nums">{i + 1}.</span>
+                  <span className="px-1.5 py-0.5 rounded bg-zinc-100 text-zinc-500 shrink-0">{engineLabel(step.engine)}</span>
+                  <span className="truncate" title={describeStep(step)}>{describeStep(step)}</span>
+                  <button
+                    onClick={() => setDraft(draft.filter((_, j) => j !== i))}
+                    className="ml-auto text-zinc-400 hover:text-red-600"
+                    title={t('recipes.removeStep')}
+                  >
+                    <X size={12} />
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => setDraft([...draft, { ...currentPass, instruction: currentPass.instruction.trim() }])}
+              disabled={!canAddStep}
+              className="flex items-center gap-1 px-2 py-1 rounded-md border border-zinc-200 hover:border-indigo-300 hover:text-indigo-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus size={12} />
+              {t('recipes.addStep')}
+            </button>
+            {draft.length > 0 && (
+              <>
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={t('recipes.name')}
+                  className="px-2 py-1 rounded-md border border-zinc-300 outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <button
+                  onClick={saveDraft}
+                  disabled={!name.trim()}
+                  className="flex items-center gap-1 px-2 py-1 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                >
+                  <Save size={12} />
+                  {t('recipes.save')}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </details>
+  );
+}
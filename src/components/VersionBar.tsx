@@ -0,0 +1,67 @@
+import React from 'react';
+import { Undo2, Redo2 } from 'lucide-react';
+import { canRedo, canUndo, lineage, type VersionStack } from '../core/versions.ts';
+import { useLocale } from '../lib/i18n.ts';
+import { engineLabel } from './EngineOptions.tsx';
+
+interface Props {
+  stack: VersionStack;
+  onUndo: () => void;
+  onRedo: () => void;
+  onCheckout: (id: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Shows every version of a page. Versions on the path to the current one are solid;
+ * versions on other branches are dashed. Clicking a version makes it current, so the
+ * next pass branches from it.
+ */
+export function VersionBar({ stack, onUndo, onRedo, onCheckout, disabled }: Props) {
+  const { t } = useLocale();
+  const onPath = new Set(lineage(stack).map(v => v.id));
+
+  return (
+    <div className="flex items-center gap-1 flex-wrap text-[10px]">
+      <button
+        onClick={onUndo}
+        disabled={disabled || !canUndo(stack)}
+        className="p-1 rounded text-zinc-500 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-30 disabled:hover:bg-transparent"
+        title={t('versions.undo')}
+      >
+        <Undo2 size={12} />
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={disabled || !canRedo(stack)}
+        className="p-1 rounded text-zinc-500 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-30 disabled:hover:bg-transparent"
+        title={t('versions.redo')}
+      >
+        <Redo2 size={12} />
+      </button>
+      {stack.versions.map(version => (
+        <button
+          key={version.id}
+          onClick={() => onCheckout(version.id)}
+          disabled={disabled}
+          title={version.parent === null
+            ? t('common.original')
+            : t('versions.basedOn', {
+              version: t('versions.version', { id: version.id }),
+              parent: version.parent === 0 ? t('common.original') : t('versions.version', { id: version.parent }),
+              engine: version.engine ? engineLabel(version.engine) : '',
+            }) + (version.instruction ? `\n${version.instruction}` : '')}
+          className={`px-1.5 py-0.5 rounded border font-medium transition-colors disabled:cursor-not-allowed ${
+            version.id === stack.current
+              ? 'bg-indigo-600 border-indigo-600 text-white'
+              : onPath.has(version.id)
+              ? 'border-indigo-200 text-indigo-600 hover:bg-indigo-50'
+              : 'border-dashed border-zinc-300 text-zinc-400 hover:text-zinc-600'
+          }`}
+        >
+          {version.parent === null ? t('common.original') : `v${version.id}`}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { extractAnswers } from './answers.ts';
+import type { PixelBuffer } from './localEngine.ts';
+
+function row(...pixels: [number, number, number][]): PixelBuffer {
+  const data = new Uint8ClampedArray(pixels.flatMap(([r, g, b]) => [r, g, b, 255]));
+  return { data, width: pixels.length, height: 1 };
+}
+
+const rgba = (buf: PixelBuffer, x: number) => Array.from(buf.data.slice(x * 4, x * 4 + 4));
+
+describe('extractAnswers', () => {
+  it('keeps removed marks in their original colour and clears everything else', () => {
+    const source = row([30, 40, 200], [0, 0, 0], [250, 250, 250]);
+    const result = row([255, 255, 255], [0, 0, 0], [250, 250, 250]);
+    const layer = extractAnswers(source, result);
+    expect(layer.width).toBe(3);
+    expect(rgba(layer, 0)).toEqual([30, 40, 200, 255]);
+    expect(rgba(layer, 1)).toEqual([0, 0, 0, 0]);
+    expect(rgba(layer, 2)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('ignores resampling noise and fades in faint removals', () => {
+    const source = row([230, 230, 230], [190, 190, 190]);
+    const result = row([255, 255, 255], [250, 250, 250]);
+    const layer = extractAnswers(source, result);
+    expect(rgba(layer, 0)[3]).toBe(0);
+    expect(rgba(layer, 1)[3]).toBeGreaterThan(0);
+    expect(rgba(layer, 1)[3]).toBeLessThan(255);
+  });
+
+  it('leaves out content the cleanup made darker', () => {
+    const layer = extractAnswers(row([255, 255, 255]), row([0, 0, 0]));
+    expect(rgba(layer, 0)[3]).toBe(0);
+  });
+
+  it('catches light inks that barely change in gray', () => {
+    const layer = extractAnswers(row([255, 255, 120]), row([255, 255, 255]));
+    expect(rgba(layer, 0)).toEqual([255, 255, 120, 255]);
+  });
+});
@@ -0,0 +1,36 @@
+import type { PixelBuffer } from './localEngine.ts';
+
+// The "answer layer": what the cleanup removed from a page, kept on a transparent
+// background so it can be printed alone or laid over a blank copy.
+
+/** Gray-level drop (0-255) below which a difference is resampling noise, not a removed mark. */
+const NOISE = 40;
+/** Differences this far past the noise level are fully opaque; smaller ones fade in. */
+const RAMP = 40;
+
+const gray = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+/**
+ * Returns the marks present in `source` but gone from `result` (same size), in their
+ * original colours, with everything else transparent. Only pixels the cleanup made
+ * lighter count, so printed content the model darkened does not leak in.
+ */
+export function extractAnswers(source: PixelBuffer, result: PixelBuffer): PixelBuffer {
+  const out = new Uint8ClampedArray(source.data.length);
+  for (let i = 0; i < out.length; i += 4) {
+    const lifted = gray(result.data, i) - gray(source.data, i);
+    const channel = Math.max(
+      Math.abs(result.data[i] - source.data[i]),
+      Math.abs(result.data[i + 1] - source.data[i + 1]),
+      Math.abs(result.data[i + 2] - source.data[i + 2]),
+    );
+    // Light inks such as highlighter barely change in gray, so the largest channel change counts too.
+    const change = lifted > 0 ? Math.max(lifted, channel) : 0;
+    if (change <= NOISE) continue;
+    out[i] = source.data[i];
+    out[i + 1] = source.data[i + 1];
+    out[i + 2] = source.data[i + 2];
+    out[i + 3] = Math.min(255, ((change - NOISE) / RAMP) * 255);
+  }
+  return { data: out, width: source.width, height: source.height };
+}
@@ -0,0 +1,22 @@
+import { PDFDocument } from 'pdf-lib';
+import { fallbackPageSize } from './print.ts';
+import type { PageSize } from './types.ts';
+
+export interface AssemblyPage {
+  /** PNG or JPEG bytes. */
+  data: Uint8Array;
+  mimeType: string;
+  /** Size in points; derived from the pixel size when null. */
+  size: PageSize | null;
+}
+
+/** Builds a PDF with one full-bleed image per page, at each page's original size. */
+export async function assemblePdf(pages: AssemblyPage[]): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  for (const page of pages) {
+    const image = page.mimeType === 'image/jpeg' ? await pdf.embedJpg(page.data) : await pdf.embedPng(page.data);
+    const { width, height } = page.size ?? fallbackPageSize(image.width, image.height);
+    pdf.addPage([width, height]).drawImage(image, { x: 0, y: 0, width, height });
+  }
+  return pdf.save();
+}
@@ -0,0 +1,57 @@
+import type { PageState, PageStatus } from './types.ts';
+
+// A batch is a queue of uploaded documents whose pages are processed as one flat
+// list: document i owns the pages right after those of documents 0..i-1.
+
+export interface BatchDocument {
+  id: string;
+  /** Original file name, kept for exports. */
+  name: string;
+  mimeType: string;
+  /** SHA-256 of the uploaded file, used by history. */
+  hash: string;
+  pageCount: number;
+  /** The uploaded file itself; PDFs are reused by the export that keeps their text layer. */
+  file?: Blob;
+}
+
+/** First flat page index of every document. */
+export function pageOffsets(docs: BatchDocument[]): number[] {
+  const offsets: number[] = [];
+  let next = 0;
+  for (const doc of docs) {
+    offsets.push(next);
+    next += doc.pageCount;
+  }
+  return offsets;
+}
+
+/** Maps a flat page index to its document and the page index within it. */
+export function locatePage(docs: BatchDocument[], index: number): { doc: number; page: number } {
+  let page = index;
+  for (let doc = 0; doc < docs.length; doc++) {
+    if (page < docs[doc].pageCount) return { doc, page };
+    page -= docs[doc].pageCount;
+  }
+  throw new RangeError(`Page ${index} is outside the batch`);
+}
+
+/** Splits a flat per-page list into one list per document. */
+export function splitByDocument<T>(docs: BatchDocument[], items: T[]): T[][] {
+  return pageOffsets(docs).map((start, i) => items.slice(start, start + docs[i].pageCount));
+}
+
+/**
+ * Summarises a document's pages: running while any page runs, failed if any page
+ * failed, done once every page is done or skipped, pending otherwise.
+ */
+export function documentStatus(states: PageState[]): PageStatus {
+  if (states.some(s => s.status === 'running')) return 'running';
+  if (states.some(s => s.status === 'failed')) return 'failed';
+  if (states.length > 0 && states.every(s => s.status === 'done' || s.status === 'skipped')) return 'done';
+  return 'pending';
+}
+
+/** Orders files the way a file manager would, so "page 10" sorts after "page 9". */
+export const compareFileNames = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseMarks } from './detect.ts';
+
+describe('parseMarks', () => {
+  it('converts 0-1000 boxes to page fractions', () => {
+    expect(parseMarks([{ category: 'score', confidence: 0.9, box_2d: [100, 200, 300, 600] }])).toEqual([
+      { category: 'score', confidence: 0.9, box: { x: 0.2, y: 0.1, width: expect.closeTo(0.4), height: expect.closeTo(0.2) } },
+    ]);
+  });
+
+  it('clamps boxes and confidences into range and defaults a missing confidence', () => {
+    const [mark] = parseMarks([{ category: 'stamp', confidence: 3, box_2d: [-50, 900, 500, 1200] }]);
+    expect(mark.confidence).toBe(1);
+    expect(mark.box.x).toBeCloseTo(0.9);
+    expect(mark.box.y).toBe(0);
+    expect(mark.box.width).toBeCloseTo(0.1);
+    expect(mark.box.height).toBeCloseTo(0.5);
+    expect(parseMarks([{ category: 'doodle', box_2d: [0, 0, 10, 10] }])[0].confidence).toBe(0.5);
+  });
+
+  it('drops entries that do not fit instead of failing', () => {
+    expect(parseMarks([
+      null,
+      'handwriting',
+      { category: 'signature', box_2d: [0, 0, 10, 10] },
+      { category: 'handwriting', box_2d: [0, 0, 10] },
+      { category: 'handwriting', box_2d: [0, 0, '10', 10] },
+      { category: 'handwriting', box_2d: [500, 500, 400, 600] },
+      { category: 'handwriting', box_2d: [0, 0, 10, 10] },
+    ])).toHaveLength(1);
+  });
+
+  it('returns no marks for a reply that is not an array', () => {
+    expect(parseMarks({ marks: [] })).toEqual([]);
+    expect(parseMarks(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+// Contract for POST /api/detect, which finds the marks on a page so they can be
+// reviewed as boxes before anything is erased.
+
+import type { InlineImage } from './types.ts';
+
+export type MarkCategory = 'handwriting' | 'stamp' | 'score' | 'doodle';
+
+export const MARK_CATEGORIES: MarkCategory[] = ['handwriting', 'stamp', 'score', 'doodle'];
+
+/** A rectangle as fractions (0-1) of the page's width and height, from the top-left corner. */
+export interface MarkBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedMark {
+  category: MarkCategory;
+  /** How sure the model is, 0-1. */
+  confidence: number;
+  box: MarkBox;
+}
+
+export interface DetectRequestBody {
+  image: InlineImage;
+}
+
+export interface DetectResponseBody {
+  marks: DetectedMark[];
+  backend: string;
+}
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+/**
+ * Reads the model's answer: a JSON array of `{ category, confidence, box_2d }` where
+ * `box_2d` is `[ymin, xmin, ymax, xmax]` on a 0-1000 grid. Entries that do not fit
+ * are dropped rather than failing the whole page.
+ */
+export function parseMarks(value: unknown): DetectedMark[] {
+  if (!Array.isArray(value)) return [];
+  const marks: DetectedMark[] = [];
+  for (const entry of value) {
+    const box = entry?.box_2d;
+    if (!MARK_CATEGORIES.includes(entry?.category) || !Array.isArray(box) || box.length !== 4 || !box.every(Number.isFinite)) continue;
+    const [ymin, xmin, ymax, xmax] = box.map((n: number) => clamp01(n / 1000));
+    if (xmax <= xmin || ymax <= ymin) continue;
+    marks.push({
+      category: entry.category,
+      confidence: Number.isFinite(entry.confidence) ? clamp01(entry.confidence) : 0.5,
+      box: { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin },
+    });
+  }
+  return marks;
+}
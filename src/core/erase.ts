@@ -0,0 +1,34 @@
+import type { RateLimiter } from './queue.ts';
+import { withRetry } from './retry.ts';
+
+// The model call shared by the web app and the CLI: rate limited, retried with
+// backoff, and pausing every lane when the upstream quota runs out.
+
+export interface ModelCallOptions {
+  limiter: RateLimiter;
+  signal?: AbortSignal;
+  isRetryable: (err: unknown) => boolean;
+  /** How long every caller sharing the limiter should back off after `err`; undefined when it is not a quota error. */
+  quotaPauseMs: (err: unknown) => number | undefined;
+  /** Called before each attempt, retries included. */
+  onAttempt?: () => void;
+}
+
+export function callModel<T>(call: () => Promise<T>, { limiter, signal, isRetryable, quotaPauseMs, onAttempt }: ModelCallOptions): Promise<T> {
+  return withRetry(
+    async () => {
+      await limiter.acquire(signal);
+      onAttempt?.();
+      return call();
+    },
+    {
+      signal,
+      isRetryable,
+      // A quota error means every lane is over budget, not just this one.
+      onRetry: (err) => {
+        const pauseMs = quotaPauseMs(err);
+        if (pauseMs !== undefined) limiter.pause(pauseMs);
+      },
+    },
+  );
+}
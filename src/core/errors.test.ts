@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { classifyReply, classifyStatus, describeReply } from './errors.ts';
+
+describe('classifyReply', () => {
+  it('treats blocked prompts and safety finish reasons as safety blocks', () => {
+    expect(classifyReply({ blockReason: 'OTHER' }, '')).toBe('safety');
+    expect(classifyReply({ finishReason: 'IMAGE_SAFETY' }, '')).toBe('safety');
+    expect(classifyReply({ finishReason: 'STOP', safetyRatings: [{ category: 'HARM_CATEGORY_HARASSMENT', blocked: true }] }, 'text')).toBe('safety');
+  });
+
+  it('recognises recitation and truncated output', () => {
+    expect(classifyReply({ finishReason: 'IMAGE_RECITATION' }, '')).toBe('recitation');
+    expect(classifyReply({ finishReason: 'MAX_TOKENS' }, 'partial')).toBe('truncated');
+  });
+
+  it('tells a text reply from an empty one', () => {
+    expect(classifyReply({ finishReason: 'STOP' }, 'I cannot edit this image.')).toBe('text-only');
+    expect(classifyReply({ finishReason: 'STOP' }, '  ')).toBe('no-image');
+    expect(classifyReply({}, '')).toBe('no-image');
+  });
+
+  it('has an English description for every reply kind', () => {
+    expect(describeReply('safety')).toMatch(/safety/);
+    expect(describeReply('no-image')).toBe('The model did not return an image.');
+  });
+});
+
+describe('classifyStatus', () => {
+  it('maps HTTP statuses to error kinds', () => {
+    expect([429, 401, 403, 408, 504, 422, 500, 503, 400, 200].map(classifyStatus)).toEqual([
+      'quota', 'auth', 'auth', 'timeout', 'timeout', 'no-image', 'unavailable', 'unavailable', 'invalid-request', 'unknown',
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+// Why a model call failed. The server classifies replies without an image from what
+// the model reported; HTTP failures are classified by status. The browser turns each
+// kind into a message and a suggested fix (src/lib/errors.ts).
+
+export type ErrorKind =
+  /** The prompt or the output was blocked by the model's safety filters. */
+  | 'safety'
+  /** The output was withheld as possibly reproducing protected material. */
+  | 'recitation'
+  /** The model replied with text only. */
+  | 'text-only'
+  /** The model finished without an image or any text. */
+  | 'no-image'
+  /** The output hit the model's token limit before the image was complete. */
+  | 'truncated'
+  | 'quota'
+  | 'auth'
+  | 'invalid-request'
+  | 'timeout'
+  | 'unavailable'
+  /** No response reached the browser. */
+  | 'network'
+  | 'cancelled'
+  | 'unknown';
+
+export interface SafetyRating {
+  category: string;
+  probability?: string;
+  blocked?: boolean;
+}
+
+/** What the model reported about its reply, kept for diagnostics. */
+export interface ResponseMetadata {
+  finishReason?: string;
+  finishMessage?: string;
+  /** Set when the prompt itself was blocked and nothing was generated. */
+  blockReason?: string;
+  safetyRatings?: SafetyRating[];
+  promptTokens?: number;
+  outputTokens?: number;
+  modelVersion?: string;
+  responseId?: string;
+}
+
+const SAFETY_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+const RECITATION_REASONS = ['RECITATION', 'IMAGE_RECITATION'];
+
+/** Classifies a reply that carried no image. */
+export function classifyReply(metadata: ResponseMetadata, text: string): ErrorKind {
+  const reason = metadata.finishReason ?? '';
+  if (metadata.blockReason || SAFETY_REASONS.includes(reason) || metadata.safetyRatings?.some(rating => rating.blocked)) {
+    return 'safety';
+  }
+  if (RECITATION_REASONS.includes(reason)) return 'recitation';
+  if (reason === 'MAX_TOKENS') return 'truncated';
+  return text.trim() ? 'text-only' : 'no-image';
+}
+
+const REPLY_MESSAGES: Partial<Record<ErrorKind, string>> = {
+  safety: 'The model blocked the page for safety reasons.',
+  recitation: 'The model withheld the image as possibly reproducing protected material.',
+  truncated: 'The model ran out of output tokens before the image was complete.',
+  'text-only': 'The model replied with text instead of an image.',
+};
+
+/** English message for a reply without an image, used by the server and the CLI. */
+export const describeReply = (kind: ErrorKind) => REPLY_MESSAGES[kind] ?? 'The model did not return an image.';
+
+export function classifyStatus(status: number): ErrorKind {
+  if (status === 429) return 'quota';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 408 || status === 504) return 'timeout';
+  // The server answers 422 when the model replied without an image.
+  if (status === 422) return 'no-image';
+  if (status >= 500) return 'unavailable';
+  if (status >= 400) return 'invalid-request';
+  return 'unknown';
+}
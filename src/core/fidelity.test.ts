@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { computeFidelity } from './fidelity.ts';
+import type { PixelBuffer } from './localEngine.ts';
+
+/** A page of black and white stripes, like lines of print. */
+function printed(width: number, height: number, shift = 0): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = Math.floor((x + shift) / 2) % 2 ? 0 : 255;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width, height };
+}
+
+function blank(width: number, height: number): PixelBuffer {
+  return { data: new Uint8ClampedArray(width * height * 4).fill(255), width, height };
+}
+
+describe('computeFidelity', () => {
+  it('scores an unchanged page as 1', () => {
+    const map = computeFidelity(printed(32, 32), printed(32, 32));
+    expect(map.score).toBeCloseTo(1);
+    expect(map.cols).toBe(4);
+    expect(map.rows).toBe(4);
+  });
+
+  it('lowers the score when printed content moves', () => {
+    const map = computeFidelity(printed(32, 32), printed(32, 32, 2));
+    expect(map.score).toBeLessThan(0.5);
+    expect(Array.from(map.dissimilarity).every(value => value > 0.5)).toBe(true);
+  });
+
+  it('does not count erased ink against the result', () => {
+    // One red stroke per window: too little to dominate it, but ink all the same.
+    const source = blank(32, 32);
+    for (let y = 0; y < 32; y += 8) {
+      for (let x = 0; x < 32; x++) source.data[(y * 32 + x) * 4 + 1] = source.data[(y * 32 + x) * 4 + 2] = 0;
+    }
+    const map = computeFidelity(source, blank(32, 32));
+    expect(map.score).toBe(1);
+    expect(Array.from(map.dissimilarity).every(Number.isNaN)).toBe(true);
+  });
+
+  it('scores printed content that came back blank as dissimilar', () => {
+    const map = computeFidelity(printed(32, 32), blank(32, 32));
+    expect(map.score).toBeLessThan(0.1);
+    expect(Array.from(map.dissimilarity).every(value => value > 0.9)).toBe(true);
+  });
+
+  it('skips windows inside the edit mask', () => {
+    const mask = { data: new Uint8ClampedArray(32 * 32 * 4), width: 32, height: 32 };
+    for (let y = 0; y < 16; y++) {
+      for (let x = 0; x < 32; x++) mask.data[(y * 32 + x) * 4 + 3] = 255;
+    }
+    const map = computeFidelity(printed(32, 32), printed(32, 32, 2), { mask });
+    expect(Array.from(map.dissimilarity.slice(0, 8)).every(Number.isNaN)).toBe(true);
+    expect(Array.from(map.dissimilarity.slice(8)).some(Number.isNaN)).toBe(false);
+  });
+
+  it('rejects images of different sizes', () => {
+    expect(() => computeFidelity(blank(8, 8), blank(8, 16))).toThrow();
+  });
+});
@@ -0,0 +1,96 @@
+import { rgbToHsv, type PixelBuffer } from './localEngine.ts';
+
+export interface FidelityOptions {
+  /** Side of the square comparison window, in pixels. */
+  windowSize?: number;
+  /**
+   * Optional edit mask (same size as the buffers); windows that overlap it are
+   * expected to change and are left out of the score.
+   */
+  mask?: PixelBuffer;
+}
+
+export interface FidelityMap {
+  /** Mean SSIM over the compared windows, 0-1. 1 when nothing was comparable. */
+  score: number;
+  cols: number;
+  rows: number;
+  windowSize: number;
+  /** Per-window dissimilarity (1 - SSIM), or NaN for windows excluded from the score. */
+  dissimilarity: Float32Array;
+}
+
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+/** Result windows this bright and flat are blank paper: the model erased something there, rightly if it was ink. */
+const BLANK_MEAN = 235;
+const BLANK_STD = 8;
+/** Source windows with at least this share of saturated pixels are colored ink, not print. */
+const INK_SHARE = 0.3;
+
+function toGray(buf: PixelBuffer): Float32Array {
+  const gray = new Float32Array(buf.width * buf.height);
+  for (let p = 0, i = 0; p < gray.length; p++, i += 4) {
+    gray[p] = 0.299 * buf.data[i] + 0.587 * buf.data[i + 1] + 0.114 * buf.data[i + 2];
+  }
+  return gray;
+}
+
+/**
+ * Compares a model result with its source (both already scaled to the same size)
+ * window by window with SSIM. Windows the model was supposed to clear are skipped:
+ * those dominated by colored ink in the source, those with some ink that are blank
+ * paper in the result, and those inside the edit mask. What is left is printed
+ * content, where any structural change (re-typeset text, shifted lines, added marks,
+ * print wiped along with the answers) lowers the score.
+ */
+export function computeFidelity(source: PixelBuffer, result: PixelBuffer, options: FidelityOptions = {}): FidelityMap {
+  const { width, height } = source;
+  if (result.width !== width || result.height !== height) {
+    throw new Error('Fidelity check needs images of the same size');
+  }
+  const windowSize = options.windowSize ?? 8;
+  const cols = Math.floor(width / windowSize);
+  const rows = Math.floor(height / windowSize);
+  const a = toGray(source);
+  const b = toGray(result);
+  const dissimilarity = new Float32Array(cols * rows).fill(NaN);
+  const n = windowSize * windowSize;
+
+  let total = 0;
+  let compared = 0;
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0, ink = 0, masked = false;
+      for (let y = r * windowSize; y < (r + 1) * windowSize; y++) {
+        for (let x = c * windowSize; x < (c + 1) * windowSize; x++) {
+          const p = y * width + x;
+          const va = a[p];
+          const vb = b[p];
+          sumA += va; sumB += vb;
+          sumAA += va * va; sumBB += vb * vb; sumAB += va * vb;
+          const i = p * 4;
+          if (rgbToHsv(source.data[i], source.data[i + 1], source.data[i + 2])[1] > 0.35) ink++;
+          if (options.mask && options.mask.data[i + 3] > 0) masked = true;
+        }
+      }
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = Math.max(0, sumAA / n - meanA * meanA);
+      const varB = Math.max(0, sumBB / n - meanB * meanB);
+      const cov = sumAB / n - meanA * meanB;
+
+      // Print that came back blank is not skipped; SSIM scores it as dissimilar.
+      const erased = ink > 0 && meanB > BLANK_MEAN && Math.sqrt(varB) < BLANK_STD;
+      if (masked || erased || ink / n >= INK_SHARE) continue;
+
+      const ssim = ((2 * meanA * meanB + C1) * (2 * cov + C2)) / ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+      dissimilarity[r * cols + c] = 1 - ssim;
+      total += ssim;
+      compared++;
+    }
+  }
+
+  return { score: compared ? total / compared : 1, cols, rows, windowSize, dissimilarity };
+}
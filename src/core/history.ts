@@ -0,0 +1,50 @@
+// Contract for the /api/history routes that persist processed jobs.
+
+import type { EngineMode, InlineImage, PageStatus } from './types.ts';
+
+export interface CreateJobBody {
+  fileName: string;
+  /** SHA-256 of the uploaded file, hex encoded. */
+  fileHash: string;
+  instruction: string;
+  engine: EngineMode;
+  pageCount: number;
+}
+
+export interface UpdatePageBody {
+  status: PageStatus;
+  error?: string;
+  source?: InlineImage;
+  result?: InlineImage;
+}
+
+export interface JobPage {
+  index: number;
+  status: PageStatus;
+  error: string | null;
+  /** Image hashes; fetch the bytes from `/api/images/:hash`. */
+  sourceHash: string | null;
+  resultHash: string | null;
+  updatedAt: number;
+}
+
+export interface JobSummary {
+  id: string;
+  fileName: string;
+  fileHash: string;
+  instruction: string;
+  engine: EngineMode;
+  /** Backend that served the model calls, e.g. `gemini:gemini-2.5-flash-image`; null for local-only jobs. */
+  model: string | null;
+  pageCount: number;
+  doneCount: number;
+  failedCount: number;
+  /** First page's source image, for thumbnails. */
+  thumbnailHash: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface JobDetail extends JobSummary {
+  pages: JobPage[];
+}
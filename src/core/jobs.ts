@@ -0,0 +1,56 @@
+// Contract for the /api/jobs routes, which let other systems (e.g. an LMS) submit a
+// worksheet, poll its progress and fetch the cleaned result. Jobs are stored in the
+// same tables as the history, so they also show up in the history panel.
+
+import type { JobDetail } from './history.ts';
+import type { PageStatus } from './types.ts';
+
+/**
+ * `done` and `failed` are both finished and have a result to download; `failed`
+ * means at least one page could not be cleaned and was kept unchanged.
+ */
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+/**
+ * Fields of the multipart `POST /api/jobs` form besides the `file` itself (a PDF or
+ * an image).
+ */
+export interface CreateApiJobFields {
+  instruction: string;
+  /** PDF pages to process, e.g. "1-4,7"; all pages when omitted. */
+  pages?: string;
+  /** Prompt template (see core/prompt.ts); the default when omitted. */
+  template?: string;
+  /** Receives a `JobCallbackBody` POST once the job finishes. */
+  callbackUrl?: string;
+}
+
+export interface ApiJob extends JobDetail {
+  status: JobStatus;
+  /** The page selection the job was created with, or null for all pages. */
+  pageRange: string | null;
+  callbackUrl: string | null;
+  /** When the callback was delivered; null while pending or after it failed. */
+  notifiedAt: number | null;
+  callbackError: string | null;
+  /** Where to download the result once the job has finished. */
+  resultUrl: string;
+}
+
+export interface JobCallbackBody {
+  id: string;
+  status: JobStatus;
+  fileName: string;
+  pageCount: number;
+  doneCount: number;
+  failedCount: number;
+  resultUrl: string;
+}
+
+export function jobStatus(pages: { status: PageStatus }[]): JobStatus {
+  if (pages.every(page => page.status === 'pending')) return 'queued';
+  if (pages.some(page => page.status === 'pending' || page.status === 'running')) return 'running';
+  return pages.some(page => page.status === 'failed') ? 'failed' : 'done';
+}
+
+export const isFinished = (status: JobStatus) => status === 'done' || status === 'failed';
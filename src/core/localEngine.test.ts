@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { applyLocalPasses, DEFAULT_LOCAL_OPTIONS, flattenShadows, removeInkColors, rgbToHsv, whitenBackground, type PixelBuffer } from './localEngine.ts';
+
+/** A buffer of the given RGB pixels, one row. */
+function row(...pixels: [number, number, number][]): PixelBuffer {
+  const data = new Uint8ClampedArray(pixels.flatMap(([r, g, b]) => [r, g, b, 255]));
+  return { data, width: pixels.length, height: 1 };
+}
+
+const pixel = (buf: PixelBuffer, x: number, y = 0) => Array.from(buf.data.slice((y * buf.width + x) * 4, (y * buf.width + x) * 4 + 3));
+
+describe('rgbToHsv', () => {
+  it('converts primaries and greys', () => {
+    expect(rgbToHsv(255, 0, 0)).toEqual([0, 1, 1]);
+    expect(rgbToHsv(0, 255, 0)).toEqual([120, 1, 1]);
+    expect(rgbToHsv(0, 0, 255)).toEqual([240, 1, 1]);
+    expect(rgbToHsv(128, 128, 128)).toEqual([0, 0, 128 / 255]);
+    expect(rgbToHsv(0, 0, 0)).toEqual([0, 0, 0]);
+  });
+
+  it('wraps hues just below red to the top of the circle', () => {
+    expect(rgbToHsv(255, 0, 51)[0]).toBeCloseTo(348);
+  });
+});
+
+describe('removeInkColors', () => {
+  it('whitens the selected ink and keeps black print and other inks', () => {
+    const buf = row([220, 30, 40], [20, 20, 20], [30, 60, 200], [255, 0, 40]);
+    removeInkColors(buf, ['red'], 25, 0.25);
+    expect(pixel(buf, 0)).toEqual([255, 255, 255]);
+    expect(pixel(buf, 1)).toEqual([20, 20, 20]);
+    expect(pixel(buf, 2)).toEqual([30, 60, 200]);
+    expect(pixel(buf, 3)).toEqual([255, 255, 255]);
+  });
+
+  it('leaves faint and very dark colours alone', () => {
+    const buf = row([200, 180, 180], [30, 5, 5]);
+    removeInkColors(buf, ['red'], 25, 0.25);
+    expect(pixel(buf, 0)).toEqual([200, 180, 180]);
+    expect(pixel(buf, 1)).toEqual([30, 5, 5]);
+  });
+
+  it('does nothing without colours', () => {
+    const buf = row([220, 30, 40]);
+    removeInkColors(buf, [], 25, 0.25);
+    expect(pixel(buf, 0)).toEqual([220, 30, 40]);
+  });
+});
+
+describe('flattenShadows', () => {
+  it('brings shaded paper up to white and keeps print dark', () => {
+    const width = 64;
+    const data = new Uint8ClampedArray(width * 4);
+    for (let x = 0; x < width; x++) {
+      const paper = x < 32 ? 250 : 150;
+      const value = x === 40 ? 40 : paper;
+      data.set([value, value, value, 255], x * 4);
+    }
+    const buf = { data, width, height: 1 };
+    flattenShadows(buf, 8);
+    expect(pixel(buf, 60)[0]).toBeGreaterThan(240);
+    expect(pixel(buf, 4)[0]).toBeGreaterThan(240);
+    expect(pixel(buf, 40)[0]).toBeLessThan(100);
+  });
+});
+
+describe('whitenBackground', () => {
+  it('turns off-white paper white and keeps print', () => {
+    const buf = row(...Array.from({ length: 21 }, (_, x): [number, number, number] => (x === 10 ? [30, 30, 30] : [215, 215, 215])));
+    whitenBackground(buf, 12, 5);
+    expect(pixel(buf, 0)).toEqual([255, 255, 255]);
+    expect(pixel(buf, 10)).toEqual([30, 30, 30]);
+  });
+});
+
+describe('applyLocalPasses', () => {
+  it('runs only the enabled passes', () => {
+    const buf = row([220, 30, 40], [215, 215, 215]);
+    applyLocalPasses(buf, DEFAULT_LOCAL_OPTIONS);
+    expect(pixel(buf, 0)).toEqual([255, 255, 255]);
+    expect(pixel(buf, 1)).toEqual([215, 215, 215]);
+  });
+});
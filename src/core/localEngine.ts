@@ -0,0 +1,175 @@
+// Model-free cleanup passes that work on raw RGBA pixels. They have no DOM
+// dependency, so the browser and Node callers share them.
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export type InkColor = 'red' | 'blue' | 'green';
+
+export interface LocalOptions {
+  /** Ink colors to remove; printed black/grey is never touched by this pass. */
+  inkColors: InkColor[];
+  /** Hue tolerance around each ink color's center, in degrees. */
+  hueTolerance: number;
+  /** Pixels less saturated than this (0-1) count as paper or black print, not ink. */
+  minSaturation: number;
+  flattenShadows: boolean;
+  whitenBackground: boolean;
+  /** How far below the local mean (0-255) a pixel must be to count as print when whitening. */
+  whitenOffset: number;
+}
+
+export const DEFAULT_LOCAL_OPTIONS: LocalOptions = {
+  inkColors: ['red'],
+  hueTolerance: 25,
+  minSaturation: 0.25,
+  flattenShadows: false,
+  whitenBackground: false,
+  whitenOffset: 12,
+};
+
+const INK_HUES: Record<InkColor, number> = { red: 0, green: 120, blue: 220 };
+
+/** Converts RGB (0-255) to HSV with hue in degrees and saturation/value in 0-1. */
+export function rgbToHsv(r: number, g: number, b: number): [number, number, number] {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  let h = 0;
+  if (delta > 0) {
+    if (max === r) h = ((g - b) / delta) % 6;
+    else if (max === g) h = (b - r) / delta + 2;
+    else h = (r - g) / delta + 4;
+    h *= 60;
+    if (h < 0) h += 360;
+  }
+  return [h, max === 0 ? 0 : delta / max, max / 255];
+}
+
+function hueDistance(a: number, b: number): number {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+/** Replaces pixels whose hue falls in any selected ink band with white. */
+export function removeInkColors(buf: PixelBuffer, colors: InkColor[], hueTolerance: number, minSaturation: number): void {
+  if (colors.length === 0) return;
+  const hues = colors.map(color => INK_HUES[color]);
+  const { data } = buf;
+  for (let i = 0; i < data.length; i += 4) {
+    const [h, s, v] = rgbToHsv(data[i], data[i + 1], data[i + 2]);
+    if (s < minSaturation || v < 0.15) continue;
+    if (hues.some(center => hueDistance(h, center) <= hueTolerance)) {
+      data[i] = data[i + 1] = data[i + 2] = 255;
+    }
+  }
+}
+
+function luminance(data: Uint8ClampedArray, i: number): number {
+  return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+}
+
+/**
+ * Evens out uneven lighting: estimates the paper brightness per block (its brightest
+ * luminance), smooths and bilinearly upsamples that estimate, then divides it out.
+ */
+export function flattenShadows(buf: PixelBuffer, blockSize = 32): void {
+  const { data, width, height } = buf;
+  const cols = Math.ceil(width / blockSize);
+  const rows = Math.ceil(height / blockSize);
+  const grid = new Float32Array(cols * rows);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cell = Math.floor(y / blockSize) * cols + Math.floor(x / blockSize);
+      const lum = luminance(data, (y * width + x) * 4);
+      if (lum > grid[cell]) grid[cell] = lum;
+    }
+  }
+
+  // A 3x3 box blur keeps single dark blocks (large print, photos) from punching holes.
+  const smooth = new Float32Array(grid.length);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      let sum = 0;
+      let count = 0;
+      for (let dr = -1; dr <= 1; dr++) {
+        for (let dc = -1; dc <= 1; dc++) {
+          const rr = r + dr;
+          const cc = c + dc;
+          if (rr < 0 || cc < 0 || rr >= rows || cc >= cols) continue;
+          sum += grid[rr * cols + cc];
+          count++;
+        }
+      }
+      smooth[r * cols + c] = Math.max(1, sum / count);
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    const gy = Math.min(rows - 1, Math.max(0, y / blockSize - 0.5));
+    const r0 = Math.floor(gy);
+    const r1 = Math.min(rows - 1, r0 + 1);
+    const fy = gy - r0;
+    for (let x = 0; x < width; x++) {
+      const gx = Math.min(cols - 1, Math.max(0, x / blockSize - 0.5));
+      const c0 = Math.floor(gx);
+      const c1 = Math.min(cols - 1, c0 + 1);
+      const fx = gx - c0;
+      const bg =
+        smooth[r0 * cols + c0] * (1 - fx) * (1 - fy) +
+        smooth[r0 * cols + c1] * fx * (1 - fy) +
+        smooth[r1 * cols + c0] * (1 - fx) * fy +
+        smooth[r1 * cols + c1] * fx * fy;
+      const gain = 255 / bg;
+      const i = (y * width + x) * 4;
+      data[i] = data[i] * gain;
+      data[i + 1] = data[i + 1] * gain;
+      data[i + 2] = data[i + 2] * gain;
+    }
+  }
+}
+
+/**
+ * Adaptive-threshold whitening: pixels brighter than their neighbourhood mean minus
+ * `offset` become pure white; darker pixels (print and remaining marks) are kept.
+ */
+export function whitenBackground(buf: PixelBuffer, offset: number, radius = 15): void {
+  const { data, width, height } = buf;
+  // Summed-area table of luminance for O(1) window means.
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += luminance(data, (y * width + x) * 4);
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const sum =
+        integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1] -
+        integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      const i = (y * width + x) * 4;
+      if (luminance(data, i) > mean - offset) {
+        data[i] = data[i + 1] = data[i + 2] = 255;
+      }
+    }
+  }
+}
+
+/** Runs the enabled passes in a fixed order: shadows, ink colors, then whitening. */
+export function applyLocalPasses(buf: PixelBuffer, options: LocalOptions): void {
+  if (options.flattenShadows) flattenShadows(buf);
+  removeInkColors(buf, options.inkColors, options.hueTolerance, options.minSaturation);
+  if (options.whitenBackground) whitenBackground(buf, options.whitenOffset);
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createLayout, cropLayout, formatPageRange, layoutSize, movePage, parsePageRange, rotateLayout, unrotateCrop } from './pages.ts';
+
+describe('parsePageRange', () => {
+  it('parses single pages and ranges into sorted zero-based indices', () => {
+    expect(parsePageRange('5,1-3', 10)).toEqual([0, 1, 2, 4]);
+  });
+
+  it('accepts full-width commas, spaces and other dashes', () => {
+    expect(parsePageRange('1，3 5–6', 6)).toEqual([0, 2, 4, 5]);
+  });
+
+  it('merges overlapping parts', () => {
+    expect(parsePageRange('1-3,2-4', 4)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('rejects malformed or out-of-range selections', () => {
+    expect(parsePageRange('a-b', 5)).toBeNull();
+    expect(parsePageRange('0', 5)).toBeNull();
+    expect(parsePageRange('4-6', 5)).toBeNull();
+    expect(parsePageRange('3-1', 5)).toBeNull();
+  });
+
+  it('round-trips through formatPageRange', () => {
+    expect(formatPageRange([4, 0, 1, 2, 7])).toBe('1-3,5,8');
+    expect(parsePageRange(formatPageRange([0, 1, 2, 4, 7]), 8)).toEqual([0, 1, 2, 4, 7]);
+  });
+});
+
+describe('page layout', () => {
+  const base = createLayout(0, { width: 600, height: 800 });
+
+  it('swaps width and height for quarter turns', () => {
+    expect(layoutSize(rotateLayout(base, 90))).toEqual({ width: 800, height: 600 });
+    expect(layoutSize(rotateLayout(rotateLayout(base, 270), 90))).toEqual({ width: 600, height: 800 });
+  });
+
+  it('has no size when the file gives none', () => {
+    expect(layoutSize(createLayout(0, null))).toBeNull();
+  });
+
+  it('maps a crop drawn on a turned page back onto the unturned page', () => {
+    const crop = { left: 0.1, top: 0.2, right: 0.3, bottom: 0.4 };
+    expect(unrotateCrop(crop, 90)).toEqual({ left: 0.2, top: 0.3, right: 0.4, bottom: 0.1 });
+    expect(unrotateCrop(unrotateCrop(crop, 90), 270)).toEqual(crop);
+  });
+
+  it('nests a second crop inside the first', () => {
+    const once = cropLayout(base, { left: 0.5, top: 0, right: 0, bottom: 0 });
+    const twice = cropLayout(once, { left: 0.5, top: 0, right: 0, bottom: 0 });
+    expect(twice.crop.left).toBeCloseTo(0.75);
+    expect(layoutSize(twice)).toEqual({ width: 150, height: 800 });
+  });
+});
+
+describe('movePage', () => {
+  it('moves an item and leaves the input untouched', () => {
+    const items = ['a', 'b', 'c', 'd'];
+    expect(movePage(items, 0, 2)).toEqual(['b', 'c', 'a', 'd']);
+    expect(items).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('ignores moves outside the list', () => {
+    const items = ['a', 'b'];
+    expect(movePage(items, 0, 5)).toBe(items);
+  });
+});
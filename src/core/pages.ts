@@ -0,0 +1,109 @@
+import type { PageSize } from './types.ts';
+
+// Page edits made before processing. The page images are edited directly; the
+// layout remembers where each page came from and how it was turned and cropped,
+// so exports can reproduce the same edits on the original PDF.
+
+export type QuarterTurn = 0 | 90 | 180 | 270;
+
+/** Margins cut off each side, as fractions of the page. */
+export interface Crop {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export const NO_CROP: Crop = { left: 0, top: 0, right: 0, bottom: 0 };
+
+export interface PageLayout {
+  /** Zero-based page number in the uploaded file. */
+  origin: number;
+  /** Clockwise turn applied on top of the file's own page rotation. */
+  rotation: QuarterTurn;
+  /** Crop of the page as the file shows it, before `rotation`. */
+  crop: Crop;
+  /** Size of the page as the file shows it, in points; null when the file has none. */
+  baseSize: PageSize | null;
+}
+
+export const createLayout = (origin: number, baseSize: PageSize | null): PageLayout =>
+  ({ origin, rotation: 0, crop: NO_CROP, baseSize });
+
+/** Physical size of the page after cropping and turning. */
+export function layoutSize(layout: PageLayout): PageSize | null {
+  if (!layout.baseSize) return null;
+  const { crop } = layout;
+  const width = layout.baseSize.width * (1 - crop.left - crop.right);
+  const height = layout.baseSize.height * (1 - crop.top - crop.bottom);
+  return layout.rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+}
+
+export function rotateLayout(layout: PageLayout, turn: QuarterTurn): PageLayout {
+  return { ...layout, rotation: ((layout.rotation + turn) % 360) as QuarterTurn };
+}
+
+/** Expresses a crop drawn on the page turned by `rotation` in terms of the unturned page. */
+export function unrotateCrop(crop: Crop, rotation: QuarterTurn): Crop {
+  switch (rotation) {
+    case 90: return { left: crop.top, top: crop.right, right: crop.bottom, bottom: crop.left };
+    case 180: return { left: crop.right, top: crop.bottom, right: crop.left, bottom: crop.top };
+    case 270: return { left: crop.bottom, top: crop.left, right: crop.top, bottom: crop.right };
+    default: return crop;
+  }
+}
+
+/** Applies a crop drawn on the page as currently shown (turned and already cropped). */
+export function cropLayout(layout: PageLayout, visible: Crop): PageLayout {
+  const inner = unrotateCrop(visible, layout.rotation);
+  const outer = layout.crop;
+  const width = 1 - outer.left - outer.right;
+  const height = 1 - outer.top - outer.bottom;
+  return {
+    ...layout,
+    crop: {
+      left: outer.left + inner.left * width,
+      right: outer.right + inner.right * width,
+      top: outer.top + inner.top * height,
+      bottom: outer.bottom + inner.bottom * height,
+    },
+  };
+}
+
+/** Moves the item at `from` to `to`; lists too short to hold both are returned unchanged. */
+export function movePage<T>(items: T[], from: number, to: number): T[] {
+  if (from >= items.length || to >= items.length || from === to) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+/**
+ * Parses a page selection such as "1-3,5" (one-based, inclusive) into sorted
+ * zero-based indices. Returns null when the text is malformed or out of range.
+ */
+export function parsePageRange(text: string, pageCount: number): number[] | null {
+  const selected = new Set<number>();
+  for (const part of text.split(/[,，\s]+/).filter(Boolean)) {
+    const match = /^(\d+)(?:\s*[-–~]\s*(\d+))?$/.exec(part);
+    if (!match) return null;
+    const from = Number(match[1]);
+    const to = match[2] ? Number(match[2]) : from;
+    if (from < 1 || to > pageCount || from > to) return null;
+    for (let page = from; page <= to; page++) selected.add(page - 1);
+  }
+  return [...selected].sort((a, b) => a - b);
+}
+
+/** Inverse of `parsePageRange`: zero-based indices to "1-3,5". */
+export function formatPageRange(indices: number[]): string {
+  const sorted = [...indices].sort((a, b) => a - b);
+  const parts: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    parts.push(start === sorted[i] ? `${start + 1}` : `${start + 1}-${sorted[i] + 1}`);
+  }
+  return parts.join(',');
+}
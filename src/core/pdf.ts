@@ -0,0 +1,46 @@
+import type { PageSize } from './types.ts';
+
+// Page rasterization shared by the browser and the CLI. Each side brings its own
+// pdf.js build and canvas; this only decides which pages to draw and at what size.
+
+/** PDF pages are drawn at this multiple of their size in points (144 dpi) unless told otherwise. */
+export const RENDER_SCALE = 2;
+
+const POINTS_PER_INCH = 72;
+
+/** Render scale for a resolution in dots per inch. */
+export const dpiScale = (dpi: number) => dpi / POINTS_PER_INCH;
+
+interface PdfPageLike {
+  getViewport(params: { scale: number }): { width: number; height: number };
+}
+
+interface PdfDocumentLike<P extends PdfPageLike> {
+  numPages: number;
+  getPage(pageNumber: number): Promise<P>;
+}
+
+export interface RenderedPage<T> {
+  image: T;
+  size: PageSize;
+}
+
+/**
+ * Draws the pages at `indices` (zero-based; all pages when omitted) with `draw` at
+ * `scale`, pairing each image with the page's size in points.
+ */
+export async function renderPages<P extends PdfPageLike, T>(
+  pdf: PdfDocumentLike<P>,
+  draw: (page: P, scale: number) => Promise<T>,
+  indices: number[] = Array.from({ length: pdf.numPages }, (_, i) => i),
+  scale = RENDER_SCALE,
+): Promise<RenderedPage<T>[]> {
+  const pages: RenderedPage<T>[] = [];
+  for (const index of indices) {
+    const page = await pdf.getPage(index + 1);
+    // At scale 1 the viewport is in PDF points, with the page's rotation applied.
+    const { width, height } = page.getViewport({ scale: 1 });
+    pages.push({ image: await draw(page, scale), size: { width, height } });
+  }
+  return pages;
+}
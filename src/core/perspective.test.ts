@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import type { PixelBuffer } from './localEngine.ts';
+import { detectPaper, estimateSkew, solveHomography, targetSize, warpPerspective, type Point, type Quad } from './perspective.ts';
+
+function apply(h: number[], { x, y }: Point): Point {
+  const w = h[6] * x + h[7] * y + h[8];
+  return { x: (h[0] * x + h[1] * y + h[2]) / w, y: (h[3] * x + h[4] * y + h[5]) / w };
+}
+
+function canvas(width: number, height: number, value: number): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4).fill(value);
+  for (let i = 3; i < data.length; i += 4) data[i] = 255;
+  return { data, width, height };
+}
+
+function fill(buf: PixelBuffer, inside: (x: number, y: number) => boolean, value: number) {
+  for (let y = 0; y < buf.height; y++) {
+    for (let x = 0; x < buf.width; x++) {
+      if (!inside(x, y)) continue;
+      const i = (y * buf.width + x) * 4;
+      buf.data[i] = buf.data[i + 1] = buf.data[i + 2] = value;
+    }
+  }
+}
+
+const square: Quad = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+
+describe('solveHomography', () => {
+  it('maps every corner onto its target', () => {
+    const skewed: Quad = [{ x: 12, y: 8 }, { x: 190, y: 20 }, { x: 170, y: 240 }, { x: 5, y: 210 }];
+    const h = solveHomography(square, skewed);
+    square.forEach((corner, i) => {
+      const mapped = apply(h, corner);
+      expect(mapped.x).toBeCloseTo(skewed[i].x, 6);
+      expect(mapped.y).toBeCloseTo(skewed[i].y, 6);
+    });
+  });
+
+  it('is the identity for matching corners', () => {
+    const h = solveHomography(square, square);
+    [1, 0, 0, 0, 1, 0, 0, 0, 1].forEach((value, i) => expect(h[i]).toBeCloseTo(value, 9));
+  });
+
+  it('rejects degenerate corners', () => {
+    const line: Quad = [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }, { x: 3, y: 3 }];
+    expect(() => solveHomography(square, line)).toThrow();
+  });
+});
+
+describe('warpPerspective', () => {
+  it('reproduces the image for its own corners', () => {
+    const src = canvas(20, 10, 255);
+    fill(src, x => x < 10, 0);
+    const out = warpPerspective(src, [{ x: 0, y: 0 }, { x: 19, y: 0 }, { x: 19, y: 9 }, { x: 0, y: 9 }], 20, 10);
+    expect(out.data[(5 * 20 + 2) * 4]).toBe(0);
+    expect(out.data[(5 * 20 + 15) * 4]).toBe(255);
+  });
+});
+
+describe('detectPaper', () => {
+  it('finds the corners of a bright sheet on a dark background', () => {
+    const photo = canvas(80, 60, 30);
+    fill(photo, (x, y) => x >= 10 && x < 70 && y >= 5 && y < 55, 240);
+    expect(detectPaper(photo)).toEqual([{ x: 10, y: 5 }, { x: 69, y: 5 }, { x: 69, y: 54 }, { x: 10, y: 54 }]);
+  });
+
+  it('gives up when no sheet stands out', () => {
+    const photo = canvas(80, 60, 30);
+    fill(photo, (x, y) => x < 5 && y < 5, 240);
+    expect(detectPaper(photo)).toBeNull();
+  });
+});
+
+describe('targetSize', () => {
+  it('uses the longer of opposite edges, or the paper ratio', () => {
+    const quad: Quad = [{ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 210, y: 300 }, { x: 0, y: 290 }];
+    expect(targetSize(quad, 'auto')).toEqual({ width: 210, height: 300 });
+    const a4 = targetSize(quad, 'a4');
+    expect(a4.height).toBe(300);
+    expect(a4.width / a4.height).toBeCloseTo(210 / 297, 2);
+  });
+});
+
+describe('estimateSkew', () => {
+  /** White page with dark text lines tilted by `degrees` (positive: clockwise). */
+  function lines(degrees: number): PixelBuffer {
+    const page = canvas(200, 200, 255);
+    const slope = Math.tan((degrees * Math.PI) / 180);
+    fill(page, (x, y) => {
+      const row = y - (x - 100) * slope;
+      return row > 20 && row < 180 && Math.round(row) % 20 === 0;
+    }, 0);
+    return page;
+  }
+
+  it('measures a clockwise tilt as positive', () => {
+    expect(estimateSkew(lines(2))).toBeCloseTo(2, 0);
+  });
+
+  it('measures a counter-clockwise tilt as negative', () => {
+    expect(estimateSkew(lines(-3))).toBeCloseTo(-3, 0);
+  });
+
+  it('returns 0 for a page without enough ink', () => {
+    expect(estimateSkew(canvas(50, 50, 255))).toBe(0);
+  });
+});
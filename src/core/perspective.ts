@@ -0,0 +1,192 @@
+import type { PixelBuffer } from './localEngine.ts';
+import { otsuThreshold, toGrayscale } from './print.ts';
+
+// Flattening phone photos of paper: finding the sheet, warping it to a rectangle and
+// straightening what tilt is left. Pure pixel math, shared by the browser and Node.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Corners in order: top-left, top-right, bottom-right, bottom-left. */
+export type Quad = [Point, Point, Point, Point];
+
+export type PaperSize = 'auto' | 'a4' | 'letter' | 'b5' | '16k' | '8k';
+
+/** Portrait width and height in millimetres. */
+export const PAPER_SIZES: Record<Exclude<PaperSize, 'auto'>, { width: number; height: number }> = {
+  a4: { width: 210, height: 297 },
+  letter: { width: 215.9, height: 279.4 },
+  b5: { width: 176, height: 250 },
+  '16k': { width: 195, height: 270 },
+  '8k': { width: 270, height: 390 },
+};
+
+/** The sheet must cover at least this share of the photo to count as found. */
+const MIN_PAPER_SHARE = 0.2;
+
+/**
+ * Finds the sheet of paper as the largest bright region and returns its corners, or
+ * null when nothing paper-like stands out. Meant for a downscaled copy of the photo.
+ */
+export function detectPaper(buf: PixelBuffer): Quad | null {
+  const { width, height } = buf;
+  const gray: PixelBuffer = { width, height, data: new Uint8ClampedArray(buf.data) };
+  toGrayscale(gray);
+  const threshold = otsuThreshold(gray);
+
+  const labels = new Int32Array(width * height).fill(-1);
+  let best = -1, bestSize = 0;
+  for (let start = 0, label = 0; start < labels.length; start++) {
+    if (labels[start] !== -1 || gray.data[start * 4] <= threshold) continue;
+    let size = 0;
+    const stack = [start];
+    labels[start] = label;
+    while (stack.length) {
+      const p = stack.pop()!;
+      size++;
+      const x = p % width;
+      const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, p - width, p + width];
+      for (const n of neighbours) {
+        if (n < 0 || n >= labels.length || labels[n] !== -1 || gray.data[n * 4] <= threshold) continue;
+        labels[n] = label;
+        stack.push(n);
+      }
+    }
+    if (size > bestSize) {
+      best = label;
+      bestSize = size;
+    }
+    label++;
+  }
+  if (best < 0 || bestSize < MIN_PAPER_SHARE * width * height) return null;
+
+  // The extremes of x+y and x-y over the region are its four corners.
+  let tl = { x: 0, y: 0, s: Infinity }, br = { x: 0, y: 0, s: -Infinity };
+  let tr = { x: 0, y: 0, d: -Infinity }, bl = { x: 0, y: 0, d: Infinity };
+  for (let p = 0; p < labels.length; p++) {
+    if (labels[p] !== best) continue;
+    const x = p % width;
+    const y = (p - x) / width;
+    const s = x + y;
+    const d = x - y;
+    if (s < tl.s) tl = { x, y, s };
+    if (s > br.s) br = { x, y, s };
+    if (d > tr.d) tr = { x, y, d };
+    if (d < bl.d) bl = { x, y, d };
+  }
+  return [{ x: tl.x, y: tl.y }, { x: tr.x, y: tr.y }, { x: br.x, y: br.y }, { x: bl.x, y: bl.y }];
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Output size for flattening `quad`: the longer of each pair of opposite edges, or
+ * the paper's aspect ratio at that resolution when a paper size is chosen.
+ */
+export function targetSize(quad: Quad, paper: PaperSize): { width: number; height: number } {
+  const width = Math.max(distance(quad[0], quad[1]), distance(quad[3], quad[2]));
+  const height = Math.max(distance(quad[0], quad[3]), distance(quad[1], quad[2]));
+  if (paper === 'auto') return { width: Math.round(width), height: Math.round(height) };
+  const sheet = PAPER_SIZES[paper];
+  const ratio = width > height ? sheet.height / sheet.width : sheet.width / sheet.height;
+  const long = Math.max(width, height);
+  return width > height
+    ? { width: Math.round(long), height: Math.round(long / ratio) }
+    : { width: Math.round(long * ratio), height: Math.round(long) };
+}
+
+/** Solves the homography that maps each `from` corner onto the matching `to` corner. */
+export function solveHomography(from: Quad, to: Quad): number[] {
+  const a: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+  // Gaussian elimination with partial pivoting on the 8x9 augmented matrix.
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) throw new Error('Corners are degenerate');
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < 9; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  return [...a.map((row, i) => row[8] / row[i]), 1];
+}
+
+/** Warps the `quad` area of `src` onto a `width` x `height` rectangle, bilinearly sampled. */
+export function warpPerspective(src: PixelBuffer, quad: Quad, width: number, height: number): PixelBuffer {
+  const rect: Quad = [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }];
+  const h = solveHomography(rect, quad);
+  const out = new Uint8ClampedArray(width * height * 4);
+  const sw = src.width, sh = src.height, sd = src.data;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = h[6] * x + h[7] * y + h[8];
+      const sx = (h[0] * x + h[1] * y + h[2]) / w;
+      const sy = (h[3] * x + h[4] * y + h[5]) / w;
+      const o = (y * width + x) * 4;
+      const x0 = Math.floor(sx), y0 = Math.floor(sy);
+      if (x0 < 0 || y0 < 0 || x0 >= sw - 1 || y0 >= sh - 1) {
+        out[o] = out[o + 1] = out[o + 2] = out[o + 3] = 255;
+        continue;
+      }
+      const fx = sx - x0, fy = sy - y0;
+      const i00 = (y0 * sw + x0) * 4, i10 = i00 + 4, i01 = i00 + sw * 4, i11 = i01 + 4;
+      for (let c = 0; c < 4; c++) {
+        const top = sd[i00 + c] + (sd[i10 + c] - sd[i00 + c]) * fx;
+        const bottom = sd[i01 + c] + (sd[i11 + c] - sd[i01 + c]) * fx;
+        out[o + c] = top + (bottom - top) * fy;
+      }
+    }
+  }
+  return { data: out, width, height };
+}
+
+/**
+ * Estimates how far the text lines are tilted, in degrees (positive: clockwise), by
+ * finding the angle whose row projection of dark pixels is sharpest. Only small
+ * angles are searched; larger turns are the page strip's job.
+ */
+export function estimateSkew(buf: PixelBuffer, maxAngle = 5, step = 0.2): number {
+  const { width, height, data } = buf;
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2] < 128) {
+        xs.push(x - width / 2);
+        ys.push(y - height / 2);
+      }
+    }
+  }
+  if (xs.length < 50) return 0;
+
+  const bins = Math.ceil(Math.hypot(width, height)) + 2;
+  let bestAngle = 0, bestScore = -1;
+  for (let angle = -maxAngle; angle <= maxAngle + 1e-9; angle += step) {
+    const t = (angle * Math.PI) / 180;
+    const sin = Math.sin(t), cos = Math.cos(t);
+    const profile = new Float64Array(bins);
+    for (let k = 0; k < xs.length; k++) {
+      profile[Math.round(ys[k] * cos - xs[k] * sin + bins / 2)]++;
+    }
+    let score = 0;
+    for (let b = 0; b < bins; b++) score += profile[b] * profile[b];
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return Math.round(bestAngle * 100) / 100;
+}
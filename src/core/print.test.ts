@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { PixelBuffer } from './localEngine.ts';
+import { applyColorMode, fallbackPageSize, fitRect, otsuThreshold, toGrayscale } from './print.ts';
+
+function row(...pixels: [number, number, number][]): PixelBuffer {
+  const data = new Uint8ClampedArray(pixels.flatMap(([r, g, b]) => [r, g, b, 255]));
+  return { data, width: pixels.length, height: 1 };
+}
+
+const values = (buf: PixelBuffer) => Array.from({ length: buf.width }, (_, x) => Array.from(buf.data.slice(x * 4, x * 4 + 3)));
+
+describe('toGrayscale', () => {
+  it('replaces each pixel with its luminance and keeps alpha', () => {
+    const buf = row([255, 0, 0], [255, 255, 255]);
+    buf.data[7] = 10;
+    toGrayscale(buf);
+    expect(values(buf)).toEqual([[76, 76, 76], [255, 255, 255]]);
+    expect(buf.data[7]).toBe(10);
+  });
+});
+
+describe('otsuThreshold', () => {
+  it('splits a two-tone page between its tones', () => {
+    const buf = row([20, 20, 20], [30, 30, 30], [200, 200, 200], [220, 220, 220], [210, 210, 210]);
+    const threshold = otsuThreshold(buf);
+    expect(threshold).toBeGreaterThanOrEqual(30);
+    expect(threshold).toBeLessThan(200);
+  });
+});
+
+describe('applyColorMode', () => {
+  it('leaves colour pages untouched', () => {
+    const buf = row([255, 0, 0]);
+    applyColorMode(buf, 'color');
+    expect(values(buf)).toEqual([[255, 0, 0]]);
+  });
+
+  it('reduces black and white pages to pure black and white', () => {
+    const buf = row([40, 40, 40], [90, 60, 60], [230, 230, 230], [250, 240, 240]);
+    applyColorMode(buf, 'bw');
+    expect(values(buf).map(([value]) => value)).toEqual([0, 0, 255, 255]);
+  });
+
+  it('keeps grey levels in grayscale mode', () => {
+    const buf = row([0, 0, 255]);
+    applyColorMode(buf, 'grayscale');
+    expect(values(buf)).toEqual([[29, 29, 29]]);
+  });
+});
+
+describe('page geometry', () => {
+  it('gives sizeless images an A4 long side', () => {
+    expect(fallbackPageSize(1000, 2000)).toEqual({ width: 421, height: 842 });
+    expect(fallbackPageSize(2000, 1000)).toEqual({ width: 842, height: 421 });
+  });
+
+  it('centres content in a box without distorting it', () => {
+    expect(fitRect({ width: 100, height: 50 }, { x: 10, y: 10, width: 200, height: 200 }))
+      .toEqual({ x: 10, y: 60, width: 200, height: 100 });
+  });
+});
@@ -0,0 +1,73 @@
+import type { PixelBuffer } from './localEngine.ts';
+import type { ColorMode, PageSize } from './types.ts';
+
+// Print-oriented pixel conversions and page geometry for exports.
+
+/** Converts to luminance in place, keeping the buffer RGBA. */
+export function toGrayscale(buf: PixelBuffer): void {
+  const { data } = buf;
+  for (let i = 0; i < data.length; i += 4) {
+    const y = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    data[i] = data[i + 1] = data[i + 2] = y;
+  }
+}
+
+/** Otsu's threshold over the red channel of an already grayscale buffer. */
+export function otsuThreshold(buf: PixelBuffer): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < buf.data.length; i += 4) histogram[buf.data[i]]++;
+  const total = buf.width * buf.height;
+  let sumAll = 0;
+  for (let v = 0; v < 256; v++) sumAll += v * histogram[v];
+
+  let best = 128, bestVariance = -1, weightB = 0, sumB = 0;
+  for (let t = 0; t < 256; t++) {
+    weightB += histogram[t];
+    if (weightB === 0) continue;
+    const weightF = total - weightB;
+    if (weightF === 0) break;
+    sumB += t * histogram[t];
+    const meanB = sumB / weightB;
+    const meanF = (sumAll - sumB) / weightF;
+    const variance = weightB * weightF * (meanB - meanF) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+  return best;
+}
+
+/** Applies the export color mode in place; `bw` leaves only pure black and white. */
+export function applyColorMode(buf: PixelBuffer, mode: ColorMode): void {
+  if (mode === 'color') return;
+  toGrayscale(buf);
+  if (mode === 'grayscale') return;
+  const threshold = otsuThreshold(buf);
+  const { data } = buf;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i + 1] = data[i + 2] = data[i] > threshold ? 255 : 0;
+  }
+}
+
+export const MM_PER_POINT = 25.4 / 72;
+
+/** A4's long side; pages without a known physical size are scaled to it. */
+const FALLBACK_LONG_SIDE = 842;
+
+/** Page size for an image with no physical size: its aspect ratio, A4's long side. */
+export function fallbackPageSize(pixelWidth: number, pixelHeight: number): PageSize {
+  const scale = FALLBACK_LONG_SIDE / Math.max(pixelWidth, pixelHeight);
+  return { width: pixelWidth * scale, height: pixelHeight * scale };
+}
+
+/** Largest rectangle with the content's aspect ratio centered in the box. */
+export function fitRect(
+  content: { width: number; height: number },
+  box: { x: number; y: number; width: number; height: number },
+) {
+  const scale = Math.min(box.width / content.width, box.height / content.height);
+  const width = content.width * scale;
+  const height = content.height * scale;
+  return { x: box.x + (box.width - width) / 2, y: box.y + (box.height - height) / 2, width, height };
+}
@@ -0,0 +1,15 @@
+// The prompt sent with every erase call: a template the user's instruction is
+// placed into. Presets can carry their own template; the server falls back to this one.
+
+export const INSTRUCTION_PLACEHOLDER = '{instruction}';
+
+export const DEFAULT_TEMPLATE = `TASK: Image Editing.
+INSTRUCTION: ${INSTRUCTION_PLACEHOLDER}
+REQUIREMENT: Output ONLY the edited image. Do not add any new elements not requested. Maintain the original resolution and style.`;
+
+/** Fills the instruction into the template, appending it if the template has no placeholder. */
+export function renderPrompt(template: string, instruction: string): string {
+  return template.includes(INSTRUCTION_PLACEHOLDER)
+    ? template.split(INSTRUCTION_PLACEHOLDER).join(instruction.trim())
+    : `${template.trimEnd()}\nINSTRUCTION: ${instruction.trim()}`;
+}
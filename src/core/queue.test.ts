@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter, runConcurrent } from './queue.ts';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('runConcurrent', () => {
+  it('runs every item with at most `concurrency` in flight', async () => {
+    let active = 0;
+    let peak = 0;
+    const seen: number[] = [];
+    await runConcurrent([1, 2, 3, 4, 5, 6, 7], 3, async (item) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, item % 3));
+      seen.push(item);
+      active--;
+    });
+    expect(peak).toBe(3);
+    expect(seen.sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('stops starting items after a failure and rethrows it', async () => {
+    const started: number[] = [];
+    await expect(runConcurrent([1, 2, 3, 4], 1, async (item) => {
+      started.push(item);
+      if (item === 2) throw new Error('broken');
+    })).rejects.toThrow('broken');
+    expect(started).toEqual([1, 2]);
+  });
+
+  it('handles an empty list and a zero concurrency', async () => {
+    const worker = vi.fn(async () => {});
+    await runConcurrent([], 4, worker);
+    await runConcurrent([1, 2], 0, worker);
+    expect(worker).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('lets `requestsPerMinute` through, then waits for the window to slide', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(2);
+    await limiter.acquire();
+    await limiter.acquire();
+    let third = false;
+    const pending = limiter.acquire().then(() => {
+      third = true;
+    });
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(third).toBe(false);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await pending;
+    expect(third).toBe(true);
+  });
+
+  it('holds every caller back while paused', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(100);
+    limiter.pause(5_000);
+    let done = false;
+    const pending = limiter.acquire().then(() => {
+      done = true;
+    });
+    await vi.advanceTimersByTimeAsync(4_999);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await pending;
+    expect(done).toBe(true);
+  });
+});
@@ -0,0 +1,59 @@
+import { sleep } from './retry.ts';
+
+/**
+ * Sliding-window limiter: at most `requestsPerMinute` acquisitions in any 60s window.
+ * `pause` holds every caller back, e.g. after the upstream reports an exhausted quota.
+ */
+export class RateLimiter {
+  private readonly windowMs = 60_000;
+  private readonly timestamps: number[] = [];
+  private resumeAt = 0;
+
+  constructor(private readonly requestsPerMinute: number) {}
+
+  async acquire(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      while (this.timestamps.length && now - this.timestamps[0] >= this.windowMs) this.timestamps.shift();
+
+      let waitMs = this.resumeAt - now;
+      if (this.requestsPerMinute > 0 && this.timestamps.length >= this.requestsPerMinute) {
+        waitMs = Math.max(waitMs, this.timestamps[0] + this.windowMs - now);
+      }
+      if (waitMs <= 0) {
+        this.timestamps.push(now);
+        return;
+      }
+      await sleep(waitMs, signal);
+    }
+  }
+
+  pause(ms: number) {
+    this.resumeAt = Math.max(this.resumeAt, Date.now() + ms);
+  }
+}
+
+/**
+ * Feeds `items` to `worker` with at most `concurrency` calls in flight. Items are
+ * started in order but may finish in any order. The first rejection stops new items
+ * from starting and is rethrown once the in-flight calls settle.
+ */
+export async function runConcurrent<T>(items: T[], concurrency: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  let failure: { error: unknown } | null = null;
+
+  const lane = async () => {
+    while (!failure && next < items.length) {
+      const item = items[next++];
+      try {
+        await worker(item);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+  await Promise.all(Array.from({ length: lanes }, lane));
+  if (failure) throw (failure as { error: unknown }).error;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { PixelBuffer } from './localEngine.ts';
+import { findChangedRegions } from './regions.ts';
+
+function page(width: number, height: number): PixelBuffer {
+  return { data: new Uint8ClampedArray(width * height * 4).fill(255), width, height };
+}
+
+function paint(buf: PixelBuffer, x0: number, y0: number, w: number, h: number, value: number) {
+  for (let y = y0; y < y0 + h; y++) {
+    for (let x = x0; x < x0 + w; x++) {
+      const i = (y * buf.width + x) * 4;
+      buf.data[i] = buf.data[i + 1] = buf.data[i + 2] = value;
+    }
+  }
+}
+
+describe('findChangedRegions', () => {
+  it('finds nothing when the images match', () => {
+    expect(findChangedRegions(page(64, 64), page(64, 64))).toEqual([]);
+  });
+
+  it('reports an erased mark as one white region aligned to cells', () => {
+    const source = page(64, 64);
+    paint(source, 10, 10, 12, 6, 0);
+    const regions = findChangedRegions(source, page(64, 64));
+    expect(regions).toEqual([{ x: 8, y: 8, width: 16, height: 8, fill: 'white' }]);
+  });
+
+  it('marks regions that are not blank in the result as patches', () => {
+    const source = page(64, 64);
+    const result = page(64, 64);
+    paint(result, 40, 40, 8, 8, 0);
+    expect(findChangedRegions(source, result)).toEqual([{ x: 40, y: 40, width: 8, height: 8, fill: 'patch' }]);
+  });
+
+  it('keeps distant changes apart and joins close ones', () => {
+    const source = page(128, 64);
+    paint(source, 0, 0, 8, 8, 0);
+    paint(source, 16, 0, 8, 8, 0);
+    paint(source, 100, 40, 8, 8, 0);
+    const regions = findChangedRegions(source, page(128, 64));
+    expect(regions.map(({ x, width }) => [x, width])).toEqual([[0, 24], [96, 16]]);
+  });
+
+  it('ignores changes below the threshold', () => {
+    const source = page(32, 32);
+    paint(source, 0, 0, 32, 32, 230);
+    expect(findChangedRegions(source, page(32, 32))).toEqual([]);
+  });
+
+  it('rejects images of different sizes', () => {
+    expect(() => findChangedRegions(page(8, 8), page(16, 8))).toThrow();
+  });
+});
@@ -0,0 +1,99 @@
+import type { PixelBuffer } from './localEngine.ts';
+
+export interface ChangedRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** `white` when the result is blank paper there, so a plain fill is enough. */
+  fill: 'white' | 'patch';
+}
+
+export interface RegionOptions {
+  /** Side of the square cells changes are detected in, in pixels. */
+  cellSize?: number;
+  /** Gray-level difference (0-255) a pixel needs to count as changed. */
+  threshold?: number;
+  /** Share of changed pixels that marks a cell as changed; keeps model resampling noise out. */
+  minShare?: number;
+}
+
+const WHITE_LEVEL = 235;
+const WHITE_SHARE = 0.98;
+
+const gray = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+/**
+ * Finds the areas where `result` differs from `source` (same size) and returns their
+ * bounding boxes, grouping neighbouring changed cells so one erased answer becomes
+ * one region rather than dozens of tiles.
+ */
+export function findChangedRegions(source: PixelBuffer, result: PixelBuffer, options: RegionOptions = {}): ChangedRegion[] {
+  const { width, height } = source;
+  if (result.width !== width || result.height !== height) {
+    throw new Error('Region detection needs images of the same size');
+  }
+  const cell = options.cellSize ?? 8;
+  const threshold = options.threshold ?? 48;
+  const minShare = options.minShare ?? 0.05;
+  const cols = Math.ceil(width / cell);
+  const rows = Math.ceil(height / cell);
+
+  const changed = new Uint8Array(cols * rows);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      let count = 0, total = 0;
+      for (let y = r * cell; y < Math.min(height, (r + 1) * cell); y++) {
+        for (let x = c * cell; x < Math.min(width, (c + 1) * cell); x++) {
+          const i = (y * width + x) * 4;
+          if (Math.abs(gray(source.data, i) - gray(result.data, i)) > threshold) count++;
+          total++;
+        }
+      }
+      if (count / total >= minShare) changed[r * cols + c] = 1;
+    }
+  }
+
+  // Group changed cells, bridging one-cell gaps, and keep each group's bounding box.
+  const seen = new Uint8Array(cols * rows);
+  const regions: ChangedRegion[] = [];
+  for (let start = 0; start < changed.length; start++) {
+    if (!changed[start] || seen[start]) continue;
+    let minC = cols, minR = rows, maxC = -1, maxR = -1;
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length) {
+      const p = stack.pop()!;
+      const pr = Math.floor(p / cols);
+      const pc = p % cols;
+      minC = Math.min(minC, pc); maxC = Math.max(maxC, pc);
+      minR = Math.min(minR, pr); maxR = Math.max(maxR, pr);
+      for (let dr = -2; dr <= 2; dr++) {
+        for (let dc = -2; dc <= 2; dc++) {
+          const nr = pr + dr, nc = pc + dc;
+          if (nr < 0 || nc < 0 || nr >= rows || nc >= cols) continue;
+          const n = nr * cols + nc;
+          if (changed[n] && !seen[n]) {
+            seen[n] = 1;
+            stack.push(n);
+          }
+        }
+      }
+    }
+    const x = minC * cell;
+    const y = minR * cell;
+    const region = { x, y, width: Math.min(width, (maxC + 1) * cell) - x, height: Math.min(height, (maxR + 1) * cell) - y };
+    regions.push({ ...region, fill: isBlank(result, region) ? 'white' : 'patch' });
+  }
+  return regions;
+}
+
+function isBlank(buf: PixelBuffer, rect: { x: number; y: number; width: number; height: number }): boolean {
+  let white = 0;
+  for (let y = rect.y; y < rect.y + rect.height; y++) {
+    for (let x = rect.x; x < rect.x + rect.width; x++) {
+      if (gray(buf.data, (y * buf.width + x) * 4) >= WHITE_LEVEL) white++;
+    }
+  }
+  return white / (rect.width * rect.height) >= WHITE_SHARE;
+}
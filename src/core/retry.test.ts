@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { isAbortError, sleep, withRetry } from './retry.ts';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('withRetry', () => {
+  it('returns the first successful attempt', async () => {
+    const fn = vi.fn(async (attempt: number) => {
+      if (attempt < 2) throw new Error('flaky');
+      return 'ok';
+    });
+    await expect(withRetry(fn, { baseDelayMs: 0 })).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the configured retries', async () => {
+    const fn = vi.fn(async () => {
+      throw new Error('down');
+    });
+    await expect(withRetry(fn, { retries: 2, baseDelayMs: 0 })).rejects.toThrow('down');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry errors that are not retryable', async () => {
+    const fn = vi.fn(async () => {
+      throw new Error('bad request');
+    });
+    await expect(withRetry(fn, { baseDelayMs: 0, isRetryable: () => false })).rejects.toThrow('bad request');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('backs off exponentially within the cap', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const delays: number[] = [];
+    const fn = async () => {
+      throw new Error('down');
+    };
+    vi.useFakeTimers();
+    const run = withRetry(fn, { retries: 4, baseDelayMs: 100, maxDelayMs: 500, onRetry: (_err, _attempt, delay) => delays.push(delay) });
+    const settled = expect(run).rejects.toThrow('down');
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(delays).toEqual([100, 200, 400, 500]);
+    vi.mocked(Math.random).mockRestore();
+  });
+
+  it('stops waiting as soon as the signal fires', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn(async () => {
+      throw new Error('down');
+    });
+    // Aborts while the backoff is waiting.
+    const run = withRetry(fn, { baseDelayMs: 60_000, signal: controller.signal, onRetry: () => queueMicrotask(() => controller.abort()) });
+    await expect(run).rejects.toSatisfy(isAbortError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('sleep', () => {
+  it('rejects right away with an already aborted signal', async () => {
+    await expect(sleep(10, AbortSignal.abort())).rejects.toSatisfy(isAbortError);
+  });
+});
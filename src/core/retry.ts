@@ -0,0 +1,51 @@
+export interface RetryOptions {
+  /** Extra attempts after the first one. */
+  retries?: number;
+  /** Delay before the first retry; doubles on every further attempt. */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  /** Only errors for which this returns true are retried. */
+  isRetryable?: (err: unknown) => boolean;
+  onRetry?: (err: unknown, attempt: number, delayMs: number) => void;
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError'
+    || (err instanceof Error && err.name === 'AbortError');
+}
+
+/** Resolves after `ms`, or rejects with an AbortError as soon as `signal` fires. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** Runs `fn`, retrying retryable failures with exponential backoff and full jitter. */
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries = 3, baseDelayMs = 1000, maxDelayMs = 30_000, signal, isRetryable = () => true, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (err) {
+      if (signal?.aborted || isAbortError(err) || attempt >= retries || !isRetryable(err)) throw err;
+      const delayMs = Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+      onRetry?.(err, attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { PixelBuffer } from './localEngine.ts';
+import { needsTiling, planTiles, stitchTiles } from './tiles.ts';
+
+function solid(width: number, height: number, value: number): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4).fill(value);
+  return { data, width, height };
+}
+
+describe('planTiles', () => {
+  it('sends pages no larger than a tile whole', () => {
+    expect(planTiles(800, 600, 1024, 128)).toEqual([{ x: 0, y: 0, width: 800, height: 600, overlapLeft: 0, overlapTop: 0 }]);
+    expect(needsTiling(800, 600, { enabled: true, tileSize: 1024, overlap: 128 })).toBe(false);
+    expect(needsTiling(3000, 600, { enabled: false, tileSize: 1024, overlap: 128 })).toBe(false);
+  });
+
+  it('covers the page with tiles that overlap by at least the requested amount', () => {
+    const tiles = planTiles(3000, 2000, 1024, 128);
+    const xs = [...new Set(tiles.map(tile => tile.x))];
+    const ys = [...new Set(tiles.map(tile => tile.y))];
+    expect(tiles).toHaveLength(xs.length * ys.length);
+    expect(xs[0]).toBe(0);
+    expect(xs.at(-1)! + 1024).toBe(3000);
+    expect(ys.at(-1)! + 1024).toBe(2000);
+    for (const tile of tiles) {
+      if (tile.x > 0) expect(tile.overlapLeft).toBeGreaterThanOrEqual(128);
+      if (tile.y > 0) expect(tile.overlapTop).toBeGreaterThanOrEqual(128);
+    }
+  });
+
+  it('limits the overlap to half a tile', () => {
+    expect(planTiles(1500, 500, 1000, 900)).toEqual(planTiles(1500, 500, 1000, 500));
+  });
+});
+
+describe('stitchTiles', () => {
+  it('reassembles identical tiles into the same image', () => {
+    const tiles = planTiles(50, 30, 20, 6);
+    const out = stitchTiles(50, 30, tiles.map(tile => ({ tile, pixels: solid(tile.width, tile.height, 200) })));
+    expect(out.width).toBe(50);
+    expect(out.height).toBe(30);
+    expect(out.data.every(value => value >= 199)).toBe(true);
+  });
+
+  it('blends the seam between differing tiles', () => {
+    const tiles = planTiles(30, 10, 20, 10);
+    expect(tiles).toHaveLength(2);
+    const out = stitchTiles(30, 10, [
+      { tile: tiles[0], pixels: solid(20, 10, 0) },
+      { tile: tiles[1], pixels: solid(20, 10, 250) },
+    ]);
+    const at = (x: number) => out.data[x * 4];
+    expect(at(0)).toBe(0);
+    expect(at(29)).toBe(250);
+    const seam = [...Array(tiles[1].overlapLeft).keys()].map(dx => at(tiles[1].x + dx));
+    expect(seam).toEqual([...seam].sort((a, b) => a - b));
+    expect(seam[0]).toBeGreaterThan(0);
+    expect(seam.at(-1)).toBeLessThan(250);
+  });
+});
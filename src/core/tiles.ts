@@ -0,0 +1,78 @@
+import type { PixelBuffer } from './localEngine.ts';
+
+// Splitting large pages into overlapping tiles so the model sees small print at full
+// resolution, and stitching the edited tiles back with soft seams.
+
+export interface TilingOptions {
+  enabled: boolean;
+  /** Longest side of a tile, in pixels. Pages no larger than this are sent whole. */
+  tileSize: number;
+  /** Minimum number of pixels neighbouring tiles share; the seam is blended across it. */
+  overlap: number;
+}
+
+export const DEFAULT_TILING_OPTIONS: TilingOptions = { enabled: false, tileSize: 1024, overlap: 128 };
+
+export interface Tile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Columns shared with the tile to the left and rows shared with the tile above. */
+  overlapLeft: number;
+  overlapTop: number;
+}
+
+export const needsTiling = (width: number, height: number, { enabled, tileSize }: TilingOptions) =>
+  enabled && Math.max(width, height) > tileSize;
+
+/** Evenly spaced tile starts along one axis; the last tile ends flush with the edge. */
+function axisStarts(length: number, tileSize: number, overlap: number): { starts: number[]; size: number } {
+  if (length <= tileSize) return { starts: [0], size: length };
+  const count = Math.ceil((length - overlap) / (tileSize - overlap));
+  const step = (length - tileSize) / (count - 1);
+  return { starts: Array.from({ length: count }, (_, i) => Math.round(i * step)), size: tileSize };
+}
+
+/** Covers a page with overlapping tiles, row by row. */
+export function planTiles(width: number, height: number, tileSize: number, overlap: number): Tile[] {
+  const clamped = Math.max(0, Math.min(overlap, Math.floor(tileSize / 2)));
+  const cols = axisStarts(width, tileSize, clamped);
+  const rows = axisStarts(height, tileSize, clamped);
+  const tiles: Tile[] = [];
+  for (const [r, y] of rows.starts.entries()) {
+    for (const [c, x] of cols.starts.entries()) {
+      tiles.push({
+        x,
+        y,
+        width: cols.size,
+        height: rows.size,
+        overlapLeft: c > 0 ? cols.starts[c - 1] + cols.size - x : 0,
+        overlapTop: r > 0 ? rows.starts[r - 1] + rows.size - y : 0,
+      });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Reassembles edited tiles, given in `planTiles` order and at their planned size. Each
+ * tile fades in across the area it shares with the tiles before it, so seams blend
+ * linearly instead of showing a hard edge.
+ */
+export function stitchTiles(width: number, height: number, parts: { tile: Tile; pixels: PixelBuffer }[]): PixelBuffer {
+  const out = new Uint8ClampedArray(width * height * 4);
+  for (const { tile, pixels } of parts) {
+    for (let dy = 0; dy < tile.height; dy++) {
+      const ay = tile.overlapTop ? Math.min(1, (dy + 0.5) / tile.overlapTop) : 1;
+      for (let dx = 0; dx < tile.width; dx++) {
+        const alpha = ay * (tile.overlapLeft ? Math.min(1, (dx + 0.5) / tile.overlapLeft) : 1);
+        const i = (dy * pixels.width + dx) * 4;
+        const o = ((tile.y + dy) * width + tile.x + dx) * 4;
+        for (let c = 0; c < 3; c++) out[o + c] = out[o + c] + (pixels.data[i + c] - out[o + c]) * alpha;
+        out[o + 3] = 255;
+      }
+    }
+  }
+  return { data: out, width, height };
+}
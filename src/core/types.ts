@@ -0,0 +1,141 @@
+import type { ErrorKind, ResponseMetadata } from './errors.ts';
+import type { LocalOptions } from './localEngine.ts';
+
+// Request/response contract for POST /api/erase, shared by the browser client and the server.
+
+export interface InlineImage {
+  /** Base64 payload without the `data:` prefix. */
+  data: string;
+  mimeType: string;
+}
+
+export interface EraseRequestBody {
+  image: InlineImage;
+  instruction: string;
+  /** Prompt template the instruction is placed into; the server's default when omitted. */
+  template?: string;
+  /** Black/white guidance image the size of `image`: white marks the only area that may change. */
+  mask?: InlineImage;
+  /** Ask the model again even if this exact request is cached; the new reply replaces the cached one. */
+  fresh?: boolean;
+}
+
+export interface EraseResponseBody {
+  image: InlineImage;
+  /** Any text the model returned alongside the image. */
+  text: string;
+  backend: string;
+  /** True when the result was served from the server's cache without a model call. */
+  cached: boolean;
+  /** What the model reported about the reply; absent for cached results. */
+  metadata?: ResponseMetadata;
+}
+
+export interface EraseErrorBody {
+  error: string;
+  /** Text the model replied with instead of an image, if any. */
+  text?: string;
+  kind?: ErrorKind;
+  metadata?: ResponseMetadata;
+}
+
+export type PageStatus = 'pending' | 'running' | 'done' | 'failed' | 'skipped';
+
+export interface FidelityResult {
+  /** Mean structural similarity of the printed content, 0-1. */
+  score: number;
+  /** Below the configured threshold: the model probably altered printed content. */
+  flagged: boolean;
+  heatmap: string;
+}
+
+/**
+ * A page's failure as data rather than text, so it is worded in whatever language
+ * the UI is in when it is shown (see `describeError` in lib/errors.ts).
+ */
+export interface PageError {
+  /** Absent for failures reopened from history, which keep the message they were recorded with. */
+  kind?: ErrorKind;
+  /** Text the model replied with instead of an image. */
+  modelText?: string;
+  /** The model's block or finish reason, when it was not a normal finish. */
+  reason?: string;
+  /** The server's or browser's own message. */
+  message?: string;
+}
+
+export interface PageState {
+  status: PageStatus;
+  /** The last failure, shown while the page is `failed`. */
+  error?: PageError;
+  /** Attempts made during the latest run, including automatic retries. */
+  attempts: number;
+  /** Tiles finished so far while a large page is processed in tiles. */
+  tiles?: { done: number; total: number };
+}
+
+export interface FidelityPolicy {
+  enabled: boolean;
+  /** Scores below this flag the page. */
+  threshold: number;
+  /** How many times a flagged page is regenerated automatically; 0 disables it. */
+  autoRetries: number;
+}
+
+export const DEFAULT_FIDELITY_POLICY: FidelityPolicy = { enabled: true, threshold: 0.8, autoRetries: 0 };
+
+/**
+ * Which engines run on each page: the model, the local pixel passes, or both
+ * chained in the given order.
+ */
+export type EngineMode = 'ai' | 'local' | 'local-ai' | 'ai-local';
+
+export const usesAi = (mode: EngineMode) => mode !== 'local';
+export const usesLocal = (mode: EngineMode) => mode !== 'ai';
+
+/** Everything one processing pass needs besides the pages themselves. */
+export interface PassConfig {
+  instruction: string;
+  /** Prompt template from the preset in use; recipes saved before templates existed have none. */
+  template?: string;
+  engine: EngineMode;
+  local: LocalOptions;
+}
+
+/** Physical page size in PDF points (1/72 inch). */
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+export type ColorMode = 'color' | 'grayscale' | 'bw';
+
+export interface ExportOptions {
+  /**
+   * `original` patches the uploaded PDF in place, keeping its text and vectors;
+   * documents that did not come from a PDF fall back to `pdf`.
+   */
+  format: 'pdf' | 'image' | 'original';
+  /** How page images are encoded, in image files and inside PDFs. */
+  imageType: 'png' | 'jpeg';
+  /** JPEG quality, 0-1. */
+  quality: number;
+  /** `bw` is a 1-bit "toner saver" rendering. */
+  color: ColorMode;
+  /** PDF only: blank border around each page, in millimetres. */
+  marginMm: number;
+  /** PDF only: two pages side by side on each sheet. */
+  twoUp: boolean;
+  /** Also export the removed marks: transparent PNGs and a PDF with them on a layer. */
+  answers: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'pdf',
+  imageType: 'png',
+  quality: 0.85,
+  color: 'color',
+  marginMm: 0,
+  twoUp: false,
+  answers: false,
+};
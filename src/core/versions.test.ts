@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { canRedo, canUndo, checkout, createStack, currentResult, currentVersion, lineage, pushVersion, redo, replaceOriginal, undo } from './versions.ts';
+
+const pass = (image: string) => ({ image, instruction: `make ${image}`, engine: 'ai' as const });
+
+describe('version stacks', () => {
+  it('starts at the original, which is not a result', () => {
+    const stack = createStack('original');
+    expect(currentResult(stack)).toBeNull();
+    expect(canUndo(stack)).toBe(false);
+    expect(canRedo(stack)).toBe(false);
+  });
+
+  it('undoes and redoes along the path that was taken', () => {
+    let stack = pushVersion(pushVersion(createStack('original'), pass('a')), pass('b'));
+    expect(currentResult(stack)).toBe('b');
+    stack = undo(undo(stack));
+    expect(currentResult(stack)).toBeNull();
+    expect(undo(stack)).toBe(stack);
+    stack = redo(stack);
+    expect(currentResult(stack)).toBe('a');
+    stack = redo(stack);
+    expect(currentResult(stack)).toBe('b');
+    expect(redo(stack)).toBe(stack);
+  });
+
+  it('branches from an older version and drops the redo history', () => {
+    let stack = pushVersion(pushVersion(createStack('original'), pass('a')), pass('b'));
+    stack = undo(stack);
+    stack = pushVersion(stack, pass('c'));
+    expect(canRedo(stack)).toBe(false);
+    expect(currentVersion(stack).parent).toBe(1);
+    expect(lineage(stack).map(version => version.image)).toEqual(['original', 'a', 'c']);
+    expect(stack.versions.map(version => version.image)).toEqual(['original', 'a', 'b', 'c']);
+  });
+
+  it('checks out any existing version', () => {
+    const stack = pushVersion(pushVersion(createStack('original'), pass('a')), pass('b'));
+    expect(currentResult(checkout(stack, 1))).toBe('a');
+    expect(checkout(stack, 9)).toBe(stack);
+  });
+
+  it('replaces the original and keeps the versions made from it', () => {
+    const stack = replaceOriginal(pushVersion(createStack('preview'), pass('a')), 'full');
+    expect(stack.versions[0].image).toBe('full');
+    expect(currentResult(stack)).toBe('a');
+  });
+});
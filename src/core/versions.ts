@@ -0,0 +1,85 @@
+import type { EngineMode, FidelityResult } from './types.ts';
+
+// Each page keeps every image it has been through as an append-only tree: the
+// original upload is version 0 and every pass adds a child of the version it ran on.
+// Checking out an older version and running another pass starts a new branch.
+
+export interface PageVersion {
+  id: number;
+  /** Version this one was produced from; null for the original. */
+  parent: number | null;
+  image: string;
+  /** Instruction of the pass that produced this version; empty for the original and local-only passes. */
+  instruction: string;
+  engine: EngineMode | null;
+  fidelity?: FidelityResult;
+  createdAt: number;
+}
+
+export interface VersionStack {
+  versions: PageVersion[];
+  current: number;
+  /** Versions undone from `current`, most recent last. */
+  redo: number[];
+}
+
+export function createStack(original: string): VersionStack {
+  return {
+    versions: [{ id: 0, parent: null, image: original, instruction: '', engine: null, createdAt: Date.now() }],
+    current: 0,
+    redo: [],
+  };
+}
+
+export const currentVersion = (stack: VersionStack) => stack.versions[stack.current];
+
+/** The edited image, or null while the page is still at its original. */
+export const currentResult = (stack: VersionStack) => (stack.current === 0 ? null : currentVersion(stack).image);
+
+export function pushVersion(
+  stack: VersionStack,
+  version: Pick<PageVersion, 'image' | 'instruction' | 'engine' | 'fidelity'>,
+  parent = stack.current,
+): VersionStack {
+  const id = stack.versions.length;
+  return {
+    versions: [...stack.versions, { ...version, id, parent, createdAt: Date.now() }],
+    current: id,
+    redo: [],
+  };
+}
+
+/** Puts another rendering of the same page in place of the original, keeping the versions made from it. */
+export const replaceOriginal = (stack: VersionStack, image: string): VersionStack => ({
+  ...stack,
+  versions: stack.versions.map(version => (version.id === 0 ? { ...version, image } : version)),
+});
+
+export const canUndo = (stack: VersionStack) => currentVersion(stack).parent !== null;
+export const canRedo = (stack: VersionStack) => stack.redo.length > 0;
+
+export function undo(stack: VersionStack): VersionStack {
+  const parent = currentVersion(stack).parent;
+  if (parent === null) return stack;
+  return { ...stack, current: parent, redo: [...stack.redo, stack.current] };
+}
+
+export function redo(stack: VersionStack): VersionStack {
+  if (!canRedo(stack)) return stack;
+  return { ...stack, current: stack.redo[stack.redo.length - 1], redo: stack.redo.slice(0, -1) };
+}
+
+/** Makes any version current; the next pass branches from it. */
+export function checkout(stack: VersionStack, id: number): VersionStack {
+  if (id === stack.current || !stack.versions[id]) return stack;
+  return { ...stack, current: id, redo: [] };
+}
+
+/** Versions from the original to the current one. */
+export function lineage(stack: VersionStack): PageVersion[] {
+  const path: PageVersion[] = [];
+  for (let v: PageVersion | undefined = currentVersion(stack); v; v = v.parent === null ? undefined : stack.versions[v.parent]) {
+    path.unshift(v);
+  }
+  return path;
+}
@@ -0,0 +1,84 @@
+import { PDFDocument, PDFHexString, PDFName, PDFOperator, PDFOperatorNames, type PDFPage } from 'pdf-lib';
+import { extractAnswers } from '../core/answers.ts';
+import { fallbackPageSize } from '../core/print.ts';
+import type { PageSize } from '../core/types.ts';
+import { createCanvas, rasterize } from './canvas.ts';
+import { t } from './i18n.ts';
+import type { ExportFile } from './export.ts';
+
+export interface AnswerPage {
+  source: string;
+  /** The cleaned page. */
+  result: string;
+  size: PageSize | null;
+}
+
+const pngBytes = async (canvas: HTMLCanvasElement): Promise<Uint8Array> => {
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error(t('error.exportImage'));
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+interface AnswerLayer {
+  png: Uint8Array;
+  width: number;
+  height: number;
+}
+
+/** The marks removed from a page, as a transparent PNG the size of the source. */
+async function answerLayer(page: AnswerPage): Promise<AnswerLayer> {
+  const [sourceCanvas, sourceCtx] = await rasterize(page.source);
+  const { width, height } = sourceCanvas;
+  const [, resultCtx] = await rasterize(page.result, width, height);
+  const answers = extractAnswers(sourceCtx.getImageData(0, 0, width, height), resultCtx.getImageData(0, 0, width, height));
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.putImageData(new ImageData(answers.data, width, height), 0, 0);
+  return { png: await pngBytes(canvas), width, height };
+}
+
+/** Wraps whatever `draw` adds to the page in the optional content group `tag` refers to. */
+function drawInLayer(page: PDFPage, tag: string, draw: () => void) {
+  page.pushOperators(PDFOperator.of(PDFOperatorNames.BeginMarkedContentSequence, [PDFName.of('OC'), PDFName.of(tag)]));
+  draw();
+  page.pushOperators(PDFOperator.of(PDFOperatorNames.EndMarkedContent));
+}
+
+/**
+ * Builds a PDF of blank pages with the answers on a layer of their own, which PDF
+ * viewers list under layers and can hide or show (and print or not) as a whole.
+ */
+async function buildLayeredPdf(pages: AnswerPage[], layers: AnswerLayer[]): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const layer = pdf.context.register(pdf.context.obj({ Type: 'OCG', Name: PDFHexString.fromText(t('answers.layer')) }));
+  pdf.catalog.set(PDFName.of('OCProperties'), pdf.context.obj({ OCGs: [layer], D: { Order: [layer], ON: [layer] } }));
+
+  for (const [i, page] of pages.entries()) {
+    const answers = layers[i];
+    const [resultCanvas] = await rasterize(page.result, answers.width, answers.height);
+    const size = page.size ?? fallbackPageSize(answers.width, answers.height);
+    const sheet = pdf.addPage([size.width, size.height]);
+    const rect = { x: 0, y: 0, width: size.width, height: size.height };
+    sheet.drawImage(await pdf.embedPng(await pngBytes(resultCanvas)), rect);
+    sheet.node.normalizedEntries().Resources.set(PDFName.of('Properties'), pdf.context.obj({ Answers: layer }));
+    const image = await pdf.embedPng(answers.png);
+    drawInLayer(sheet, 'Answers', () => sheet.drawImage(image, rect));
+  }
+  return pdf.save();
+}
+
+/**
+ * The answer-layer downloads for a set of cleaned pages: a transparent PNG per page
+ * and one layered PDF, named after `stem`.
+ */
+export async function answerFiles(pages: AnswerPage[], stem: string): Promise<ExportFile[]> {
+  if (pages.length === 0) return [];
+  const digits = String(pages.length).length;
+  const layers: AnswerLayer[] = [];
+  for (const page of pages) layers.push(await answerLayer(page));
+  const files: ExportFile[] = layers.map((layer, i) => ({
+    name: pages.length === 1 ? `${stem}_answers.png` : `${stem}_answers-${String(i + 1).padStart(digits, '0')}.png`,
+    data: layer.png,
+  }));
+  files.push({ name: `${stem}_layered.pdf`, data: await buildLayeredPdf(pages, layers) });
+  return files;
+}
@@ -0,0 +1,127 @@
+import type { DetectedMark, DetectRequestBody, DetectResponseBody } from '../core/detect.ts';
+import { classifyStatus, type ErrorKind, type ResponseMetadata } from '../core/errors.ts';
+import { isAbortError } from '../core/retry.ts';
+import type { EraseErrorBody, EraseRequestBody, EraseResponseBody } from '../core/types.ts';
+import type { RequestRecord } from './diagnostics.ts';
+import { toInlineImage } from './images.ts';
+
+/** Error returned by `/api/erase` or `/api/detect`, carrying the HTTP status and any text the model replied with. */
+export class EraseApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly modelText?: string,
+    /** From the `Retry-After` header on quota errors. */
+    public readonly retryAfterMs?: number,
+    public readonly kind: ErrorKind = classifyStatus(status),
+    public readonly metadata?: ResponseMetadata,
+  ) {
+    super(message);
+    this.name = 'EraseApiError';
+  }
+}
+
+export interface ErasePageOptions {
+  signal?: AbortSignal;
+  /** Prompt template; see core/prompt.ts. */
+  template?: string;
+  /** Guidance mask (see `maskToGuidance`). */
+  mask?: string;
+  /** Bypass the server's result cache, e.g. to regenerate a page whose result was rejected. */
+  fresh?: boolean;
+  /** Called once the request settles, successful or not, for the diagnostics log. */
+  onRequest?: (record: RequestRecord) => void;
+}
+
+/** Sends one page image (a data or object URL) to the server and resolves with the edited image as a data URL. */
+export async function erasePage(
+  page: string,
+  instruction: string,
+  { signal, template, mask, fresh, onRequest }: ErasePageOptions = {},
+): Promise<string> {
+  const body: EraseRequestBody = {
+    image: await toInlineImage(page),
+    instruction,
+    template,
+    mask: mask ? await toInlineImage(mask) : undefined,
+    fresh: fresh || undefined,
+  };
+  const json = JSON.stringify(body);
+  const record: RequestRecord = {
+    endpoint: '/api/erase',
+    startedAt: new Date().toISOString(),
+    requestBytes: new Blob([json]).size,
+    latencyMs: 0,
+    status: null,
+  };
+  const started = performance.now();
+  try {
+    const res = await fetch('/api/erase', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: json,
+      signal,
+    });
+    record.status = res.status;
+    if (!res.ok) throw await toApiError(res);
+
+    const { image, backend, cached, metadata }: EraseResponseBody = await res.json();
+    Object.assign(record, { backend, cached, metadata });
+    return `data:${image.mimeType};base64,${image.data}`;
+  } catch (err: any) {
+    Object.assign(record, { kind: errorKind(err), error: err?.message ?? String(err) });
+    if (err instanceof EraseApiError) record.metadata = err.metadata;
+    throw err;
+  } finally {
+    record.latencyMs = Math.round(performance.now() - started);
+    onRequest?.(record);
+  }
+}
+
+/** Asks the server which marks are on the page; boxes come back as fractions of its size. */
+export async function detectMarks(page: string, signal?: AbortSignal): Promise<DetectedMark[]> {
+  const body: DetectRequestBody = { image: await toInlineImage(page) };
+  const res = await fetch('/api/detect', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!res.ok) throw await toApiError(res);
+  const { marks }: DetectResponseBody = await res.json();
+  return marks;
+}
+
+async function toApiError(res: Response): Promise<EraseApiError> {
+  const err: EraseErrorBody = await res.json().catch(() => ({ error: res.statusText }));
+  const retryAfter = Number(res.headers.get('Retry-After'));
+  return new EraseApiError(
+    err.error,
+    res.status,
+    err.text,
+    retryAfter > 0 ? retryAfter * 1000 : undefined,
+    err.kind ?? classifyStatus(res.status),
+    err.metadata,
+  );
+}
+
+/** Network failures, rate limiting and upstream 5xx errors are worth retrying; refusals and bad input are not. */
+export function isTransientError(err: unknown): boolean {
+  if (err instanceof EraseApiError) return err.status === 408 || err.status === 429 || err.status >= 500;
+  return err instanceof TypeError;
+}
+
+/** The request never reached the server: the browser is offline or the server is down. */
+export function isOfflineError(err: unknown): boolean {
+  return err instanceof TypeError || (!(err instanceof EraseApiError) && !navigator.onLine);
+}
+
+export function isQuotaError(err: unknown): err is EraseApiError {
+  return err instanceof EraseApiError && err.status === 429;
+}
+
+export function errorKind(err: unknown): ErrorKind {
+  if (isAbortError(err)) return 'cancelled';
+  if (err instanceof EraseApiError) return err.kind;
+  return isOfflineError(err) ? 'network' : 'unknown';
+}
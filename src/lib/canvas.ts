@@ -0,0 +1,53 @@
+// Small browser canvas helpers shared by the image-processing features.
+
+import { canvasToUrl } from './images.ts';
+import { t } from './i18n.ts';
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(t('error.loadImage')));
+    img.src = src;
+  });
+}
+
+export function createCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error(t('error.canvas'));
+  return [canvas, ctx];
+}
+
+/** Draws `src` scaled to exactly `width` x `height` and returns the canvas. */
+export async function rasterize(src: string, width?: number, height?: number): Promise<[HTMLCanvasElement, CanvasRenderingContext2D]> {
+  const img = await loadImage(src);
+  const [canvas, ctx] = createCanvas(width ?? img.naturalWidth, height ?? img.naturalHeight);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return [canvas, ctx];
+}
+
+/** Turns an image clockwise by a multiple of 90° and returns it as a PNG object URL. */
+export async function rotateImage(src: string, degrees: number): Promise<string> {
+  const img = await loadImage(src);
+  const turned = degrees % 180 !== 0;
+  const [canvas, ctx] = createCanvas(turned ? img.naturalHeight : img.naturalWidth, turned ? img.naturalWidth : img.naturalHeight);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((degrees * Math.PI) / 180);
+  ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+  return canvasToUrl(canvas);
+}
+
+/** Cuts the given fractional margins off an image and returns it as a PNG object URL. */
+export async function cropImage(src: string, crop: { left: number; top: number; right: number; bottom: number }): Promise<string> {
+  const img = await loadImage(src);
+  const x = Math.round(img.naturalWidth * crop.left);
+  const y = Math.round(img.naturalHeight * crop.top);
+  const width = Math.max(1, Math.round(img.naturalWidth * (1 - crop.right)) - x);
+  const height = Math.max(1, Math.round(img.naturalHeight * (1 - crop.bottom)) - y);
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.drawImage(img, x, y, width, height, 0, 0, width, height);
+  return canvasToUrl(canvas);
+}
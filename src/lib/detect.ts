@@ -0,0 +1,26 @@
+import type { MarkBox, MarkCategory } from '../core/detect.ts';
+import { createCanvas, loadImage } from './canvas.ts';
+import { formatList, t } from './i18n.ts';
+
+export const markLabel = (category: MarkCategory) => t(`mark.${category}`);
+
+/** Boxes are grown by this share of the page on each side so stroke ends are not clipped. */
+const BOX_PADDING = 0.004;
+
+/** Turns reviewed boxes into a page mask (see lib/mask.ts), so only they get erased. */
+export async function marksToMask(image: string, boxes: MarkBox[]): Promise<string> {
+  const img = await loadImage(image);
+  const { naturalWidth: width, naturalHeight: height } = img;
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.fillStyle = '#fff';
+  for (const box of boxes) {
+    const x = Math.max(0, box.x - BOX_PADDING) * width;
+    const y = Math.max(0, box.y - BOX_PADDING) * height;
+    ctx.fillRect(x, y, Math.min(width - x, (box.width + 2 * BOX_PADDING) * width), Math.min(height - y, (box.height + 2 * BOX_PADDING) * height));
+  }
+  return canvas.toDataURL('image/png');
+}
+
+/** An erase instruction naming the kinds of marks that were approved, in the current UI language. */
+export const detectionInstruction = (categories: MarkCategory[]) =>
+  t('detect.instruction', { marks: formatList(categories.map(markLabel)) });
@@ -0,0 +1,77 @@
+import type { ErrorKind, ResponseMetadata } from '../core/errors.ts';
+import type { PassConfig } from '../core/types.ts';
+import { downloadFile } from './export.ts';
+
+// A log of the latest runs (every request made and how each page ended) that can be
+// downloaded as JSON to attach to a support ticket. Page images are never included.
+
+/** One HTTP call to the model endpoint. */
+export interface RequestRecord {
+  endpoint: string;
+  startedAt: string;
+  /** Size of the JSON body sent, images included. */
+  requestBytes: number;
+  latencyMs: number;
+  /** null when no response arrived. */
+  status: number | null;
+  backend?: string;
+  cached?: boolean;
+  /** Set when the request failed. */
+  kind?: ErrorKind;
+  error?: string;
+  metadata?: ResponseMetadata;
+}
+
+export interface PageRecord {
+  /** One-based page number in the workspace. */
+  page: number;
+  /** `waiting` when the page was left for when the server can be reached again. */
+  status: 'done' | 'failed' | 'waiting';
+  attempts: number;
+  kind?: ErrorKind;
+  error?: string;
+}
+
+export interface RunLog {
+  startedAt: string;
+  finishedAt?: string;
+  pass: PassConfig;
+  settings: Record<string, unknown>;
+  pageCount: number;
+  requests: (RequestRecord & { page: number; attempt: number })[];
+  pages: PageRecord[];
+}
+
+export interface CrashReport {
+  message: string;
+  stack?: string;
+  componentStack?: string;
+}
+
+const MAX_RUNS = 10;
+const runs: RunLog[] = [];
+
+/** Starts the log of a new run; the oldest is dropped once MAX_RUNS are kept. */
+export function startRun(pass: PassConfig, settings: Record<string, unknown>, pageCount: number): RunLog {
+  const run: RunLog = { startedAt: new Date().toISOString(), pass, settings, pageCount, requests: [], pages: [] };
+  runs.push(run);
+  if (runs.length > MAX_RUNS) runs.shift();
+  return run;
+}
+
+export function finishRun(run: RunLog) {
+  run.finishedAt = new Date().toISOString();
+}
+
+export function downloadDiagnostics(crash?: CrashReport) {
+  const report = {
+    generatedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    online: navigator.onLine,
+    url: location.href,
+    crash,
+    runs,
+  };
+  const stamp = report.generatedAt.replace(/[:.]/g, '-');
+  downloadFile(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }), `diagnostics-${stamp}.json`);
+}
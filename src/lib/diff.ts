@@ -0,0 +1,34 @@
+import { createCanvas, loadImage, rasterize } from './canvas.ts';
+
+/**
+ * Renders a pixel-difference heatmap: the source page faded to light grey, with
+ * every pixel that changed in the result painted red in proportion to the change.
+ * The result is scaled to the source size first.
+ */
+export async function renderDifference(source: string, result: string, noiseFloor = 24): Promise<string> {
+  const sourceImg = await loadImage(source);
+  const width = sourceImg.naturalWidth;
+  const height = sourceImg.naturalHeight;
+  const [, resultCtx] = await rasterize(result, width, height);
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.drawImage(sourceImg, 0, 0);
+
+  const a = ctx.getImageData(0, 0, width, height);
+  const b = resultCtx.getImageData(0, 0, width, height).data;
+  const out = a.data;
+  for (let i = 0; i < out.length; i += 4) {
+    const delta = (Math.abs(out[i] - b[i]) + Math.abs(out[i + 1] - b[i + 1]) + Math.abs(out[i + 2] - b[i + 2])) / 3;
+    const gray = 0.299 * out[i] + 0.587 * out[i + 1] + 0.114 * out[i + 2];
+    const faded = 200 + gray * (55 / 255);
+    if (delta <= noiseFloor) {
+      out[i] = out[i + 1] = out[i + 2] = faded;
+    } else {
+      const t = Math.min(1, delta / 128);
+      out[i] = faded + (239 - faded) * t;
+      out[i + 1] = faded + (30 - faded) * t;
+      out[i + 2] = faded + (30 - faded) * t;
+    }
+  }
+  ctx.putImageData(a, 0, 0);
+  return canvas.toDataURL('image/png');
+}
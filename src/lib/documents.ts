@@ -0,0 +1,53 @@
+import { dpiScale } from '../core/pdf.ts';
+import type { PageSize } from '../core/types.ts';
+import { storeBlob } from './images.ts';
+import { openRasterizer, type Rasterizer } from './raster.ts';
+
+export interface SourcePage {
+  image: string;
+  /** Page size from the PDF; null for photos and scans, which carry no physical size. */
+  size: PageSize | null;
+}
+
+/**
+ * PDF pages are first shown at this resolution. The page is drawn again at the
+ * chosen render DPI only when it is processed.
+ */
+export const PREVIEW_DPI = 72;
+
+/** Resolutions offered for drawing PDF pages before they are sent for processing. */
+export const RENDER_DPI_OPTIONS = [96, 144, 200, 300];
+export const DEFAULT_RENDER_DPI = 144;
+
+export interface ReadDocument {
+  pages: SourcePage[];
+  /** Draws the PDF's pages at full resolution later; null for images. */
+  rasterizer: Rasterizer | null;
+}
+
+export const isSupportedFile = (file: File) => file.type === 'application/pdf' || file.type.startsWith('image/');
+
+async function readPdf(file: File, onProgress?: (done: number, total: number) => void): Promise<ReadDocument> {
+  const rasterizer = await openRasterizer(file);
+  try {
+    const pages: SourcePage[] = [];
+    for (let i = 0; i < rasterizer.pageCount; i++) {
+      pages.push(await rasterizer.render(i, dpiScale(PREVIEW_DPI)));
+      onProgress?.(i + 1, rasterizer.pageCount);
+    }
+    return { pages, rasterizer };
+  } catch (err) {
+    rasterizer.destroy();
+    throw err;
+  }
+}
+
+/**
+ * Returns a PDF's pages as previews with the rasterizer that draws them in full, or
+ * an image as its single page. Every page image is an object URL.
+ */
+export async function readPages(file: File, onProgress?: (done: number, total: number) => void): Promise<ReadDocument> {
+  return file.type === 'application/pdf'
+    ? readPdf(file, onProgress)
+    : { pages: [{ image: storeBlob(file), size: null }], rasterizer: null };
+}
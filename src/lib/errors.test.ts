@@ -0,0 +1,29 @@
+// @vitest-environment happy-dom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { EraseApiError } from './api.ts';
+import { describeError, toPageError } from './errors.ts';
+import { setLocale } from './i18n.ts';
+
+beforeEach(() => {
+  setLocale('en');
+});
+
+describe('page errors', () => {
+  it('keeps a failure as data and words it in the language shown', () => {
+    const error = toPageError(new EraseApiError('No image', 422, 'I cannot edit this page.', undefined, 'text-only'));
+    expect(error).toEqual({ kind: 'text-only', modelText: 'I cannot edit this page.' });
+    expect(describeError(error)).toBe('The model replied with text but no image. The AI replied: I cannot edit this page.');
+    setLocale('zh-CN');
+    expect(describeError(error)).toBe('模型只回复了文字，没有生成图像。AI回复：I cannot edit this page.');
+  });
+
+  it('quotes the model\'s stop reason and unexpected messages', () => {
+    const metadata = { finishReason: 'MAX_TOKENS' };
+    expect(toPageError(new EraseApiError('Cut off', 422, undefined, undefined, 'truncated', metadata))).toEqual({ kind: 'truncated', reason: 'MAX_TOKENS' });
+    expect(toPageError(new Error('Canvas is tainted'))).toEqual({ kind: 'unknown', message: 'Canvas is tainted' });
+  });
+
+  it('shows failures reopened from history as they were recorded', () => {
+    expect(describeError({ message: 'Recorded failure' })).toBe('Recorded failure');
+  });
+});
@@ -0,0 +1,31 @@
+import type { ErrorKind } from '../core/errors.ts';
+import type { PageError } from '../core/types.ts';
+import { EraseApiError, errorKind } from './api.ts';
+import { t } from './i18n.ts';
+
+/** What the user can do about a failure; empty when there is nothing to suggest. */
+export const errorFix = (kind: ErrorKind) => t(`errorKind.${kind}.fix`);
+
+/** Classifies a failed page, keeping what the model said where it helps. */
+export function toPageError(err: unknown): PageError {
+  const kind = errorKind(err);
+  if (err instanceof EraseApiError) {
+    const reason = err.metadata?.blockReason ?? err.metadata?.finishReason;
+    if (err.modelText) return { kind, modelText: err.modelText };
+    if (reason && reason !== 'STOP') return { kind, reason };
+    if (kind === 'invalid-request' || kind === 'unavailable') return { kind, message: err.message };
+  } else if (kind === 'unknown' && err instanceof Error) {
+    return { kind, message: err.message };
+  }
+  return { kind };
+}
+
+/** Words a page's failure for the user in the current UI language. */
+export function describeError(error: PageError): string {
+  if (!error.kind) return error.message ?? '';
+  const title = t(`errorKind.${error.kind}.title`);
+  const detail = error.modelText ? t('errorKind.modelReply', { text: error.modelText })
+    : error.reason ? t('errorKind.reason', { reason: error.reason })
+    : error.message ?? '';
+  return detail ? t('errorKind.detail', { title, detail }) : title;
+}
@@ -0,0 +1,131 @@
+import { jsPDF } from 'jspdf';
+import { zipSync } from 'fflate';
+import { rasterize } from './canvas.ts';
+import { applyColorMode, fallbackPageSize, fitRect, MM_PER_POINT } from '../core/print.ts';
+import type { ExportOptions, PageSize } from '../core/types.ts';
+
+export interface ExportPage {
+  image: string;
+  /** Physical size of the source page; null when unknown (photos), which falls back to A4 scale. */
+  size: PageSize | null;
+}
+
+export interface ExportFile {
+  name: string;
+  data: Uint8Array;
+}
+
+interface PreparedPage {
+  dataUrl: string;
+  size: PageSize;
+}
+
+async function preparePage(page: ExportPage, options: ExportOptions): Promise<PreparedPage> {
+  const [canvas, ctx] = await rasterize(page.image);
+  if (options.color !== 'color') {
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyColorMode(imageData, options.color);
+    ctx.putImageData(imageData, 0, 0);
+  }
+  return {
+    dataUrl: canvas.toDataURL(`image/${options.imageType}`, options.quality),
+    size: page.size ?? fallbackPageSize(canvas.width, canvas.height),
+  };
+}
+
+const dataUrlBytes = (dataUrl: string) => Uint8Array.from(atob(dataUrl.split(',')[1]), c => c.charCodeAt(0));
+
+/**
+ * Builds a PDF whose sheets keep each source page's size and orientation. With
+ * `twoUp`, pairs of pages share a sheet the size of the first one turned sideways.
+ */
+export async function buildPdf(pages: ExportPage[], options: ExportOptions): Promise<jsPDF> {
+  const margin = options.marginMm / MM_PER_POINT;
+  const format = options.imageType === 'jpeg' ? 'JPEG' : 'PNG';
+  let pdf: jsPDF | null = null;
+
+  const addSheet = (size: PageSize) => {
+    const orientation = size.width > size.height ? 'landscape' : 'portrait';
+    if (!pdf) pdf = new jsPDF({ unit: 'pt', format: [size.width, size.height], orientation, compress: true });
+    else pdf.addPage([size.width, size.height], orientation);
+    return pdf;
+  };
+
+  const place = (sheet: jsPDF, page: PreparedPage, x: number, y: number, width: number, height: number) => {
+    const rect = fitRect(page.size, { x: x + margin, y: y + margin, width: width - 2 * margin, height: height - 2 * margin });
+    sheet.addImage(page.dataUrl, format, rect.x, rect.y, rect.width, rect.height, undefined, 'FAST');
+  };
+
+  const perSheet = options.twoUp ? 2 : 1;
+  for (let i = 0; i < pages.length; i += perSheet) {
+    const group = await Promise.all(pages.slice(i, i + perSheet).map(page => preparePage(page, options)));
+    const first = group[0].size;
+    if (!options.twoUp) {
+      place(addSheet(first), group[0], 0, 0, first.width, first.height);
+      continue;
+    }
+    const sheet = addSheet({ width: first.height, height: first.width });
+    // Split across the sheet's longer side: side by side for portrait pages, stacked for landscape ones.
+    const sideBySide = first.height >= first.width;
+    group.forEach((page, j) => {
+      if (sideBySide) place(sheet, page, (j * first.height) / 2, 0, first.height / 2, first.width);
+      else place(sheet, page, 0, (j * first.width) / 2, first.height, first.width / 2);
+    });
+  }
+  return pdf ?? new jsPDF();
+}
+
+/**
+ * Renders pages as files named after `stem`: one PDF, or one image per page
+ * (numbered when there are several). `original` has no source PDF here, so it
+ * produces a rebuilt PDF.
+ */
+export async function exportFiles(pages: ExportPage[], options: ExportOptions, stem: string): Promise<ExportFile[]> {
+  if (options.format !== 'image') {
+    const pdf = await buildPdf(pages, options);
+    return [{ name: `${stem}.pdf`, data: new Uint8Array(pdf.output('arraybuffer')) }];
+  }
+  const ext = options.imageType === 'jpeg' ? 'jpg' : 'png';
+  const digits = String(pages.length).length;
+  const files: ExportFile[] = [];
+  for (const [i, page] of pages.entries()) {
+    const { dataUrl } = await preparePage(page, options);
+    const name = pages.length === 1 ? `${stem}.${ext}` : `${stem}-${String(i + 1).padStart(digits, '0')}.${ext}`;
+    files.push({ name, data: dataUrlBytes(dataUrl) });
+  }
+  return files;
+}
+
+/** File name without its extension. */
+export const fileStem = (name: string) => name.replace(/\.[^./]+$/, '') || name;
+
+/** Zips the files without recompressing them; names that repeat get a " (n)" suffix. */
+export function buildZip(files: ExportFile[]): Blob {
+  const entries: Record<string, Uint8Array> = {};
+  for (const { name, data } of files) {
+    const dot = name.lastIndexOf('.');
+    const [stem, ext] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+    let unique = name;
+    for (let n = 2; unique in entries; n++) unique = `${stem} (${n})${ext}`;
+    entries[unique] = data;
+  }
+  return new Blob([zipSync(entries, { level: 0 })], { type: 'application/zip' });
+}
+
+/** Saves one file as is, or several as a ZIP named `zipName`. */
+export function downloadFiles(files: ExportFile[], zipName: string) {
+  if (files.length === 0) return;
+  if (files.length === 1) downloadFile(new Blob([files[0].data]), files[0].name);
+  else downloadFile(buildZip(files), zipName);
+}
+
+export function downloadFile(data: Blob | string, fileName: string) {
+  const url = typeof data === 'string' ? data : URL.createObjectURL(data);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  if (typeof data !== 'string') setTimeout(() => URL.revokeObjectURL(url), 0);
+}
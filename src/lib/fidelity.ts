@@ -0,0 +1,41 @@
+import { computeFidelity } from '../core/fidelity.ts';
+import { createCanvas, loadImage, rasterize } from './canvas.ts';
+
+export interface FidelityReport {
+  score: number;
+  /** Transparent PNG, one pixel per comparison window; red where printed content changed. */
+  heatmap: string;
+}
+
+/**
+ * Scales source and result to a common analysis width and scores how faithfully
+ * the result kept the printed content (see `computeFidelity`).
+ */
+export async function checkFidelity(source: string, result: string, mask?: string | null, analysisWidth = 600): Promise<FidelityReport> {
+  const sourceImg = await loadImage(source);
+  const width = Math.min(analysisWidth, sourceImg.naturalWidth);
+  const height = Math.round((sourceImg.naturalHeight / sourceImg.naturalWidth) * width);
+
+  const [, sourceCtx] = await rasterize(source, width, height);
+  const [, resultCtx] = await rasterize(result, width, height);
+  const maskData = mask ? (await rasterize(mask, width, height))[1].getImageData(0, 0, width, height) : undefined;
+
+  const map = computeFidelity(
+    sourceCtx.getImageData(0, 0, width, height),
+    resultCtx.getImageData(0, 0, width, height),
+    { mask: maskData },
+  );
+
+  const [heatCanvas, heatCtx] = createCanvas(Math.max(1, map.cols), Math.max(1, map.rows));
+  const heat = heatCtx.createImageData(heatCanvas.width, heatCanvas.height);
+  map.dissimilarity.forEach((d, i) => {
+    if (Number.isNaN(d)) return;
+    heat.data[i * 4] = 239;
+    heat.data[i * 4 + 1] = 68;
+    heat.data[i * 4 + 2] = 68;
+    heat.data[i * 4 + 3] = Math.min(255, Math.round(d * 2.5 * 255));
+  });
+  heatCtx.putImageData(heat, 0, 0);
+
+  return { score: map.score, heatmap: heatCanvas.toDataURL('image/png') };
+}
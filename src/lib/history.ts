@@ -0,0 +1,43 @@
+import type { CreateJobBody, JobDetail, JobSummary, UpdatePageBody } from '../core/history.ts';
+import { EraseApiError } from './api.ts';
+import { t } from './i18n.ts';
+import { storeBlob } from './images.ts';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: res.statusText }));
+    throw new EraseApiError(err.error, res.status);
+  }
+  return res.status === 204 ? (undefined as T) : res.json();
+}
+
+export const imageUrl = (hash: string) => `/api/images/${hash}`;
+
+export const listJobs = () => request<JobSummary[]>('/api/history');
+
+export const getJob = (id: string) => request<JobDetail>(`/api/history/${id}`);
+
+export const createJob = (body: CreateJobBody) =>
+  request<JobSummary>('/api/history', { method: 'POST', body: JSON.stringify(body) });
+
+export const updateJobPage = (id: string, index: number, body: UpdatePageBody) =>
+  request<void>(`/api/history/${id}/pages/${index}`, { method: 'PUT', body: JSON.stringify(body) });
+
+export const deleteJob = (id: string) => request<void>(`/api/history/${id}`, { method: 'DELETE' });
+
+/** Hex SHA-256 of a file's bytes, used to recognise re-uploads of the same worksheet. */
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Downloads a stored image into a Blob and returns its object URL. */
+export async function fetchImage(url: string): Promise<string> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(t('error.fetch', { url }));
+  return storeBlob(await res.blob());
+}
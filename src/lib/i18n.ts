@@ -0,0 +1,84 @@
+import { useSyncExternalStore } from 'react';
+import { en } from '../locales/en.ts';
+import { zhCN } from '../locales/zh-CN.ts';
+
+// UI strings for every locale live in src/locales/; zh-CN is the reference that every
+// other locale must cover. The chosen locale is remembered in localStorage.
+
+export type Locale = 'zh-CN' | 'en';
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'zh-CN', label: '中文' },
+  { id: 'en', label: 'English' },
+];
+
+/** A string with `{name}` placeholders, or one per plural category chosen by the `count` parameter. */
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+export type MessageKey = keyof typeof zhCN;
+
+export type Params = Record<string, string | number>;
+
+const MESSAGES: Record<Locale, Record<MessageKey, Message>> = { 'zh-CN': zhCN, en };
+
+const STORAGE_KEY = 'smarter-eraser.locale';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(locale => locale.id === value);
+
+/** The saved choice, else the first of the browser's languages we have. */
+function initialLocale(): Locale {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (isLocale(stored)) return stored;
+  for (const language of navigator.languages ?? [navigator.language]) {
+    if (language.toLowerCase().startsWith('zh')) return 'zh-CN';
+    if (language.toLowerCase().startsWith('en')) return 'en';
+  }
+  return 'zh-CN';
+}
+
+let current = initialLocale();
+let plurals = new Intl.PluralRules(current);
+let numbers = new Intl.NumberFormat(current);
+const listeners = new Set<() => void>();
+document.documentElement.lang = current;
+
+export const getLocale = () => current;
+
+export function setLocale(locale: Locale) {
+  if (locale === current) return;
+  current = locale;
+  plurals = new Intl.PluralRules(locale);
+  numbers = new Intl.NumberFormat(locale);
+  document.documentElement.lang = locale;
+  localStorage.setItem(STORAGE_KEY, locale);
+  listeners.forEach(listener => listener());
+}
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+  options ? new Intl.NumberFormat(current, options).format(value) : numbers.format(value);
+
+export const formatList = (items: string[]) => new Intl.ListFormat(current, { type: 'conjunction' }).format(items);
+
+/** The message for `key` in the current locale, with numbers in `params` formatted for it. */
+export function t(key: MessageKey, params: Params = {}): string {
+  const message = MESSAGES[current][key];
+  const text = typeof message === 'string'
+    ? message
+    : message[plurals.select(Number(params.count ?? 0))] ?? message.other;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? numbers.format(value) : value;
+  });
+}
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+/** Re-renders the component when the locale changes. */
+export function useLocale() {
+  const locale = useSyncExternalStore(subscribe, getLocale);
+  return { locale, t };
+}
@@ -0,0 +1,51 @@
+import type { InlineImage } from '../core/types.ts';
+import { t } from './i18n.ts';
+
+// Page images are held as Blobs behind object URLs rather than base64 data URLs:
+// a large PDF's pages stay out of the JS heap, and every <img> and canvas helper
+// accepts either kind of URL. Base64 is only produced when a page is sent to the server.
+
+export const storeBlob = (blob: Blob) => URL.createObjectURL(blob);
+
+/** The image behind a data URL or an object URL. */
+export const imageBlob = async (src: string) => (await fetch(src)).blob();
+
+/** Moves a data URL into a Blob; object URLs are returned as they are. */
+export async function storeImage(src: string): Promise<string> {
+  if (!src.startsWith('data:')) return src;
+  return storeBlob(await imageBlob(src));
+}
+
+export function canvasToUrl(canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(storeBlob(blob)) : reject(new Error(t('error.encodeImage')))), type, quality);
+  });
+}
+
+export function splitDataUrl(dataUrl: string): InlineImage {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] ?? 'image/png';
+  return { data, mimeType };
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** The base64 payload the server expects, read from a data URL or an object URL. */
+export async function toInlineImage(src: string): Promise<InlineImage> {
+  if (src.startsWith('data:')) return splitDataUrl(src);
+  return splitDataUrl(await blobToDataUrl(await imageBlob(src)));
+}
+
+/** Frees the Blobs behind object URLs that are no longer shown anywhere. */
+export function releaseImages(urls: Iterable<string | null | undefined>) {
+  for (const url of new Set(urls)) {
+    if (url?.startsWith('blob:')) URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,11 @@
+import { applyLocalPasses, type LocalOptions } from '../core/localEngine.ts';
+import { rasterize } from './canvas.ts';
+
+/** Runs the model-free cleanup passes on an image and returns a PNG data URL. */
+export async function runLocalPass(src: string, options: LocalOptions): Promise<string> {
+  const [canvas, ctx] = await rasterize(src);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  applyLocalPasses(imageData, options);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+}
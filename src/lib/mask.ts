@@ -0,0 +1,46 @@
+import { createCanvas, loadImage, rasterize } from './canvas.ts';
+
+// Masks are PNG data URLs at the source page's resolution. Only the alpha channel
+// matters: opaque pixels mark the region the model may change.
+
+/** Converts a mask to the black (keep) / white (edit) image sent to the model as guidance. */
+export async function maskToGuidance(mask: string, width: number, height: number): Promise<string> {
+  const [canvas, ctx] = await rasterize(mask, width, height);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Keeps the model's pixels only inside the mask and the source pixels everywhere else.
+ * The result is scaled to the source size first, and the mask edge is feathered so
+ * the seam is not visible.
+ */
+export async function compositeWithMask(source: string, result: string, mask: string, featherPx = 2): Promise<string> {
+  const sourceImg = await loadImage(source);
+  const { naturalWidth: width, naturalHeight: height } = sourceImg;
+
+  const [edited, editedCtx] = await rasterize(result, width, height);
+  const maskImg = await loadImage(mask);
+  editedCtx.globalCompositeOperation = 'destination-in';
+  editedCtx.filter = featherPx > 0 ? `blur(${featherPx}px)` : 'none';
+  editedCtx.drawImage(maskImg, 0, 0, width, height);
+
+  const [out, outCtx] = createCanvas(width, height);
+  outCtx.drawImage(sourceImg, 0, 0);
+  outCtx.drawImage(edited, 0, 0);
+  return out.toDataURL('image/png');
+}
+
+export async function isMaskEmpty(mask: string): Promise<boolean> {
+  const [canvas, ctx] = await rasterize(mask);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+}
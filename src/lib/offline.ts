@@ -0,0 +1,61 @@
+import type { PageLayout } from '../core/pages.ts';
+import type { PassConfig } from '../core/types.ts';
+
+// Pages that could not reach the server are saved in IndexedDB with the pass they were
+// waiting for, so they survive a reload and are sent once the connection is back.
+
+export interface QueuedPage {
+  /** The page as it will be processed, at full resolution. */
+  image: Blob;
+  layout: PageLayout;
+  mask: string | null;
+}
+
+export interface QueuedDocument {
+  name: string;
+  mimeType: string;
+  hash: string;
+  pages: QueuedPage[];
+}
+
+export interface OfflineQueue {
+  pass: PassConfig;
+  documents: QueuedDocument[];
+  savedAt: number;
+}
+
+const DB_NAME = 'smarter-eraser';
+const STORE = 'offline';
+const QUEUE_KEY = 'queue';
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(STORE);
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, use: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = use(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function loadOfflineQueue(): Promise<OfflineQueue | null> {
+  const queue = await withStore<OfflineQueue | undefined>('readonly', store => store.get(QUEUE_KEY));
+  return queue?.documents.length ? queue : null;
+}
+
+/** Replaces the saved queue; null or an empty queue clears it. */
+export async function saveOfflineQueue(queue: OfflineQueue | null): Promise<void> {
+  await withStore('readwrite', store => (queue?.documents.length ? store.put(queue, QUEUE_KEY) : store.delete(QUEUE_KEY)));
+}
@@ -0,0 +1,33 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// pdf.js set up the same way on the main thread and in the raster worker. Its worker
+// is bundled and its data files are served by the app (see vite.config.ts), so PDFs
+// open without a CDN and offline.
+
+const ASSETS = new URL(`${import.meta.env.BASE_URL}pdfjs/`, self.location.href).href;
+
+if (typeof Worker !== 'undefined') {
+  try {
+    pdfjsLib.GlobalWorkerOptions.workerSrc = workerUrl;
+  } catch (e) {
+    console.error('Failed to set PDF worker source:', e);
+  }
+}
+
+/**
+ * Opens a PDF. Off the main thread there is no DOM: pass a `CanvasFactory` for the
+ * scratch canvases pdf.js draws on, and glyphs are then drawn as paths instead of
+ * being loaded as web fonts.
+ */
+export function openPdf(data: Uint8Array, CanvasFactory?: object): Promise<pdfjsLib.PDFDocumentProxy> {
+  return pdfjsLib.getDocument({
+    data,
+    cMapUrl: `${ASSETS}cmaps/`,
+    cMapPacked: true,
+    standardFontDataUrl: `${ASSETS}standard_fonts/`,
+    wasmUrl: `${ASSETS}wasm/`,
+    CanvasFactory,
+    disableFontFace: !!CanvasFactory,
+  }).promise;
+}
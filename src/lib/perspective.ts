@@ -0,0 +1,86 @@
+import { detectPaper, estimateSkew, PAPER_SIZES, targetSize, warpPerspective, type PaperSize, type Quad } from '../core/perspective.ts';
+import { MM_PER_POINT } from '../core/print.ts';
+import { createCanvas, loadImage } from './canvas.ts';
+import type { SourcePage } from './documents.ts';
+import { canvasToUrl } from './images.ts';
+
+// Browser side of perspective correction: runs the pixel math in core/perspective.ts
+// on canvases. Corners are passed around as fractions of the photo's size.
+
+export interface FlattenOptions {
+  paper: PaperSize;
+  deskew: boolean;
+}
+
+export const DEFAULT_FLATTEN_OPTIONS: FlattenOptions = { paper: 'auto', deskew: true };
+
+/** Corner detection works on a copy about this wide; it only needs the sheet's outline. */
+const DETECT_SIDE = 400;
+/** Skew is estimated on a copy about this wide. */
+const SKEW_SIDE = 800;
+/** Flattened pages are capped at A4 at 300 dpi on the long side. */
+const MAX_SIDE = 3508;
+/** Tilts smaller than this are not worth resampling the page for. */
+const MIN_SKEW = 0.2;
+
+function scaledPixels(img: CanvasImageSource, width: number, height: number, maxSide: number): ImageData {
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  const [canvas, ctx] = createCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/** Looks for the sheet in a photo; null when no paper stands out from the background. */
+export async function findPaper(src: string): Promise<Quad | null> {
+  const img = await loadImage(src);
+  const pixels = scaledPixels(img, img.naturalWidth, img.naturalHeight, DETECT_SIDE);
+  const quad = detectPaper(pixels);
+  return quad && (quad.map(({ x, y }) => ({ x: x / (pixels.width - 1), y: y / (pixels.height - 1) })) as Quad);
+}
+
+/**
+ * Warps the area inside `quad` to a flat page, then straightens small tilts of the
+ * text. With a paper size chosen, the page keeps that size for export.
+ */
+export async function flattenPage(src: string, quad: Quad, options: FlattenOptions): Promise<SourcePage> {
+  const img = await loadImage(src);
+  const [sourceCanvas, sourceCtx] = createCanvas(img.naturalWidth, img.naturalHeight);
+  sourceCtx.drawImage(img, 0, 0);
+  const corners = quad.map(({ x, y }) => ({ x: x * (img.naturalWidth - 1), y: y * (img.naturalHeight - 1) })) as Quad;
+
+  let { width, height } = targetSize(corners, options.paper);
+  const scale = Math.min(1, MAX_SIDE / Math.max(width, height));
+  width = Math.max(1, Math.round(width * scale));
+  height = Math.max(1, Math.round(height * scale));
+  const flat = warpPerspective(sourceCtx.getImageData(0, 0, sourceCanvas.width, sourceCanvas.height), corners, width, height);
+
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.putImageData(new ImageData(flat.data, width, height), 0, 0);
+  let output = canvas;
+  if (options.deskew) {
+    const skew = estimateSkew(scaledPixels(canvas, width, height, SKEW_SIDE));
+    if (Math.abs(skew) >= MIN_SKEW) {
+      const [straight, straightCtx] = createCanvas(width, height);
+      straightCtx.fillStyle = '#ffffff';
+      straightCtx.fillRect(0, 0, width, height);
+      straightCtx.translate(width / 2, height / 2);
+      straightCtx.rotate((-skew * Math.PI) / 180);
+      straightCtx.drawImage(canvas, -width / 2, -height / 2);
+      output = straight;
+    }
+  }
+
+  let size: SourcePage['size'] = null;
+  if (options.paper !== 'auto') {
+    const sheet = PAPER_SIZES[options.paper];
+    const [short, long] = [sheet.width / MM_PER_POINT, sheet.height / MM_PER_POINT];
+    size = width > height ? { width: long, height: short } : { width: short, height: long };
+  }
+  return { image: await canvasToUrl(output), size };
+}
+
+/** Flattens the page if its sheet can be found, and returns it unchanged otherwise. */
+export async function flattenDetected(page: SourcePage, options: FlattenOptions): Promise<SourcePage> {
+  const quad = await findPaper(page.image);
+  return quad ? flattenPage(page.image, quad, options) : page;
+}
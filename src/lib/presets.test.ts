@@ -0,0 +1,93 @@
+// @vitest-environment happy-dom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_TEMPLATE } from '../core/prompt.ts';
+import { setLocale } from './i18n.ts';
+import { builtInPresets, composeInstruction, DEFAULT_PROMPT_OPTIONS, exportPresets, loadPresets, mergePresets, parsePresets, savePresets, type PromptPreset } from './presets.ts';
+
+const preset = (id: string, extra: Partial<PromptPreset> = {}): PromptPreset =>
+  ({ id, name: id, tags: [], instruction: `erase ${id}`, template: DEFAULT_TEMPLATE, ...extra });
+
+beforeEach(() => {
+  localStorage.clear();
+  setLocale('en');
+});
+
+describe('parsePresets', () => {
+  it('reads an exported library back', () => {
+    const library = [preset('a', { tags: ['math'], isDefault: true }), preset('b', { builder: DEFAULT_PROMPT_OPTIONS })];
+    expect(parsePresets(JSON.parse(exportPresets(library)))).toEqual(library);
+  });
+
+  it('accepts a bare array', () => {
+    expect(parsePresets([preset('a')])).toEqual([preset('a')]);
+  });
+
+  it('returns null for JSON that is not a preset file', () => {
+    expect(parsePresets({ version: 1 })).toBeNull();
+    expect(parsePresets('presets')).toBeNull();
+    expect(parsePresets(null)).toBeNull();
+  });
+
+  it('skips entries without a name or instruction and fills in the rest', () => {
+    const parsed = parsePresets([null, 'a', { name: ' ', instruction: 'x' }, { name: 'No instruction' }, { name: ' Red pen ', instruction: 'erase red', tags: [1] }]);
+    expect(parsed).toHaveLength(1);
+    expect(parsed![0]).toMatchObject({ name: 'Red pen', instruction: 'erase red', tags: [], template: DEFAULT_TEMPLATE });
+    expect(parsed![0].id).toBeTruthy();
+  });
+
+  it('keeps only the first default', () => {
+    const parsed = parsePresets([preset('a', { isDefault: true }), preset('b', { isDefault: true })]);
+    expect(parsed!.map(p => p.isDefault)).toEqual([true, undefined]);
+  });
+
+  it('drops unknown inks and mistyped builder options', () => {
+    const [parsed] = parsePresets([preset('a', { builder: { inks: ['red', 'green'], keepDiagrams: 'no', notes: 3 } as never })])!;
+    expect(parsed.builder).toEqual({ ...DEFAULT_PROMPT_OPTIONS, inks: ['red'], keepDiagrams: true, whitenBackground: false, notes: '' });
+  });
+});
+
+describe('mergePresets', () => {
+  it('replaces presets with the same id and appends new ones', () => {
+    const merged = mergePresets([preset('a'), preset('b')], [preset('b', { name: 'new b' }), preset('c')]);
+    expect(merged.map(p => p.name)).toEqual(['a', 'new b', 'c']);
+  });
+
+  it('keeps the library default over an imported one', () => {
+    const merged = mergePresets([preset('a', { isDefault: true })], [preset('b', { isDefault: true })]);
+    expect(merged.filter(p => p.isDefault).map(p => p.id)).toEqual(['a']);
+    expect(mergePresets([preset('a')], [preset('b', { isDefault: true })])[1].isDefault).toBe(true);
+  });
+});
+
+describe('saved library', () => {
+  it('starts with the built-in presets and round-trips through storage', () => {
+    expect(loadPresets()).toEqual(builtInPresets());
+    savePresets([preset('a')]);
+    expect(loadPresets()).toEqual([preset('a')]);
+  });
+
+  it('falls back to the built-in presets when storage is corrupt', () => {
+    localStorage.setItem('smarter-eraser.presets', '{');
+    expect(loadPresets()).toEqual(builtInPresets());
+  });
+
+  it('words built-in presets and composed instructions in the UI language, under stable ids', () => {
+    const english = builtInPresets();
+    const composed = composeInstruction(DEFAULT_PROMPT_OPTIONS);
+    setLocale('zh-CN');
+    expect(builtInPresets().map(p => p.id)).toEqual(english.map(p => p.id));
+    expect(builtInPresets()[0].instruction).not.toBe(english[0].instruction);
+    expect(composeInstruction(DEFAULT_PROMPT_OPTIONS)).not.toBe(composed);
+  });
+
+  it('keeps saved built-in presets in the UI language unless the user edited them', () => {
+    const [blank, redPen, ...rest] = builtInPresets();
+    savePresets([{ ...blank, isDefault: true }, { ...redPen, instruction: 'erase only red ink' }, ...rest]);
+    setLocale('zh-CN');
+    const chinese = builtInPresets();
+    const loaded = loadPresets();
+    expect(loaded[0]).toEqual({ ...chinese[0], isDefault: true });
+    expect(loaded[1]).toEqual({ ...chinese[1], instruction: 'erase only red ink' });
+    expect(loaded.slice(2)).toEqual(chinese.slice(2));
+  });
+});
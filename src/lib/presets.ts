@@ -0,0 +1,166 @@
+import { DEFAULT_TEMPLATE } from '../core/prompt.ts';
+import { formatList, t } from './i18n.ts';
+
+export type BuilderInk = 'pencil' | 'black' | 'blue' | 'red';
+
+/** Structured choices that compose an instruction (see `composeInstruction`). */
+export interface PromptOptions {
+  /** Handwriting colours to erase. */
+  inks: BuilderInk[];
+  /** Keep printed figures and tables, or also erase what was drawn into them. */
+  keepDiagrams: boolean;
+  whitenBackground: boolean;
+  /** Keep headings printed in red instead of treating them as teacher's marks. */
+  keepRedHeaders: boolean;
+  /** Free text added at the end. */
+  notes: string;
+}
+
+export const DEFAULT_PROMPT_OPTIONS: PromptOptions = {
+  inks: ['pencil', 'black', 'blue'],
+  keepDiagrams: true,
+  whitenBackground: false,
+  keepRedHeaders: true,
+  notes: '',
+};
+
+export const BUILDER_INKS: BuilderInk[] = ['pencil', 'black', 'blue', 'red'];
+
+export const inkLabel = (ink: BuilderInk) => t(`color.${ink}`);
+
+export interface PromptPreset {
+  id: string;
+  name: string;
+  tags: string[];
+  instruction: string;
+  /** Prompt template the instruction is placed into. */
+  template: string;
+  /** Set when the instruction was composed from structured options, so they can be edited again. */
+  builder?: PromptOptions;
+  /** Loaded into the form when the app opens; at most one preset has it. */
+  isDefault?: boolean;
+}
+
+/** The instruction in the current UI language, so the model is asked in the user's language. */
+export function composeInstruction(options: PromptOptions): string {
+  const parts: string[] = [];
+  if (options.inks.length) parts.push(t('builder.inks', { inks: formatList(options.inks.map(inkLabel)) }));
+  parts.push(t(options.keepDiagrams ? 'builder.keepDiagrams' : 'builder.eraseDiagrams'));
+  if (options.keepRedHeaders) parts.push(t('builder.keepRedHeaders'));
+  if (options.whitenBackground) parts.push(t('builder.whitenBackground'));
+  parts.push(t('builder.keepLayout'));
+  return t('builder.instruction', { clauses: parts.join(t('builder.separator')), notes: options.notes.trim() }).trim();
+}
+
+// The ids predate localization and are kept so saved libraries and shared files still match.
+const BUILT_IN_IDS = {
+  blank: 'builtin-空白试卷',
+  redPen: 'builtin-去红笔批改',
+  whiteBackground: 'builtin-背景纯白',
+  figuresOnly: 'builtin-只留图形',
+};
+
+/** The presets a new library starts with, in the current UI language. */
+export const builtInPresets = (): PromptPreset[] =>
+  (Object.keys(BUILT_IN_IDS) as (keyof typeof BUILT_IN_IDS)[]).map(key => ({
+    id: BUILT_IN_IDS[key],
+    name: t(`preset.${key}.name`),
+    tags: [t(`preset.${key}.tag`)],
+    instruction: t(`preset.${key}.instruction`),
+    template: DEFAULT_TEMPLATE,
+  }));
+
+const STORAGE_KEY = 'smarter-eraser.presets';
+
+/** Built-in preset fields that are worded in the UI language. */
+const LOCALIZED_FIELDS = ['name', 'tags', 'instruction', 'template'] as const;
+
+/** The saved library; the built-in presets until the user first changes it. */
+export function loadPresets(): PromptPreset[] {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored === null) return builtInPresets();
+  try {
+    const json: unknown = JSON.parse(stored);
+    if (!Array.isArray(json)) return parsePresets(json) ?? builtInPresets();
+    // Built-in presets are saved without the text the user left alone; it is filled in here, in the current language.
+    const builtIns = new Map(builtInPresets().map(preset => [preset.id, preset]));
+    const entries = json.map((entry: unknown) => {
+      if (!isRecord(entry) || typeof entry.id !== 'string') return entry;
+      const builtIn = builtIns.get(entry.id);
+      return builtIn ? { ...builtIn, ...entry } : entry;
+    });
+    return parsePresets(entries) ?? builtInPresets();
+  } catch {
+    return builtInPresets();
+  }
+}
+
+export function savePresets(presets: PromptPreset[]) {
+  const builtIns = new Map(builtInPresets().map(preset => [preset.id, preset]));
+  const stored = presets.map(preset => {
+    const builtIn = builtIns.get(preset.id);
+    if (!builtIn) return preset;
+    const entry: Partial<PromptPreset> = { ...preset };
+    for (const field of LOCALIZED_FIELDS) {
+      if (JSON.stringify(preset[field]) === JSON.stringify(builtIn[field])) delete entry[field];
+    }
+    return entry;
+  });
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+function parseBuilder(value: unknown): PromptOptions | undefined {
+  if (!isRecord(value)) return undefined;
+  return {
+    inks: isStringArray(value.inks) ? value.inks.filter((ink): ink is BuilderInk => BUILDER_INKS.includes(ink as BuilderInk)) : DEFAULT_PROMPT_OPTIONS.inks,
+    keepDiagrams: typeof value.keepDiagrams === 'boolean' ? value.keepDiagrams : DEFAULT_PROMPT_OPTIONS.keepDiagrams,
+    whitenBackground: value.whitenBackground === true,
+    keepRedHeaders: typeof value.keepRedHeaders === 'boolean' ? value.keepRedHeaders : DEFAULT_PROMPT_OPTIONS.keepRedHeaders,
+    notes: typeof value.notes === 'string' ? value.notes : '',
+  };
+}
+
+/**
+ * Reads presets from stored or imported JSON: an array, or the `{ presets }` object
+ * `exportPresets` writes. Entries without a name and instruction are skipped; returns
+ * null when the JSON is not a preset file at all.
+ */
+export function parsePresets(json: unknown): PromptPreset[] | null {
+  const list: unknown = Array.isArray(json) ? json : isRecord(json) ? json.presets : undefined;
+  if (!Array.isArray(list)) return null;
+  let hasDefault = false;
+  return list.flatMap((entry: unknown): PromptPreset[] => {
+    if (!isRecord(entry) || typeof entry.name !== 'string' || !entry.name.trim() || typeof entry.instruction !== 'string') return [];
+    const isDefault = entry.isDefault === true && !hasDefault;
+    hasDefault ||= isDefault;
+    return [{
+      id: typeof entry.id === 'string' && entry.id ? entry.id : crypto.randomUUID(),
+      name: entry.name.trim(),
+      tags: isStringArray(entry.tags) ? entry.tags : [],
+      instruction: entry.instruction,
+      template: typeof entry.template === 'string' && entry.template.trim() ? entry.template : DEFAULT_TEMPLATE,
+      builder: parseBuilder(entry.builder),
+      ...(isDefault ? { isDefault } : {}),
+    }];
+  });
+}
+
+/** The library as a JSON file for sharing; `parsePresets` reads it back. */
+export const exportPresets = (presets: PromptPreset[]) =>
+  JSON.stringify({ version: 1, presets }, null, 2);
+
+/**
+ * Adds imported presets to the library. Imports replace presets with the same id;
+ * an imported default only takes over when the library has none.
+ */
+export function mergePresets(current: PromptPreset[], imported: PromptPreset[]): PromptPreset[] {
+  const keepDefault = current.some(preset => preset.isDefault);
+  const incoming = imported.map(preset => (keepDefault ? { ...preset, isDefault: undefined } : preset));
+  const ids = new Set(incoming.map(preset => preset.id));
+  return [...current.filter(preset => !ids.has(preset.id)), ...incoming];
+}
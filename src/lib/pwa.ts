@@ -0,0 +1,7 @@
+/** Registers the service worker (src/sw.ts) that lets the app install and open offline. Production builds only. */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.warn('Service worker registration failed:', err));
+  });
+}
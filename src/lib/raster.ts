@@ -0,0 +1,112 @@
+import { renderPages, type RenderedPage } from '../core/pdf.ts';
+import { canvasToUrl, storeBlob } from './images.ts';
+import { t } from './i18n.ts';
+import { openPdf } from './pdfjs.ts';
+
+// PDF pages are drawn in a worker (rasterWorker.ts) on an OffscreenCanvas, so a
+// large file never blocks the page. Browsers without OffscreenCanvas draw on the
+// main thread instead.
+
+/** An open PDF whose pages are drawn on demand. */
+export interface Rasterizer {
+  pageCount: number;
+  /** Draws a page (zero-based) at `scale` and returns it as a PNG object URL. */
+  render(index: number, scale: number): Promise<RenderedPage<string>>;
+  /** Closes the file; the images already drawn stay valid. */
+  destroy(): void;
+}
+
+type RasterCall =
+  | { type: 'open'; doc: number; data: ArrayBuffer }
+  | { type: 'render'; doc: number; index: number; scale: number };
+
+/** Messages to the worker; calls carry an id its answer echoes. */
+export type RasterRequest = (RasterCall & { id: number }) | { type: 'close'; doc: number };
+
+/** What the worker answers each call type with. */
+export interface RasterResults {
+  open: number;
+  render: RenderedPage<Blob>;
+}
+
+export type RasterResult = RasterResults[keyof RasterResults];
+
+export type RasterResponse =
+  | { id: number; result: RasterResult }
+  /** The error's own message, empty when it has none; the UI words the fallback. */
+  | { id: number; error: string };
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, { resolve: (result: RasterResult) => void; reject: (err: Error) => void }>();
+
+function rasterWorker(): Worker {
+  if (worker) return worker;
+  worker = new Worker(new URL('./rasterWorker.ts', import.meta.url), { type: 'module' });
+  worker.addEventListener('message', (e: MessageEvent<RasterResponse>) => {
+    const call = pending.get(e.data.id);
+    pending.delete(e.data.id);
+    if (!call) return;
+    if ('error' in e.data) call.reject(new Error(e.data.error || t('error.pdfRender')));
+    else call.resolve(e.data.result);
+  });
+  // A worker that fails to load takes every call with it; the next call starts a new one.
+  worker.addEventListener('error', (e) => {
+    e.preventDefault();
+    worker = null;
+    for (const call of pending.values()) call.reject(new Error(e.message || t('error.pdfWorker')));
+    pending.clear();
+  });
+  return worker;
+}
+
+function call<K extends RasterCall['type']>(request: Extract<RasterCall, { type: K }>, transfer: Transferable[] = []): Promise<RasterResults[K]> {
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    // The worker answers a call of type K with a RasterResults[K].
+    pending.set(id, { resolve: result => resolve(result as RasterResults[K]), reject });
+    rasterWorker().postMessage({ ...request, id } satisfies RasterRequest, transfer);
+  });
+}
+
+async function workerRasterizer(data: ArrayBuffer): Promise<Rasterizer> {
+  const doc = nextId++;
+  const pageCount = await call({ type: 'open', doc, data }, [data]);
+  return {
+    pageCount,
+    async render(index, scale) {
+      const page = await call({ type: 'render', doc, index, scale });
+      return { image: storeBlob(page.image), size: page.size };
+    },
+    destroy: () => worker?.postMessage({ type: 'close', doc } satisfies RasterRequest),
+  };
+}
+
+async function mainThreadRasterizer(data: ArrayBuffer): Promise<Rasterizer> {
+  const pdf = await openPdf(new Uint8Array(data));
+  const draw = async (page: Awaited<ReturnType<typeof pdf.getPage>>, scale: number) => {
+    const viewport = page.getViewport({ scale });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    await page.render({ canvas, viewport }).promise;
+    return canvasToUrl(canvas);
+  };
+  return {
+    pageCount: pdf.numPages,
+    render: async (index, scale) => (await renderPages(pdf, draw, [index], scale))[0],
+    destroy: () => void pdf.destroy(),
+  };
+}
+
+/** Opens a PDF for drawing, in the worker where the browser supports it. */
+export async function openRasterizer(file: Blob): Promise<Rasterizer> {
+  if (typeof OffscreenCanvas !== 'undefined' && typeof Worker !== 'undefined') {
+    try {
+      return await workerRasterizer(await file.arrayBuffer());
+    } catch (err) {
+      console.warn('Rendering the PDF on the main thread instead:', err);
+    }
+  }
+  return mainThreadRasterizer(await file.arrayBuffer());
+}
@@ -0,0 +1,72 @@
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { renderPages } from '../core/pdf.ts';
+import { openPdf } from './pdfjs.ts';
+import type { RasterRequest, RasterResponse, RasterResult } from './raster.ts';
+
+// Draws PDF pages off the main thread; see raster.ts for the other side.
+
+interface CanvasAndContext {
+  canvas: OffscreenCanvas | null;
+  context: OffscreenCanvasRenderingContext2D | null;
+}
+
+/** Stands in for pdf.js's DOM canvas factory, which needs a document. */
+class OffscreenCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(target: CanvasAndContext, width: number, height: number) {
+    target.canvas!.width = width;
+    target.canvas!.height = height;
+  }
+
+  destroy(target: CanvasAndContext) {
+    target.canvas!.width = 0;
+    target.canvas!.height = 0;
+    target.canvas = null;
+    target.context = null;
+  }
+}
+
+const documents = new Map<number, Promise<PDFDocumentProxy>>();
+
+async function draw(page: PDFPageProxy, scale: number): Promise<Blob> {
+  const viewport = page.getViewport({ scale });
+  const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('OffscreenCanvas has no 2D context');
+  // pdf.js draws on the context it is given; `canvas` must be null for that.
+  await page.render({ canvas: null, canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise;
+  page.cleanup();
+  return canvas.convertToBlob({ type: 'image/png' });
+}
+
+async function handle(request: Extract<RasterRequest, { id: number }>): Promise<RasterResult> {
+  if (request.type === 'open') {
+    const pdf = openPdf(new Uint8Array(request.data), OffscreenCanvasFactory);
+    documents.set(request.doc, pdf);
+    return (await pdf).numPages;
+  }
+  const pdf = documents.get(request.doc);
+  if (!pdf) throw new Error('The PDF was closed');
+  return (await renderPages(await pdf, draw, [request.index], request.scale))[0];
+}
+
+self.addEventListener('message', async (e: MessageEvent<RasterRequest>) => {
+  const request = e.data;
+  if (request.type === 'close') {
+    void documents.get(request.doc)?.then(pdf => pdf.destroy()).catch(() => {});
+    documents.delete(request.doc);
+    return;
+  }
+  let response: RasterResponse;
+  try {
+    response = { id: request.id, result: await handle(request) };
+  } catch (err: any) {
+    if (request.type === 'open') documents.delete(request.doc);
+    response = { id: request.id, error: err?.message ?? '' };
+  }
+  self.postMessage(response);
+});
@@ -0,0 +1,23 @@
+import type { PassConfig } from '../core/types.ts';
+
+/** A named sequence of passes applied to every page, each on the previous pass's result. */
+export interface Recipe {
+  id: string;
+  name: string;
+  steps: PassConfig[];
+}
+
+const STORAGE_KEY = 'smarter-eraser.recipes';
+
+export function loadRecipes(): Recipe[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveRecipes(recipes: Recipe[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(recipes));
+}
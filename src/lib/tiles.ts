@@ -0,0 +1,44 @@
+import { needsTiling, planTiles, stitchTiles, type Tile, type TilingOptions } from '../core/tiles.ts';
+import { createCanvas, rasterize } from './canvas.ts';
+
+export type EraseImage = (image: string, mask?: string) => Promise<string>;
+
+function cutTile(canvas: HTMLCanvasElement, tile: Tile): string {
+  const [piece, ctx] = createCanvas(tile.width, tile.height);
+  ctx.drawImage(canvas, tile.x, tile.y, tile.width, tile.height, 0, 0, tile.width, tile.height);
+  return piece.toDataURL('image/png');
+}
+
+/**
+ * Runs `erase` on overlapping tiles of a large page, one after another, and stitches
+ * the results back at the page's full resolution. Pages that fit in one tile, or with
+ * tiling off, go to `erase` whole. The guidance mask is cut along with the page.
+ */
+export async function eraseInTiles(
+  image: string,
+  mask: string | undefined,
+  options: TilingOptions,
+  erase: EraseImage,
+  onProgress?: (done: number, total: number) => void,
+): Promise<string> {
+  const [canvas] = await rasterize(image);
+  const { width, height } = canvas;
+  if (!needsTiling(width, height, options)) return erase(image, mask);
+
+  const maskCanvas = mask ? (await rasterize(mask, width, height))[0] : null;
+  const tiles = planTiles(width, height, options.tileSize, options.overlap);
+  const parts = [];
+  onProgress?.(0, tiles.length);
+  for (const [i, tile] of tiles.entries()) {
+    const edited = await erase(cutTile(canvas, tile), maskCanvas ? cutTile(maskCanvas, tile) : undefined);
+    // The model may answer at a different resolution; bring the tile back to its planned size.
+    const [, ctx] = await rasterize(edited, tile.width, tile.height);
+    parts.push({ tile, pixels: ctx.getImageData(0, 0, tile.width, tile.height) });
+    onProgress?.(i + 1, tiles.length);
+  }
+
+  const stitched = stitchTiles(width, height, parts);
+  const [out, outCtx] = createCanvas(width, height);
+  outCtx.putImageData(new ImageData(stitched.data, width, height), 0, 0);
+  return out.toDataURL('image/png');
+}
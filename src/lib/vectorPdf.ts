@@ -0,0 +1,110 @@
+import { PDFDocument, degrees, rgb, type PDFPage } from 'pdf-lib';
+import { findChangedRegions } from '../core/regions.ts';
+import type { PageLayout } from '../core/pages.ts';
+import { createCanvas, rasterize } from './canvas.ts';
+import { t } from './i18n.ts';
+
+// Exports that start from the uploaded PDF instead of rebuilding it from images:
+// printed text and vector art stay as they are, and only the areas the cleanup
+// changed are covered.
+
+export interface PatchedPage {
+  /** Where the page sits in the original PDF and how it was turned and cropped since. */
+  layout: PageLayout;
+  /** The page as rendered for processing, and its cleaned counterpart if there is one. */
+  source: string;
+  result: string | null;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const normalizedRotation = (page: PDFPage) => ((page.getRotation().angle % 360) + 360) % 360;
+
+/**
+ * Maps a rectangle on the rendered page (top-left origin, rotation applied) to PDF
+ * user space (bottom-left origin of the crop box, unrotated).
+ */
+function toUserSpace(page: PDFPage, rect: Rect, rasterWidth: number, rasterHeight: number): Rect {
+  const box = page.getCropBox();
+  const rotation = normalizedRotation(page);
+  const map = (u: number, v: number): [number, number] => {
+    switch (rotation) {
+      case 90: return [v, u];
+      case 180: return [1 - u, v];
+      case 270: return [1 - v, 1 - u];
+      default: return [u, 1 - v];
+    }
+  };
+  const [ax, ay] = map(rect.x / rasterWidth, rect.y / rasterHeight);
+  const [bx, by] = map((rect.x + rect.width) / rasterWidth, (rect.y + rect.height) / rasterHeight);
+  return {
+    x: box.x + Math.min(ax, bx) * box.width,
+    y: box.y + Math.min(ay, by) * box.height,
+    width: Math.abs(bx - ax) * box.width,
+    height: Math.abs(by - ay) * box.height,
+  };
+}
+
+/** Cuts `rect` out of the canvas as a PNG, turned back so it reads correctly in unrotated user space. */
+async function cropPatch(canvas: HTMLCanvasElement, rect: Rect, rotation: number): Promise<Uint8Array> {
+  const turned = rotation === 90 || rotation === 270;
+  const [patch, ctx] = createCanvas(turned ? rect.height : rect.width, turned ? rect.width : rect.height);
+  ctx.translate(patch.width / 2, patch.height / 2);
+  ctx.rotate((-rotation * Math.PI) / 180);
+  ctx.drawImage(canvas, rect.x, rect.y, rect.width, rect.height, -rect.width / 2, -rect.height / 2, rect.width, rect.height);
+  const blob = await new Promise<Blob | null>(resolve => patch.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error(t('error.exportImage'));
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/** Reproduces the page edits with the crop box and rotation, leaving the content untouched. */
+function applyLayout(page: PDFPage, { crop, rotation }: PageLayout) {
+  const cropped = toUserSpace(page, { x: crop.left, y: crop.top, width: 1 - crop.left - crop.right, height: 1 - crop.top - crop.bottom }, 1, 1);
+  page.setCropBox(cropped.x, cropped.y, cropped.width, cropped.height);
+  page.setRotation(degrees(normalizedRotation(page) + rotation));
+}
+
+/**
+ * Rebuilds the original PDF with the given pages, in order, and covers every area the
+ * cleanup changed with a white box or, where the cleaned page is not blank, an image
+ * patch of it. Covered text is hidden, not removed from the file.
+ */
+export async function patchPdf(original: Blob, pages: PatchedPage[]): Promise<Uint8Array> {
+  const uploaded = await PDFDocument.load(await original.arrayBuffer());
+  const pdf = await PDFDocument.create();
+  const copies = await pdf.copyPages(uploaded, pages.map(page => page.layout.origin));
+  for (const [i, { layout, source, result }] of pages.entries()) {
+    const page = pdf.addPage(copies[i]);
+    applyLayout(page, layout);
+    if (!result) continue;
+    const [sourceCanvas, sourceCtx] = await rasterize(source);
+    const { width, height } = sourceCanvas;
+    const [resultCanvas, resultCtx] = await rasterize(result, width, height);
+    const regions = findChangedRegions(sourceCtx.getImageData(0, 0, width, height), resultCtx.getImageData(0, 0, width, height));
+    for (const region of regions) {
+      const rect = toUserSpace(page, region, width, height);
+      if (region.fill === 'white') {
+        page.drawRectangle({ ...rect, color: rgb(1, 1, 1) });
+      } else {
+        const image = await pdf.embedPng(await cropPatch(resultCanvas, region, normalizedRotation(page)));
+        page.drawImage(image, rect);
+      }
+    }
+  }
+  return pdf.save();
+}
+
+/** Concatenates PDFs into one. */
+export async function mergePdfs(parts: Uint8Array[]): Promise<Uint8Array> {
+  const merged = await PDFDocument.create();
+  for (const part of parts) {
+    const doc = await PDFDocument.load(part);
+    for (const page of await merged.copyPages(doc, doc.getPageIndices())) merged.addPage(page);
+  }
+  return merged.save();
+}
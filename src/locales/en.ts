@@ -0,0 +1,374 @@
+import type { Message, MessageKey } from '../lib/i18n.ts';
+
+export const en: Record<MessageKey, Message> = {
+  // Shared
+  'common.close': 'Close',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.reset': 'Reset',
+  'common.delete': 'Delete',
+  'common.unknownError': 'unknown error',
+  'common.original': 'Original',
+  'common.result': 'Processed',
+  'common.page': 'Page {page}',
+  'common.pageOf': 'Page {page} of {count}',
+  'common.pageCount': { one: '{count} page', other: '{count} pages' },
+  'common.progress': '{done}/{total}',
+  'engine.ai': 'AI',
+  'engine.local': 'Local',
+  'engine.local-ai': 'Local → AI',
+  'engine.ai-local': 'AI → Local',
+  'color.pencil': 'pencil',
+  'color.black': 'black',
+  'color.blue': 'blue',
+  'color.red': 'red',
+  'color.green': 'green',
+  'mark.handwriting': 'handwriting',
+  'mark.stamp': 'stamps',
+  'mark.score': 'scores',
+  'mark.doodle': 'doodles',
+  'paper.a4': 'A4',
+  'paper.letter': 'Letter',
+  'paper.b5': 'B5',
+  'paper.16k': '16K',
+  'paper.8k': '8K',
+
+  // Errors raised while reading and writing images
+  'error.loadImage': 'Could not load the image',
+  'error.canvas': 'Could not create a canvas',
+  'error.encodeImage': 'Could not encode the image',
+  'error.exportImage': 'Could not export the image',
+  'error.pdfRender': 'Could not render the PDF',
+  'error.pdfWorker': 'The PDF rendering worker failed',
+  'error.fetch': 'Could not load {url}',
+  'answers.layer': 'Answers',
+
+  // Instructions sent to the model
+  'builder.inks': 'Erase all {inks} handwriting, including answers, filled-in blanks, notes, ticks and scores',
+  'builder.keepDiagrams': 'Keep all printed figures, tables and diagrams, and erase only what was drawn on them',
+  'builder.eraseDiagrams': 'Also erase hand-drawn figures, construction lines and sketches',
+  'builder.keepRedHeaders': 'Keep headings printed in red instead of erasing them as red-pen marking',
+  'builder.whitenBackground': 'Make the paper background an even pure white, removing shadows and stains',
+  'builder.keepLayout': 'Keep the original questions, printed text and layout',
+  'builder.separator': '. ',
+  'builder.instruction': '{clauses}. {notes}',
+  'detect.instruction': 'Erase the {marks} inside the mask, keeping printed text, lines and the paper background.',
+  'preset.blank.name': 'Blank worksheet',
+  'preset.blank.tag': 'worksheet',
+  'preset.blank.instruction': 'Erase all handwritten answers, filled-in blanks, drawings and marks. Keep the original blank questions, printed text and document structure. Make it look like a clean, blank worksheet.',
+  'preset.redPen.name': 'Remove red-pen marking',
+  'preset.redPen.tag': 'marking',
+  'preset.redPen.instruction': 'Remove the red notes and scores from the image, keeping black handwriting and printed text.',
+  'preset.whiteBackground.name': 'White background',
+  'preset.whiteBackground.tag': 'scan',
+  'preset.whiteBackground.instruction': 'Remove clutter and shadows from the background, make it pure white and sharpen the text.',
+  'preset.figuresOnly.name': 'Figures only',
+  'preset.figuresOnly.tag': 'figures',
+  'preset.figuresOnly.instruction': 'Erase all text from the image, keeping only graphics such as pictures and tables.',
+
+  // Why a page failed, and what to do about it
+  'errorKind.safety.title': "The page was blocked by the model's safety filters",
+  'errorKind.safety.fix': 'Crop away photos or portraits unrelated to the worksheet, or reword anything in the instruction that could be misread, then retry.',
+  'errorKind.recitation.title': 'The model withheld the result as possibly copying protected material',
+  'errorKind.recitation.fix': 'Retrying usually works; if it keeps failing, process this page with the local engine.',
+  'errorKind.text-only.title': 'The model replied with text but no image',
+  'errorKind.text-only.fix': 'Make the instruction more specific and ask explicitly for the edited image, then retry this page.',
+  'errorKind.no-image.title': 'The model did not return an image',
+  'errorKind.no-image.fix': 'Retry this page; if it keeps happening, turn on tiling or lower the PDF render resolution.',
+  'errorKind.truncated.title': "The model's output was cut off before the image was complete",
+  'errorKind.truncated.fix': 'Turn on tiling or lower the PDF render resolution so each request sends a smaller image.',
+  'errorKind.quota.title': 'The API quota or rate limit was reached',
+  'errorKind.quota.fix': "Lower the requests-per-minute limit and concurrency, try again later, or check the API account's quota.",
+  'errorKind.auth.title': "The server's API key is invalid or lacks permission",
+  'errorKind.auth.fix': 'Ask the administrator to check GEMINI_API_KEY on the server.',
+  'errorKind.invalid-request.title': 'The server rejected the request',
+  'errorKind.invalid-request.fix': 'The image may be too large or in an unsupported format; lower the PDF render resolution or crop the page, then retry.',
+  'errorKind.timeout.title': 'The request timed out',
+  'errorKind.timeout.fix': 'Turn on tiling or lower the PDF render resolution, then retry.',
+  'errorKind.unavailable.title': 'The model service is temporarily unavailable',
+  'errorKind.unavailable.fix': 'It was already retried automatically; retry this page a little later.',
+  'errorKind.network.title': 'Cannot reach the server',
+  'errorKind.network.fix': 'Check the network connection and retry.',
+  'errorKind.cancelled.title': 'Cancelled',
+  'errorKind.cancelled.fix': '',
+  'errorKind.unknown.title': 'Something went wrong while processing the image',
+  'errorKind.unknown.fix': 'Retry this page; if it still fails, export the diagnostics log and send it to us.',
+  'errorKind.detail': '{title}. {detail}',
+  'errorKind.modelReply': 'The AI replied: {text}',
+  'errorKind.reason': 'Reason: {reason}',
+
+  // Compare viewer
+  'compare.side': 'Side by side',
+  'compare.swipe': 'Swipe',
+  'compare.overlay': 'Overlay',
+  'compare.diff': 'Difference',
+  'compare.previous': 'Previous page (←)',
+  'compare.next': 'Next page (→)',
+  'compare.zoomOut': 'Zoom out (-)',
+  'compare.zoomIn': 'Zoom in (+)',
+  'compare.fit': 'Fit to window (0)',
+  'compare.close': 'Close (Esc)',
+  'compare.swipeCaption': 'Left: original · Right: processed',
+  'compare.diffCaption': 'Red: changed pixels',
+  'compare.computing': 'Computing differences...',
+  'compare.diffFailed': 'Could not compute the differences; check that both the original and the result open',
+  'compare.help': 'Scroll to zoom · Drag to pan · Double-click to reset · ←/→ to turn pages · 1-4 to switch modes · Esc to close',
+
+  // Page editors
+  'crop.title': 'Crop margins · {page}',
+  'crop.apply': 'Crop',
+  'crop.help': 'Drag a box around the area to keep; the margins outside it are cropped away.',
+  'queue.pending': 'Waiting',
+  'queue.running': 'Processing',
+  'queue.done': 'Done',
+  'queue.failed': 'Has failures',
+  'queue.skipped': 'Skipped',
+  'queue.pages': { one: '{done}/{count} page', other: '{done}/{count} pages' },
+  'queue.remove': 'Remove from queue',
+  'engine.label': 'Engine:',
+  'engine.inkColors': 'Ink colours to remove',
+  'engine.hueTolerance': 'Hue tolerance',
+  'engine.flattenShadows': 'Remove shadows',
+  'engine.whitenBackground': 'Whiten background',
+
+  // Export dialog
+  'export.title': 'Export',
+  'export.color': 'Colour',
+  'export.grayscale': 'Grayscale',
+  'export.bw': 'B&W (saves ink)',
+  'export.output': 'Output',
+  'export.perDocument': 'One file each (ZIP)',
+  'export.merged': 'Merged',
+  'export.format': 'Format',
+  'export.originalPdf': 'Original PDF',
+  'export.image': 'Images',
+  'export.encoding': 'Image encoding',
+  'export.png': 'PNG lossless',
+  'export.jpeg': 'JPEG compressed',
+  'export.quality': 'JPEG quality',
+  'export.colorMode': 'Colour',
+  'export.margin': 'Margins',
+  'export.mm': 'mm',
+  'export.twoUp': 'Print two pages per sheet',
+  'export.answersHint': 'PNGs with a transparent background, and a PDF of blank pages with the answers on a layer that can be switched on and off',
+  'export.answers': 'Also export the answers as a layer',
+  'export.originalHelp': 'Only the erased areas are covered in the original PDF, so text stays selectable and prints sharply. The covered text is still in the file, so do not rely on it to hide anything. Files that are not PDFs are exported as ordinary PDFs.',
+  'export.pdfHelp': 'PDF pages keep the original paper size and orientation; photos are scaled to A4.',
+  'export.imageHelp': 'Each page is exported as an image; several images are packed into a ZIP.',
+
+  // History
+  'history.title': 'History',
+  'history.loadFailed': 'Could not load the history: {error}',
+  'history.actionFailed': 'The action failed',
+  'history.confirmDelete': 'Delete the record of “{name}”?',
+  'history.deleteFailed': 'Could not delete it',
+  'history.empty': 'Nothing has been processed yet',
+  'history.noInstruction': '(no instruction)',
+  'history.pagesDone': { one: '{done}/{count} page done', other: '{done}/{count} pages done' },
+  'common.pagesFailed': { one: '{count} page failed', other: '{count} pages failed' },
+  'history.open': 'Open',
+  'history.download': 'Download',
+  'history.rerun': 'Edit and re-run',
+
+  // Mark review
+  'marks.failed': 'Detection failed',
+  'marks.title': 'Detected marks · {page}',
+  'marks.toggleCategory': 'Accept or reject all of this kind',
+  'marks.apply': 'Erase the selected areas ({count})',
+  'marks.failedHelp': 'Detection failed: {error}. You can still drag on the page to draw boxes by hand.',
+  'marks.noneHelp': 'No marks were found; drag on the page to draw boxes by hand.',
+  'marks.help': "Click a box to accept or reject it, drag it to move it, drag its bottom-right corner to resize it, and drag on an empty area to add a box. The selected boxes become this page's mask.",
+  'marks.detecting': 'Looking for handwriting, stamps, scores and doodles...',
+
+  // Mask editor
+  'mask.title': 'Edit mask · page {page}',
+  'mask.brush': 'Brush',
+  'mask.rect': 'Rectangle',
+  'mask.eraser': 'Eraser',
+  'mask.brushSize': 'Brush size',
+  'mask.clear': 'Clear',
+  'mask.applyToAll': { one: 'Apply to {count} page', other: 'Apply to all {count} pages' },
+  'mask.help': 'Paint over the areas to erase. Only what is inside the red areas is replaced; everything else stays as it is.',
+
+  // Page strip
+  'strip.selected': { one: '{selected}/{count} page selected', other: '{selected}/{count} pages selected' },
+  'strip.rangePlaceholder': 'e.g. 1-3,5',
+  'strip.rangeHint': 'Type the pages to process and press Enter',
+  'strip.selectAll': 'Select all',
+  'strip.selectNone': 'Select none',
+  'strip.rotateLeft': 'Rotate left',
+  'strip.rotateRight': 'Rotate right',
+  'strip.crop': 'Crop margins',
+  'strip.flatten': 'Correct perspective',
+  'strip.delete': 'Delete this page',
+  'strip.help': 'Click thumbnails to choose the pages to process; drag to reorder them.',
+
+  // Perspective correction
+  'perspective.title': 'Correct perspective · {page}',
+  'perspective.detect': 'Detect',
+  'perspective.wholeImage': 'Whole image',
+  'perspective.paper': 'Paper',
+  'perspective.detectedRatio': 'As detected',
+  'perspective.deskew': 'Straighten slight tilt',
+  'perspective.apply': 'Correct',
+  'perspective.notFound': 'No paper edges were found; drag the four corners onto the sheet by hand.',
+  'perspective.help': 'Drag the four corners onto the edges of the sheet; it is then flattened into a rectangular page.',
+
+  // Prompt presets
+  'presets.title': 'Prompt presets',
+  'presets.notAPresetFile': 'Not a preset file',
+  'presets.imported': { one: 'Imported {count} preset', other: 'Imported {count} presets' },
+  'presets.importFailed': 'Import failed: {error}',
+  'presets.badFormat': 'the file format is wrong',
+  'presets.import': 'Import',
+  'presets.export': 'Export',
+  'presets.name': 'Name',
+  'presets.tags': 'Tags (comma-separated)',
+  'presets.useBuilder': 'Compose the instruction from options',
+  'prompt.instruction': 'Erasing instruction',
+  'presets.template': 'Prompt template (the instruction goes where {placeholder} is)',
+  'presets.restoreTemplate': 'Restore default',
+  'presets.isDefault': 'Load when the app opens',
+  'presets.save': 'Save preset',
+  'presets.newFromCurrent': 'New from current instruction',
+  'presets.tagsLabel': 'Tags:',
+  'presets.empty': 'No presets yet',
+  'prompt.customTemplate': 'Custom template',
+  'presets.unsetDefault': 'Unset default',
+  'presets.setDefault': 'Set as default',
+  'presets.use': 'Use',
+  'presets.edit': 'Edit',
+
+  // Instruction builder and recipes
+  'builder.inkColors': 'Ink colours to erase',
+  'builder.keepDiagramsOption': 'Keep printed figures',
+  'builder.keepRedHeadersOption': 'Keep headings printed in red',
+  'builder.whitenBackgroundOption': 'White background',
+  'builder.notes': 'Additional notes (optional)',
+  'recipes.localStep': { one: 'Local processing ({count} colour)', other: 'Local processing ({count} colours)' },
+  'recipes.title': 'Multi-step recipes',
+  'recipes.steps': { one: '{count} step', other: '{count} steps' },
+  'recipes.apply': 'Apply to all pages',
+  'recipes.delete': 'Delete recipe',
+  'recipes.newHelp': 'New recipe: each step runs on the result of the one before',
+  'recipes.removeStep': 'Remove this step',
+  'recipes.addStep': 'Add current settings as a step',
+  'recipes.name': 'Recipe name',
+  'recipes.save': 'Save recipe',
+
+  // Versions
+  'versions.undo': 'Undo',
+  'versions.redo': 'Redo',
+  'versions.version': 'Version {id}',
+  'versions.basedOn': '{version} (based on {parent}) · {engine}',
+
+  // Crash screen
+  'crash.title': 'Something went wrong',
+  'crash.help': 'Reload the page to carry on. If it keeps happening, export the diagnostics log and attach it to your report.',
+  'crash.details': 'Error details',
+  'crash.reload': 'Reload',
+  'diagnostics.export': 'Export diagnostics log',
+
+  // App
+  'app.title': 'Smarter Exam Eraser',
+  'app.history': 'History',
+  'app.language': 'Interface language',
+  'app.heroTitle': 'Erase exam answers in one click',
+  'app.heroText': 'Upload a photo or PDF of an exam with handwritten answers or grading marks. The AI finds and erases every trace of the answers and gives you back a clean, blank exam.',
+  'app.promptLabel': 'What to erase',
+  'app.promptHint': '(describe in detail what the AI should erase or keep)',
+  'app.promptPlaceholder': 'Describe what you need, e.g. erase all handwritten answers, filled-in blanks, drawings and marks. Keep the original blank questions, printed text and layout.',
+  'app.presets': 'Presets:',
+  'app.managePresets': 'Manage presets',
+  'app.customTemplate': 'Custom template ×',
+  'app.customTemplateTitle': 'This preset uses a custom prompt template; click to restore the default',
+  'app.builder': 'Build the instruction step by step',
+  'app.tipLabel': 'Note:',
+  'app.tip': 'AI image editing is limited by the model itself. If the AI replies with text (for example a refusal), it usually hit a safety filter or could not read the page. If the result is not clean enough, adjust the instruction or upload a sharper image.',
+  'app.tipsTitle': 'How do I get better results?',
+  'app.tipSpecific': 'Be specific: "erase all red ink" works better than "remove marks".',
+  'app.tipSteps': 'Work in steps: if a page has many marks, clear one colour first, then the next.',
+  'app.tipLight': 'Use good light: make sure photos are evenly lit without heavy shadows or glare.',
+  'app.tipFocus': 'Keep it in focus: the sharper the text, the easier it is to tell print from handwriting.',
+  'app.offlineTitle': 'Cannot reach the server',
+  'app.offlineText': { one: '{count} page is saved in the browser and will be processed automatically once you are back online, even after a reload. Local processing still works.', other: '{count} pages are saved in the browser and will be processed automatically once you are back online, even after a reload. Local processing still works.' },
+  'app.retryNow': 'Retry now',
+  'app.errorTitle': 'Something went wrong',
+  'app.problemSeparator': '; ',
+  'app.tooLarge': '"{name}" is larger than 100 MB',
+  'app.readFailed': 'Could not read "{name}": {error}',
+  'app.confirmEdit': 'This page has already been processed and will need processing again after the change. Continue?',
+  'app.perspectiveFailed': 'Perspective correction failed: {error}',
+  'app.processFailed': 'An error occurred while processing the image.',
+  'app.historyMissing': { one: '{count} page has no saved original in the history and was left out.', other: '{count} pages have no saved original in the history and were left out.' },
+  'app.historyFailed': 'Could not load the history entry: {error}',
+  'app.downloadFailed': 'Download failed: {error}',
+  'app.detectFailed': 'Could not apply the detected marks: {error}',
+  'app.exportFailed': 'Export failed: {error}',
+  'app.pageLabel': '{name} · page {page}',
+  'source.title': 'Originals',
+  'source.counts': '({files}, {pages})',
+  'source.files': { one: '{count} file', other: '{count} files' },
+  'source.add': 'Add',
+  'source.clear': 'Clear',
+  'source.rendering': 'Rendering page {done} of {total}...',
+  'source.reading': 'Reading files...',
+  'source.previewNote': 'Previews come first; each page is rendered at the chosen resolution when it is processed',
+  'source.upload': 'Click to upload exam photos or PDFs',
+  'source.uploadHint': 'Select several files at once. JPG, PNG and PDF, up to 100 MB each',
+  'source.folder': 'Choose a whole folder',
+  'source.detect': 'Detect',
+  'source.detectTitle': 'Let the AI find handwriting, stamps, scores and doodles, then use the ones you confirm as a mask',
+  'source.mask': 'Mask',
+  'source.maskSet': 'Masked',
+  'source.maskTitle': 'Limit where erasing happens',
+  'settings.autoFlatten': 'Correct perspective when uploading photos',
+  'settings.autoFlattenTitle': 'Find the sheet in the photo, flatten it and straighten slight tilts',
+  'settings.renderDpi': 'PDF render resolution',
+  'settings.renderDpiTitle': 'PDFs are previewed at low resolution; a page is rendered at this resolution only when it is processed',
+  'settings.concurrency': 'Parallel pages',
+  'settings.requestsPerMinute': 'Requests per minute',
+  'settings.tiling': 'Process large images in tiles',
+  'settings.tilingTitle': 'Split large images into overlapping tiles for the AI and stitch them back at full resolution, keeping small print sharp',
+  'settings.tileSize': 'Tile size',
+  'settings.overlap': 'Overlap',
+  'settings.fidelity': 'Fidelity check',
+  'settings.fidelityTitle': 'Check whether the AI changed any printed content',
+  'settings.threshold': 'Threshold',
+  'settings.autoRetries': 'Retry automatically below it',
+  'settings.retriesUnit': 'times',
+  'run.aiBusy': 'AI is working...',
+  'run.localBusy': 'Processing locally...',
+  'run.noFiles': 'Upload files first',
+  'run.noSelection': 'Select the pages to process',
+  'run.noPrompt': 'Describe what to erase first',
+  'run.start': 'Start erasing',
+  'run.startSome': { one: 'Start erasing ({count} page)', other: 'Start erasing ({count} pages)' },
+  'run.resume': { one: 'Continue ({count} page)', other: 'Continue ({count} pages)' },
+  'results.title': 'Results',
+  'results.flagged': { one: '{count} page to review', other: '{count} pages to review' },
+  'results.showHeatmaps': 'Show difference heatmaps',
+  'results.hideHeatmaps': 'Hide difference heatmaps',
+  'results.undoAll': 'Undo one step on every page',
+  'results.redoAll': 'Redo one step on every page',
+  'results.single': 'Single',
+  'results.compare': 'Compare',
+  'results.download': 'Download',
+  'results.fidelity': 'Fidelity {score}',
+  'results.fidelityFlagged': 'The AI may have changed printed content; differences are shown in red',
+  'results.fidelityOk': 'Printed content is unchanged',
+  'results.left': 'Left: original',
+  'results.right': 'Right: processed',
+  'results.fullscreen': 'Compare full screen',
+  'results.tiling': 'Processing page {page} in tiles... ({done}/{total})',
+  'results.running': 'Processing page {page}...',
+  'results.attempt': ' (attempt {attempt})',
+  'results.skipped': 'This page was skipped',
+  'results.fix': 'Try this: {fix}',
+  'results.retry': 'Retry this page',
+  'results.skip': 'Skip',
+  'results.restored': 'Restored to the original',
+  'results.waiting': 'Waiting',
+  'results.empty': 'Processed pages will appear here',
+  'results.resultAlt': 'Processed {page}',
+};
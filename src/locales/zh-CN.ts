@@ -0,0 +1,376 @@
+import type { Message } from '../lib/i18n.ts';
+
+// The reference locale: every key the UI uses is defined here first.
+
+export const zhCN = {
+  // Shared
+  'common.close': '关闭',
+  'common.cancel': '取消',
+  'common.save': '保存',
+  'common.reset': '重置',
+  'common.delete': '删除',
+  'common.unknownError': '未知错误',
+  'common.original': '原图',
+  'common.result': '处理后',
+  'common.page': '第 {page} 页',
+  'common.pageOf': '第 {page} / {count} 页',
+  'common.pageCount': { other: '{count} 页' },
+  'common.progress': '{done}/{total}',
+  'engine.ai': 'AI',
+  'engine.local': '本地',
+  'engine.local-ai': '本地 → AI',
+  'engine.ai-local': 'AI → 本地',
+  'color.pencil': '铅笔',
+  'color.black': '黑色',
+  'color.blue': '蓝色',
+  'color.red': '红色',
+  'color.green': '绿色',
+  'mark.handwriting': '手写',
+  'mark.stamp': '印章',
+  'mark.score': '分数',
+  'mark.doodle': '涂画',
+  'paper.a4': 'A4',
+  'paper.letter': 'Letter',
+  'paper.b5': 'B5',
+  'paper.16k': '16开',
+  'paper.8k': '8开',
+
+  // Errors raised while reading and writing images
+  'error.loadImage': '无法加载图像',
+  'error.canvas': '无法创建画布',
+  'error.encodeImage': '无法编码图像',
+  'error.exportImage': '无法导出图像',
+  'error.pdfRender': 'PDF 渲染失败',
+  'error.pdfWorker': 'PDF 渲染线程出错',
+  'error.fetch': '无法加载 {url}',
+  'answers.layer': '答案',
+
+  // Instructions sent to the model
+  'builder.inks': '擦除所有{inks}的手写笔迹，包括答案、填空、批注、勾画和打分',
+  'builder.keepDiagrams': '保留所有印刷的图形、表格和示意图，只擦除在图上添加的笔迹',
+  'builder.eraseDiagrams': '同时擦除手绘的图形、辅助线和作图痕迹',
+  'builder.keepRedHeaders': '保留红色印刷的标题和题头，不要当作红笔批改擦除',
+  'builder.whitenBackground': '将纸张背景处理为均匀的纯白色，去除阴影和污渍',
+  'builder.keepLayout': '保留原始的题目、印刷文字和版式',
+  'builder.separator': '；',
+  'builder.instruction': '{clauses}。{notes}',
+  'detect.instruction': '擦除蒙版区域内的{marks}，保留印刷文字、线条和纸张背景。',
+  'preset.blank.name': '空白试卷',
+  'preset.blank.tag': '试卷',
+  'preset.blank.instruction': '擦除所有手写答案、填空、画图和标记。保留原始的空白问题、打印文本和文档结构。让它看起来像一张干净的空白试卷。',
+  'preset.redPen.name': '去红笔批改',
+  'preset.redPen.tag': '批改',
+  'preset.redPen.instruction': '清除图片中的红色批注和打分，保留黑色手写字和打印字。',
+  'preset.whiteBackground.name': '背景纯白',
+  'preset.whiteBackground.tag': '扫描',
+  'preset.whiteBackground.instruction': '去除图片背景中的杂物和阴影，将背景变成纯白色，增强文字清晰度。',
+  'preset.figuresOnly.name': '只留图形',
+  'preset.figuresOnly.tag': '图形',
+  'preset.figuresOnly.instruction': '擦除图片中的所有文字，只保留图片和表格等图形元素。',
+
+  // Why a page failed, and what to do about it
+  'errorKind.safety.title': '内容被模型的安全策略拦截',
+  'errorKind.safety.fix': '裁掉页面上与试卷无关的照片或人像，或改写清除说明中可能被误判的词语后重试。',
+  'errorKind.recitation.title': '模型认为结果可能复制了受保护的内容，拒绝输出',
+  'errorKind.recitation.fix': '直接重试通常即可；仍然失败时，可改用本地引擎处理此页。',
+  'errorKind.text-only.title': '模型只回复了文字，没有生成图像',
+  'errorKind.text-only.fix': '把清除说明写得更具体，明确要求输出处理后的图像，然后重试此页。',
+  'errorKind.no-image.title': '模型没有返回图像',
+  'errorKind.no-image.fix': '重试此页；反复出现时，可开启分块处理或降低 PDF 渲染分辨率。',
+  'errorKind.truncated.title': '模型输出在图像完成前被截断',
+  'errorKind.truncated.fix': '开启分块处理或降低 PDF 渲染分辨率，让每次请求的图像更小。',
+  'errorKind.quota.title': '已达到 API 配额或请求频率上限',
+  'errorKind.quota.fix': '降低每分钟请求上限和并发数，稍后再试，或检查 API 账户的配额。',
+  'errorKind.auth.title': '服务器的 API 密钥无效或没有权限',
+  'errorKind.auth.fix': '请管理员检查服务器上的 GEMINI_API_KEY 配置。',
+  'errorKind.invalid-request.title': '请求被服务器拒绝',
+  'errorKind.invalid-request.fix': '图像可能过大或格式不受支持；降低 PDF 渲染分辨率或裁剪页面后重试。',
+  'errorKind.timeout.title': '请求超时',
+  'errorKind.timeout.fix': '开启分块处理或降低 PDF 渲染分辨率后重试。',
+  'errorKind.unavailable.title': '模型服务暂时不可用',
+  'errorKind.unavailable.fix': '已自动重试过几次，请稍后再重试此页。',
+  'errorKind.network.title': '无法连接服务器',
+  'errorKind.network.fix': '检查网络连接后重试。',
+  'errorKind.cancelled.title': '已取消',
+  'errorKind.cancelled.fix': '',
+  'errorKind.unknown.title': '处理图像时发生错误',
+  'errorKind.unknown.fix': '重试此页；仍然失败时，请导出诊断日志并反馈给我们。',
+  'errorKind.detail': '{title}。{detail}',
+  'errorKind.modelReply': 'AI回复：{text}',
+  'errorKind.reason': '原因：{reason}',
+
+  // Compare viewer
+  'compare.side': '并排',
+  'compare.swipe': '滑动',
+  'compare.overlay': '叠加',
+  'compare.diff': '差异',
+  'compare.previous': '上一页 (←)',
+  'compare.next': '下一页 (→)',
+  'compare.zoomOut': '缩小 (-)',
+  'compare.zoomIn': '放大 (+)',
+  'compare.fit': '适应窗口 (0)',
+  'compare.close': '关闭 (Esc)',
+  'compare.swipeCaption': '左：原图 · 右：处理后',
+  'compare.diffCaption': '红色：有变化的像素',
+  'compare.computing': '正在计算差异...',
+  'compare.diffFailed': '无法计算差异，请确认原图和处理结果都能正常打开',
+  'compare.help': '滚轮缩放 · 拖动平移 · 双击复位 · ←/→ 翻页 · 1-4 切换模式 · Esc 关闭',
+
+  // Page editors
+  'crop.title': '裁剪边距 · {page}',
+  'crop.apply': '裁剪',
+  'crop.help': '拖动框选要保留的区域，框外的边距会被裁掉。',
+  'queue.pending': '等待',
+  'queue.running': '处理中',
+  'queue.done': '完成',
+  'queue.failed': '有失败',
+  'queue.skipped': '已跳过',
+  'queue.pages': { other: '{done}/{count} 页' },
+  'queue.remove': '移出队列',
+  'engine.label': '处理引擎：',
+  'engine.inkColors': '去除笔迹颜色',
+  'engine.hueTolerance': '色相容差',
+  'engine.flattenShadows': '去除阴影',
+  'engine.whitenBackground': '背景纯白化',
+
+  // Export dialog
+  'export.title': '导出',
+  'export.color': '彩色',
+  'export.grayscale': '灰度',
+  'export.bw': '黑白省墨',
+  'export.output': '输出方式',
+  'export.perDocument': '每个文件单独 (ZIP)',
+  'export.merged': '合并',
+  'export.format': '格式',
+  'export.originalPdf': '原 PDF',
+  'export.image': '图片',
+  'export.encoding': '图像编码',
+  'export.png': 'PNG 无损',
+  'export.jpeg': 'JPEG 压缩',
+  'export.quality': 'JPEG 质量',
+  'export.colorMode': '颜色',
+  'export.margin': '页边距',
+  'export.mm': '毫米',
+  'export.twoUp': '每张纸打印两页',
+  'export.answersHint': '透明背景的 PNG，以及空白页上叠加可开关答案图层的 PDF',
+  'export.answers': '同时导出答案图层',
+  'export.originalHelp': '在原 PDF 上只覆盖被擦除的区域，文字保持可选中、打印清晰。被覆盖的文字仍保留在文件中，请勿用于保密。非 PDF 文件按普通 PDF 导出。',
+  'export.pdfHelp': 'PDF 页面保持原文件的纸张尺寸和方向；照片按 A4 比例缩放。',
+  'export.imageHelp': '每页导出为一张图片，多张图片打包为 ZIP。',
+
+  // History
+  'history.title': '历史记录',
+  'history.loadFailed': '无法加载历史记录: {error}',
+  'history.actionFailed': '操作失败',
+  'history.confirmDelete': '删除「{name}」的处理记录？',
+  'history.deleteFailed': '删除失败',
+  'history.empty': '还没有处理记录',
+  'history.noInstruction': '（无指令）',
+  'history.pagesDone': { other: '{done}/{count} 页完成' },
+  'common.pagesFailed': { other: '{count} 页失败' },
+  'history.open': '打开',
+  'history.download': '下载',
+  'history.rerun': '修改后重跑',
+
+  // Mark review
+  'marks.failed': '识别失败',
+  'marks.title': '识别标记 · {page}',
+  'marks.toggleCategory': '全部接受或全部拒绝这一类',
+  'marks.apply': '按选中区域擦除 ({count})',
+  'marks.failedHelp': '识别失败：{error}。仍可在页面上拖动手动框选。',
+  'marks.noneHelp': '没有识别到标记，可在页面上拖动手动框选。',
+  'marks.help': '点击框接受或拒绝，拖动框移动位置，拖动右下角调整大小，在空白处拖动可添加新框。确认后选中的框会设为此页的蒙版。',
+  'marks.detecting': '正在识别手写、印章、分数和涂画...',
+
+  // Mask editor
+  'mask.title': '编辑蒙版 · 第 {page} 页',
+  'mask.brush': '画笔',
+  'mask.rect': '矩形',
+  'mask.eraser': '橡皮',
+  'mask.brushSize': '笔刷大小',
+  'mask.clear': '清除',
+  'mask.applyToAll': { other: '应用到全部 {count} 页' },
+  'mask.help': '涂抹需要擦除的区域。处理后只有红色区域内的内容会被替换，其余部分保持原样。',
+
+  // Page strip
+  'strip.selected': { other: '已选 {selected}/{count} 页' },
+  'strip.rangePlaceholder': '例如 1-3,5',
+  'strip.rangeHint': '输入要处理的页码范围，回车确认',
+  'strip.selectAll': '全选',
+  'strip.selectNone': '全不选',
+  'strip.rotateLeft': '向左旋转',
+  'strip.rotateRight': '向右旋转',
+  'strip.crop': '裁剪边距',
+  'strip.flatten': '透视校正',
+  'strip.delete': '删除此页',
+  'strip.help': '点击缩略图选择要处理的页面，拖动可调整顺序。',
+
+  // Perspective correction
+  'perspective.title': '透视校正 · {page}',
+  'perspective.detect': '自动检测',
+  'perspective.wholeImage': '整张图片',
+  'perspective.paper': '纸张',
+  'perspective.detectedRatio': '按检测比例',
+  'perspective.deskew': '纠正轻微倾斜',
+  'perspective.apply': '校正',
+  'perspective.notFound': '没有找到纸张边缘，请手动拖动四个角对准纸张。',
+  'perspective.help': '拖动四个角对准纸张边缘，校正后会拉平为矩形页面。',
+
+  // Prompt presets
+  'presets.title': '提示词预设',
+  'presets.notAPresetFile': '不是预设文件',
+  'presets.imported': { other: '已导入 {count} 个预设' },
+  'presets.importFailed': '导入失败: {error}',
+  'presets.badFormat': '文件格式错误',
+  'presets.import': '导入',
+  'presets.export': '导出',
+  'presets.name': '名称',
+  'presets.tags': '标签（用逗号分隔）',
+  'presets.useBuilder': '用结构化选项生成说明',
+  'prompt.instruction': '清除需求说明',
+  'presets.template': '提示模板（{placeholder} 处会填入说明）',
+  'presets.restoreTemplate': '恢复默认',
+  'presets.isDefault': '打开应用时默认使用',
+  'presets.save': '保存预设',
+  'presets.newFromCurrent': '用当前说明新建',
+  'presets.tagsLabel': '标签：',
+  'presets.empty': '还没有预设',
+  'prompt.customTemplate': '自定义模板',
+  'presets.unsetDefault': '取消默认',
+  'presets.setDefault': '设为默认',
+  'presets.use': '使用',
+  'presets.edit': '编辑',
+
+  // Instruction builder and recipes
+  'builder.inkColors': '擦除笔迹颜色',
+  'builder.keepDiagramsOption': '保留印刷图形',
+  'builder.keepRedHeadersOption': '保留红色印刷标题',
+  'builder.whitenBackgroundOption': '背景纯白',
+  'builder.notes': '补充说明（可选）',
+  'recipes.localStep': { other: '本地处理（{count} 种颜色）' },
+  'recipes.title': '多步配方',
+  'recipes.steps': { other: '{count} 步' },
+  'recipes.apply': '应用到全部页面',
+  'recipes.delete': '删除配方',
+  'recipes.newHelp': '新建配方：每一步都在上一步的结果上执行',
+  'recipes.removeStep': '移除此步',
+  'recipes.addStep': '添加当前设置为一步',
+  'recipes.name': '配方名称',
+  'recipes.save': '保存配方',
+
+  // Versions
+  'versions.undo': '撤销',
+  'versions.redo': '重做',
+  'versions.version': '第 {id} 版',
+  'versions.basedOn': '{version}（基于{parent}）· {engine}',
+
+  // Crash screen
+  'crash.title': '页面出错了',
+  'crash.help': '重新加载页面即可继续使用。如果问题反复出现，请导出诊断日志并附在反馈中。',
+  'crash.details': '错误详情',
+  'crash.reload': '重新加载',
+  'diagnostics.export': '导出诊断日志',
+
+  // App
+  'app.title': '智能试卷擦除',
+  'app.history': '历史记录',
+  'app.language': '界面语言',
+  'app.heroTitle': '一键擦除试卷答案',
+  'app.heroText': '上传带有手写答案或批注的试卷照片或PDF，AI 将智能识别并擦除所有作答痕迹，为您还原一张全新的空白试卷。',
+  'app.promptLabel': '清除需求说明',
+  'app.promptHint': '(请详细描述您希望AI擦除或保留的内容)',
+  'app.promptPlaceholder': '请输入您的具体需求，例如：擦除所有手写答案、填空、画图和标记。保留原始的空白问题、打印文本和文档结构。',
+  'app.presets': '预设：',
+  'app.managePresets': '管理预设',
+  'app.customTemplate': '自定义模板 ×',
+  'app.customTemplateTitle': '当前预设使用自定义提示模板，点击恢复默认模板',
+  'app.builder': '结构化生成说明',
+  'app.tipLabel': '提示：',
+  'app.tip': 'AI 图像编辑能力受限于模型本身。如果 AI 返回了文字错误（如拒绝处理），通常是因为触发了安全限制或无法识别。如果擦除效果不理想，请尝试调整提示词，或上传更清晰的图片。',
+  'app.tipsTitle': '如何获得更好的擦除效果？',
+  'app.tipSpecific': '描述要具体：例如“擦除所有红色笔迹”比“清除标记”更有效。',
+  'app.tipSteps': '分步处理：如果一张图有很多标记，可以先清除一种颜色，再清除另一种。',
+  'app.tipLight': '光线充足：确保拍摄的照片光线均匀，没有严重的阴影或反光。',
+  'app.tipFocus': '对焦清晰：文字越清晰，AI 越容易区分打印字和手写字。',
+  'app.offlineTitle': '无法连接服务器',
+  'app.offlineText': { other: '{count} 页已保存在浏览器中，恢复联网后会自动继续处理，刷新页面也不会丢失。本地处理不受影响。' },
+  'app.retryNow': '立即重试',
+  'app.errorTitle': '处理失败',
+  'app.problemSeparator': '；',
+  'app.tooLarge': '「{name}」超过 100MB',
+  'app.readFailed': '读取「{name}」时发生错误: {error}',
+  'app.confirmEdit': '此页已有处理结果，修改后需要重新处理。继续吗？',
+  'app.perspectiveFailed': '透视校正失败: {error}',
+  'app.processFailed': '处理图像时发生错误。',
+  'app.historyMissing': { other: '有 {count} 页在历史记录中没有保存原图，已省略。' },
+  'app.historyFailed': '加载历史记录失败: {error}',
+  'app.downloadFailed': '下载失败: {error}',
+  'app.detectFailed': '应用识别结果失败: {error}',
+  'app.exportFailed': '导出失败: {error}',
+  'app.pageLabel': '{name} · 第 {page} 页',
+  'source.title': '原图',
+  'source.counts': '({files}，{pages})',
+  'source.files': { other: '{count} 个文件' },
+  'source.add': '添加',
+  'source.clear': '清空',
+  'source.rendering': '正在渲染第 {done}/{total} 页...',
+  'source.reading': '正在处理文件...',
+  'source.previewNote': '先生成预览，处理时再按所选分辨率渲染每一页',
+  'source.upload': '点击上传试卷照片或PDF',
+  'source.uploadHint': '可一次选择多个文件，支持 JPG, PNG, PDF 格式 (单个最大 100MB)',
+  'source.folder': '选择整个文件夹',
+  'source.detect': '识别',
+  'source.detectTitle': '让 AI 找出手写、印章、分数和涂画，确认后作为蒙版',
+  'source.mask': '蒙版',
+  'source.maskSet': '已设蒙版',
+  'source.maskTitle': '限定擦除区域',
+  'settings.autoFlatten': '上传照片时自动校正透视',
+  'settings.autoFlattenTitle': '找出照片中的纸张，拉平并纠正轻微倾斜',
+  'settings.renderDpi': 'PDF 渲染分辨率',
+  'settings.renderDpiTitle': 'PDF 先以低分辨率预览，处理某页时才按此分辨率渲染',
+  'settings.concurrency': '并发数',
+  'settings.requestsPerMinute': '每分钟请求上限',
+  'settings.tiling': '分块处理大图',
+  'settings.tilingTitle': '把大图切成相互重叠的小块分别交给 AI，再按原分辨率拼合，小字更清晰',
+  'settings.tileSize': '块大小',
+  'settings.overlap': '重叠',
+  'settings.fidelity': '保真度检查',
+  'settings.fidelityTitle': '检查 AI 是否改动了印刷内容',
+  'settings.threshold': '阈值',
+  'settings.autoRetries': '低于阈值自动重试',
+  'settings.retriesUnit': '次',
+  'run.aiBusy': 'AI 正在处理...',
+  'run.localBusy': '正在本地处理...',
+  'run.noFiles': '请先上传文件',
+  'run.noSelection': '请选择要处理的页面',
+  'run.noPrompt': '请先输入清除需求',
+  'run.start': '开始智能擦除',
+  'run.startSome': { other: '开始智能擦除 ({count} 页)' },
+  'run.resume': { other: '继续 ({count} 页)' },
+  'results.title': '处理结果',
+  'results.flagged': { other: '{count} 页需复核' },
+  'results.showHeatmaps': '显示差异热图',
+  'results.hideHeatmaps': '隐藏差异热图',
+  'results.undoAll': '全部页面撤销一步',
+  'results.redoAll': '全部页面重做一步',
+  'results.single': '单页',
+  'results.compare': '对比',
+  'results.download': '下载保存',
+  'results.fidelity': '保真度 {score}',
+  'results.fidelityFlagged': 'AI 可能改动了印刷内容，红色区域为差异处',
+  'results.fidelityOk': '印刷内容保持一致',
+  'results.left': '左：原图',
+  'results.right': '右：处理后',
+  'results.fullscreen': '全屏对比',
+  'results.tiling': '正在分块处理第 {page} 页... ({done}/{total} 块)',
+  'results.running': '正在处理第 {page} 页...',
+  'results.attempt': ' (第 {attempt} 次尝试)',
+  'results.skipped': '已跳过此页',
+  'results.fix': '建议：{fix}',
+  'results.retry': '重试此页',
+  'results.skip': '跳过',
+  'results.restored': '已还原为原图',
+  'results.waiting': '等待处理',
+  'results.empty': '处理后的试卷将显示在这里',
+  'results.resultAlt': '处理后的{page}',
+} satisfies Record<string, Message>;
@@ -0,0 +1,51 @@
+// Service worker: caches the app shell and the pdf.js data on install so the app can
+// be installed and opened offline. Built as /sw.js; vite.config.ts fills in the list
+// of files. Requests to the API always go to the network.
+
+// Service worker event types are not in the DOM lib this project compiles against.
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  request: Request;
+  respondWith(response: Promise<Response>): void;
+}
+
+interface ServiceWorkerScope {
+  location: Location;
+  clients: { claim(): Promise<void> };
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+}
+
+declare const __PRECACHE__: { version: string; files: string[] };
+
+const scope = self as unknown as ServiceWorkerScope;
+const CACHE_PREFIX = 'smarter-eraser-';
+const CACHE = `${CACHE_PREFIX}${__PRECACHE__.version}`;
+
+scope.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(__PRECACHE__.files)));
+});
+
+// Caches of earlier builds are dropped once this one takes over.
+scope.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith(CACHE_PREFIX) && key !== CACHE).map(key => caches.delete(key))))
+      .then(() => scope.clients.claim()),
+  );
+});
+
+scope.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== scope.location.origin || url.pathname.startsWith('/api/')) return;
+  if (request.mode === 'navigate') {
+    // The page comes from the network while it answers, so a new build shows up at once.
+    event.respondWith(fetch(request).catch(async () => (await caches.match('/index.html')) ?? Response.error()));
+    return;
+  }
+  event.respondWith(caches.match(request).then(cached => cached ?? fetch(request)));
+});
@@ -1,14 +1,82 @@
 import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
+import { createHash } from 'crypto';
+import fs from 'fs';
 import path from 'path';
-import {defineConfig, loadEnv} from 'vite';
+import {defineConfig, type Plugin} from 'vite';
 
-export default defineConfig(({mode}) => {
-  const env = loadEnv(mode, '.', '');
+const PDFJS_DIR = path.resolve(__dirname, 'node_modules/pdfjs-dist');
+/** pdf.js data loaded by URL at runtime (see src/lib/pdfjs.ts); the worker script is bundled as an asset. */
+const PDFJS_ASSETS = ['cmaps', 'standard_fonts', 'wasm'];
+
+/** Serves pdf.js's cMaps, standard fonts and wasm decoders under /pdfjs/ and copies them into the build. */
+function pdfjsAssets(): Plugin {
+  return {
+    name: 'pdfjs-assets',
+    configureServer(server) {
+      server.middlewares.use('/pdfjs', (req, res, next) => {
+        const file = path.join(PDFJS_DIR, decodeURIComponent((req.url ?? '').split('?')[0]));
+        const [dir] = path.relative(PDFJS_DIR, file).split(path.sep);
+        if (!PDFJS_ASSETS.includes(dir) || !fs.existsSync(file) || !fs.statSync(file).isFile()) return next();
+        if (file.endsWith('.wasm')) res.setHeader('Content-Type', 'application/wasm');
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const dir of PDFJS_ASSETS) {
+        for (const name of fs.readdirSync(path.join(PDFJS_DIR, dir))) {
+          this.emitFile({ type: 'asset', fileName: `pdfjs/${dir}/${name}`, source: fs.readFileSync(path.join(PDFJS_DIR, dir, name)) });
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Fills in the list of files the service worker (src/sw.ts) caches on install: every
+ * file of the build and of public/. The cache is named after the list, so a new build
+ * replaces it.
+ */
+function precacheManifest(): Plugin {
   return {
-    plugins: [react(), tailwindcss()],
-    define: {
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+    name: 'precache-manifest',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const sw = bundle['sw.js'];
+      if (sw?.type !== 'chunk') return;
+      const publicDir = path.resolve(__dirname, 'public');
+      const files = [
+        ...Object.keys(bundle).filter(name => name !== 'sw.js' && !name.endsWith('.map')),
+        ...(fs.existsSync(publicDir) ? fs.readdirSync(publicDir) : []),
+      ].map(name => `/${name}`).sort();
+      const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+      sw.code = sw.code.replaceAll('__PRECACHE__', JSON.stringify({ version, files }));
+      // A placeholder left behind would only surface as a ReferenceError when the worker installs.
+      if (sw.code.includes('__PRECACHE__')) this.error('sw.js still references __PRECACHE__ after the manifest was inlined');
+    },
+  };
+}
+
+// The Gemini key lives only in the Express server (server.ts); never expose it to the client bundle.
+export default defineConfig(() => {
+  return {
+    plugins: [react(), tailwindcss(), pdfjsAssets(), precacheManifest()],
+    // The PDF raster worker (src/lib/rasterWorker.ts) imports modules.
+    worker: {
+      format: 'es' as const,
+    },
+    build: {
+      rollupOptions: {
+        // The service worker is its own entry, kept at the root so its scope is the whole app.
+        input: {
+          main: path.resolve(__dirname, 'index.html'),
+          sw: path.resolve(__dirname, 'src/sw.ts'),
+        },
+        output: {
+          entryFileNames: (chunk: { name: string }) => (chunk.name === 'sw' ? 'sw.js' : 'assets/[name]-[hash].js'),
+        },
+      },
     },
     resolve: {
       alias: {
@@ -17,7 +85,7 @@ export default defineConfig(({mode}) => {
     },
     server: {
       // HMR is disabled in AI Studio via DISABLE_HMR env var.
-      // Do not modifyâfile watching is disabled to prevent flickering during agent edits.
+      // Do not modifyâfile watching is disabled to prevent flickering during agent edits.
       hmr: process.env.DISABLE_HMR !== 'true',
     },
   };